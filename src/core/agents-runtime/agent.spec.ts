@@ -11,6 +11,9 @@ import {
   addTool,
   recordDecision,
   updatePerception,
+  LINEAGE_LIMIT,
+  appendLineage,
+  parentIds,
   type MetaAgent,
 } from './agent';
 
@@ -94,6 +97,24 @@ describe('agent - cloning', () => {
     expect(clone.lineage.some(l => l.includes('clone-from:a1'))).toBe(true);
   });
 
+  it('should record parents on the agent, whatever their ids contain', () => {
+    const original = createAgent('a+1:gen2', 'tutor');
+    const clone = cloneAgent(original, 'a2');
+    clone.lineage = appendLineage(clone.lineage, 'mutation:gaussian:gen1');
+    
+    expect(parentIds(original)).toEqual([]);
+    expect(parentIds(clone)).toEqual(['a+1:gen2']);
+    expect(parentIds(cloneAgent(clone, 'a3'))).toEqual(['a2']);
+  });
+
+  it('should keep only the newest lineage entries', () => {
+    let agent = createAgent('a0', 'tutor');
+    for (let i = 1; i <= LINEAGE_LIMIT + 5; i++) agent = cloneAgent(agent, `a${i}`);
+    
+    expect(agent.lineage).toHaveLength(LINEAGE_LIMIT);
+    expect(agent.lineage[LINEAGE_LIMIT - 1]).toBe(`clone-from:a${LINEAGE_LIMIT + 4}`);
+  });
+
   it('should not mutate original agent', () => {
     const original = createAgent('a1', 'tutor');
     const originalKnowledge = original.reasoning.knowledge.length;
@@ -10,7 +10,7 @@
  */
 
 import { HilbertState } from '../laws-physics/hilbert';
-import { ObjectiveVector } from '../laws-physics/objectives';
+import { ObjectiveSpec, ObjectiveVector, DEFAULT_OBJECTIVES } from '../laws-physics/objectives';
 
 /**
  * Agent kind in the evolving hierarchy.
@@ -101,12 +101,25 @@ export interface Coordination {
 
 /**
  * Proof bundle: certificate that an agent satisfies its spec.
+ * Bundles from the proof gate are signed (metal-league/proof-signing.ts).
  */
 export interface ProofBundle {
   spec: string;
   proof: string;
   verified: boolean;
   timestamp: number;
+
+  /** SHA-256 of the genome, spec, checks, gate version and timestamp */
+  hash?: string;
+
+  /** Base64 Ed25519 signature of `hash` */
+  signature?: string;
+
+  /** Signer's public key (SPKI PEM) */
+  publicKey?: string;
+
+  /** Version of the gate config that issued the proof */
+  gateVersion?: string;
 }
 
 /**
@@ -132,20 +145,46 @@ export interface MetaAgent {
   /** Proof certificate */
   proof?: ProofBundle;
   
-  /** Parent lineage */
+  /** Recent lineage entries, at most LINEAGE_LIMIT (full history: metal-league/genealogy.ts) */
   lineage: string[];
   
+  /** Ids of the agents this one was bred from (one for clones, two for crossover); empty for genesis agents */
+  parents: string[];
+  
   /** Metadata */
   metadata: Record<string, unknown>;
 }
 
+/**
+ * Lineage entries an agent keeps; older entries are dropped.
+ */
+export const LINEAGE_LIMIT = 32;
+
+/**
+ * Lineage with `entries` appended, trimmed to the newest LINEAGE_LIMIT.
+ */
+export function appendLineage(lineage: string[], ...entries: string[]): string[] {
+  return [...lineage, ...entries].slice(-LINEAGE_LIMIT);
+}
+
+/**
+ * Ids of an agent's parents. Empty for genesis agents, and for agents
+ * saved before parents were recorded.
+ */
+export function parentIds(agent: MetaAgent): string[] {
+  return agent.parents ?? [];
+}
+
 /**
  * Create a new agent with default initialization.
+ * The objective vector is zero-filled to match the given objective set.
  */
 export function createAgent(
   id: string,
   kind: AgentKind,
-  stateDim = 8
+  stateDim = 8,
+  objectives: ObjectiveSpec[] = DEFAULT_OBJECTIVES,
+  timestamp = Date.now()
 ): MetaAgent {
   return {
     id,
@@ -155,7 +194,7 @@ export function createAgent(
       state: Array.from({ length: stateDim }, () => ({ re: 0, im: 0 })),
       uncertainty: 1.0,
       provenance: ['init'],
-      timestamp: Date.now(),
+      timestamp,
     },
     reasoning: {
       knowledge: [],
@@ -168,10 +207,11 @@ export function createAgent(
       partners: [],
     },
     objectives: {
-      values: [0, 0, 0, 0, 0, 0], // [gain, latency, engagement, fairness, privacy, cost]
-      timestamp: Date.now(),
+      values: objectives.map(() => 0),
+      timestamp,
     },
     lineage: ['genesis'],
+    parents: [],
     metadata: {},
   };
 }
@@ -204,7 +244,8 @@ export function cloneAgent(agent: MetaAgent, newId?: string): MetaAgent {
       ...agent.objectives,
       values: [...agent.objectives.values],
     },
-    lineage: [...agent.lineage, `clone-from:${agent.id}`],
+    lineage: appendLineage(agent.lineage, `clone-from:${agent.id}`),
+    parents: [agent.id],
   };
 }
 
@@ -235,9 +276,10 @@ export function recordDecision(agent: MetaAgent, decision: string): void {
 export function updatePerception(
   agent: MetaAgent,
   newState: HilbertState,
-  provenance: string
+  provenance: string,
+  timestamp = Date.now()
 ): void {
   agent.perception.state = newState;
   agent.perception.provenance.push(provenance);
-  agent.perception.timestamp = Date.now();
+  agent.perception.timestamp = timestamp;
 }
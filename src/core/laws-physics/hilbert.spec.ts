@@ -17,6 +17,7 @@ import {
   isStable,
   type HilbertState,
 } from './hilbert';
+import { createRng } from './random';
 
 describe('hilbert - basic operations', () => {
   it('should create zero state of correct dimension', () => {
@@ -122,6 +123,12 @@ describe('hilbert - privacy projection', () => {
     // With reasonable noise, should differ from original
     expect(Math.abs(projected[0].re - state[0].re)).toBeGreaterThan(0);
   });
+
+  it('should repeat the noise for a seeded source', () => {
+    const state: HilbertState = [{ re: 1, im: 0 }, { re: 0, im: 1 }];
+    expect(privacyProjection(state, 2, 0.5, createRng(11).next))
+      .toEqual(privacyProjection(state, 2, 0.5, createRng(11).next));
+  });
 });
 
 describe('hilbert - spectral sync', () => {
@@ -193,4 +200,9 @@ describe('hilbert - stability', () => {
     // Zero state should be stable OR test should complete without error
     expect(typeof stable).toBe('boolean');
   });
+
+  it('should give the same verdict for a seeded source', () => {
+    const state: HilbertState = [{ re: 0.6, im: 0 }, { re: 0, im: 0.8 }];
+    expect(isStable(state, 0.1, createRng(4).next)).toBe(isStable(state, 0.1, createRng(4).next));
+  });
 });
@@ -88,25 +88,26 @@ export function stateDistance(a: HilbertState, b: HilbertState): number {
 
 /**
  * Privacy-preserving projection operator.
- * Projects state to lower-dimensional subspace + adds noise.
+ * Projects state to lower-dimensional subspace + adds noise drawn from `random`.
  */
 export function privacyProjection(
   state: HilbertState,
   targetDim: number,
-  noiseScale = 0.1
+  noiseScale = 0.1,
+  random: () => number = Math.random
 ): HilbertState {
   if (targetDim >= state.length) {
     // No compression needed, just add noise
     return state.map(z => ({
-      re: z.re + (Math.random() - 0.5) * 2 * noiseScale,
-      im: z.im + (Math.random() - 0.5) * 2 * noiseScale,
+      re: z.re + (random() - 0.5) * 2 * noiseScale,
+      im: z.im + (random() - 0.5) * 2 * noiseScale,
     }));
   }
   
   // Simple projection: take first targetDim components + noise
   const projected = state.slice(0, targetDim).map(z => ({
-    re: z.re + (Math.random() - 0.5) * 2 * noiseScale,
-    im: z.im + (Math.random() - 0.5) * 2 * noiseScale,
+    re: z.re + (random() - 0.5) * 2 * noiseScale,
+    im: z.im + (random() - 0.5) * 2 * noiseScale,
   }));
   
   return projected;
@@ -158,15 +159,20 @@ export function learningEnergy(state: HilbertState): number {
 
 /**
  * Check if a state is stable (local energy minimum).
+ * Probes random perturbations drawn from `random`.
  */
-export function isStable(state: HilbertState, epsilon = 0.1): boolean {
+export function isStable(
+  state: HilbertState,
+  epsilon = 0.1,
+  random: () => number = Math.random
+): boolean {
   const energy = learningEnergy(state);
   
   // Test small perturbations
   for (let trial = 0; trial < 10; trial++) {
     const perturbed = state.map(z => ({
-      re: z.re + (Math.random() - 0.5) * epsilon,
-      im: z.im + (Math.random() - 0.5) * epsilon,
+      re: z.re + (random() - 0.5) * epsilon,
+      im: z.im + (random() - 0.5) * epsilon,
     }));
     
     const perturbedEnergy = learningEnergy(perturbed);
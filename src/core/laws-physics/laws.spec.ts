@@ -0,0 +1,178 @@
+/**
+ * SPEC TEST: laws.spec.ts
+ * Paired with laws.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkLaw,
+  allOf,
+  anyOf,
+  not,
+  rangeLaw,
+  toleranceLaw,
+  deltaLaw,
+  contramapLaw,
+  type LawDelta,
+} from './laws';
+import { satisfiesLaw, objectiveLaw, type Law } from './objectives';
+
+interface Probe {
+  latency: number;
+  gain: number;
+}
+
+const maxLatency: Law<Probe> = {
+  name: 'max-latency',
+  evaluate: p => p.latency,
+  sense: 'min',
+  threshold: 1000,
+};
+
+const minGain: Law<Probe> = {
+  name: 'min-gain',
+  evaluate: p => p.gain,
+  sense: 'max',
+  threshold: 0.1,
+};
+
+describe('laws - plain laws', () => {
+  it('should report value, threshold and margin', () => {
+    const outcome = checkLaw(maxLatency, { latency: 400, gain: 0 });
+
+    expect(outcome.passed).toBe(true);
+    expect(outcome.value).toBe(400);
+    expect(outcome.threshold).toBe(1000);
+    expect(outcome.margin).toBe(600);
+  });
+
+  it('should have infinite margin without a threshold', () => {
+    const law: Law<Probe> = { name: 'free', evaluate: () => 5, sense: 'max' };
+    expect(checkLaw(law, { latency: 0, gain: 0 }).margin).toBe(Infinity);
+  });
+});
+
+describe('laws - allOf', () => {
+  const healthy = allOf('healthy', [maxLatency, minGain]);
+
+  it('should pass when every sub-law holds', () => {
+    const outcome = checkLaw(healthy, { latency: 50, gain: 0.5 });
+    expect(outcome.passed).toBe(true);
+    expect(outcome.children).toHaveLength(2);
+  });
+
+  it('should name the failing sub-law', () => {
+    const outcome = checkLaw(healthy, { latency: 2000, gain: 0.5 });
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.message).toContain('healthy failed');
+    expect(outcome.message).toContain('max-latency failed');
+    expect(outcome.message).not.toContain('min-gain');
+  });
+
+  it('should evaluate to the tightest margin', () => {
+    // latency slack 0.25 is tighter than gain slack 0.4
+    const probe = { latency: 999.75, gain: 0.5 };
+    expect(healthy.evaluate(probe)).toBeCloseTo(0.25);
+    expect(satisfiesLaw(healthy, healthy.evaluate(probe))).toBe(true);
+  });
+});
+
+describe('laws - anyOf', () => {
+  const either = anyOf('either', [maxLatency, minGain]);
+
+  it('should pass when one sub-law holds', () => {
+    expect(checkLaw(either, { latency: 2000, gain: 0.5 }).passed).toBe(true);
+  });
+
+  it('should explain every failure when none hold', () => {
+    const outcome = checkLaw(either, { latency: 2000, gain: 0 });
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.message).toContain('max-latency failed');
+    expect(outcome.message).toContain('min-gain failed');
+  });
+});
+
+describe('laws - not', () => {
+  it('should invert the sub-law', () => {
+    const slow = not(maxLatency, 'must-be-slow');
+
+    expect(checkLaw(slow, { latency: 2000, gain: 0 }).passed).toBe(true);
+    expect(checkLaw(slow, { latency: 10, gain: 0 }).message).toContain('max-latency holds');
+  });
+
+  it('should fail when the sub-law holds with zero slack', () => {
+    const negated = not(maxLatency);
+    const probe = { latency: 1000, gain: 0 };
+
+    expect(checkLaw(negated, probe).passed).toBe(false);
+    expect(satisfiesLaw(negated, negated.evaluate(probe))).toBe(false);
+  });
+});
+
+describe('laws - bands', () => {
+  it('should enforce both range bounds', () => {
+    const law = rangeLaw<Probe>('latency-window', p => p.latency, 50, 500);
+
+    expect(checkLaw(law, { latency: 100, gain: 0 }).passed).toBe(true);
+    expect(checkLaw(law, { latency: 10, gain: 0 }).passed).toBe(false);
+    expect(checkLaw(law, { latency: 900, gain: 0 }).message).toContain('outside [50, 500]');
+  });
+
+  it('should allow open-ended ranges', () => {
+    const law = rangeLaw<Probe>('at-most', p => p.latency, undefined, 500);
+    expect(checkLaw(law, { latency: -1e9, gain: 0 }).passed).toBe(true);
+  });
+
+  it('should enforce tolerance bands', () => {
+    const law = toleranceLaw<Probe>('unit-gain', p => p.gain, 1, 0.1);
+
+    expect(checkLaw(law, { latency: 0, gain: 0.95 }).passed).toBe(true);
+    expect(checkLaw(law, { latency: 0, gain: 0.8 }).passed).toBe(false);
+  });
+});
+
+describe('laws - deltas and typed contexts', () => {
+  it('should compare child against parent', () => {
+    const law = deltaLaw<Probe>('no-gain-regression', p => p.gain, 'max', -0.05);
+    const pair: LawDelta<Probe> = {
+      parent: { latency: 0, gain: 0.5 },
+      child: { latency: 0, gain: 0.3 },
+    };
+
+    const outcome = checkLaw(law, pair);
+    expect(outcome.passed).toBe(false);
+    expect(outcome.value).toBeCloseTo(-0.2);
+  });
+
+  it('should compose delta laws with combinators', () => {
+    const law = allOf<LawDelta<Probe>>('no-regression', [
+      deltaLaw('gain', p => p.gain, 'max', 0),
+      deltaLaw('latency', p => p.latency, 'min', 0),
+    ]);
+    const outcome = checkLaw(law, {
+      parent: { latency: 100, gain: 0.5 },
+      child: { latency: 150, gain: 0.6 },
+    });
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.message).toContain('latency failed');
+  });
+
+  it('should project laws onto other contexts', () => {
+    const childGain = contramapLaw(minGain, (pair: LawDelta<Probe>) => pair.child);
+    expect(checkLaw(childGain, {
+      parent: { latency: 0, gain: 0 },
+      child: { latency: 0, gain: 0.5 },
+    }).passed).toBe(true);
+  });
+
+  it('should accept objective laws for any context carrying objectives', () => {
+    const law = allOf('gate', [objectiveLaw('min-gain', 'gain', 'max', 0.1)]);
+    const outcome = checkLaw(law, { objectives: { values: [0.05, 50, 0, 0, 0, 0], timestamp: 0 } });
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.message).toContain('min-gain failed');
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Law Algebra: composing invariants
+ *
+ * Plain laws are a single threshold on a single measurement. The combinators
+ * here build compound laws (conjunction, disjunction, negation, bands,
+ * parent/child deltas) that still satisfy the Law contract and explain
+ * exactly which sub-law failed.
+ *
+ * Compound laws evaluate to their margin (slack to failure) with sense "max"
+ * and threshold 0, so satisfiesLaw(law, law.evaluate(ctx)) stays meaningful;
+ * checkLaw gives the full outcome tree.
+ */
+
+import {
+  Law,
+  LawOutcome,
+  ObjectiveRegistry,
+  ObjectiveSense,
+  satisfiesLaw,
+} from "./objectives";
+
+/**
+ * Context for laws over a parent/child pair (e.g. "no mutation without proof").
+ */
+export interface LawDelta<C> {
+  parent: C;
+  child: C;
+}
+
+/**
+ * Signed slack of a value against a threshold: >= 0 iff satisfied.
+ */
+function thresholdMargin(value: number, sense: ObjectiveSense, threshold?: number): number {
+  if (threshold === undefined) return Infinity;
+  return sense === "max" ? value - threshold : threshold - value;
+}
+
+/**
+ * Check a law against a context, explaining the result.
+ */
+export function checkLaw<C>(law: Law<C>, context: C, objectives?: ObjectiveRegistry): LawOutcome {
+  if (law.check) return law.check(context, objectives);
+
+  const value = law.evaluate(context, objectives);
+  const passed = satisfiesLaw(law, value);
+
+  return {
+    name: law.name,
+    passed,
+    value,
+    threshold: law.threshold,
+    margin: thresholdMargin(value, law.sense, law.threshold),
+    message: passed
+      ? `${law.name} satisfied`
+      : `${law.name} failed: ${value} vs threshold ${law.threshold}`,
+  };
+}
+
+/**
+ * Wrap a structured check into a Law that evaluates to its margin.
+ */
+function compoundLaw<C>(
+  name: string,
+  check: (context: C, objectives?: ObjectiveRegistry) => LawOutcome
+): Law<C> {
+  return {
+    name,
+    evaluate: (context, objectives) => check(context, objectives).margin,
+    sense: "max",
+    threshold: 0,
+    check,
+  };
+}
+
+/**
+ * Conjunction: every sub-law must hold.
+ */
+export function allOf<C>(name: string, laws: Law<C>[]): Law<C> {
+  return compoundLaw(name, (context, objectives) => {
+    const children = laws.map(law => checkLaw(law, context, objectives));
+    const failures = children.filter(c => !c.passed);
+    const passed = failures.length === 0;
+    const margin = Math.min(Infinity, ...children.map(c => c.margin));
+
+    return {
+      name,
+      passed,
+      value: margin,
+      threshold: 0,
+      margin,
+      message: passed
+        ? `${name} satisfied`
+        : `${name} failed: ${failures.map(c => c.message).join("; ")}`,
+      children,
+    };
+  });
+}
+
+/**
+ * Disjunction: at least one sub-law must hold.
+ */
+export function anyOf<C>(name: string, laws: Law<C>[]): Law<C> {
+  return compoundLaw(name, (context, objectives) => {
+    const children = laws.map(law => checkLaw(law, context, objectives));
+    const passed = children.some(c => c.passed);
+    const margin = Math.max(-Infinity, ...children.map(c => c.margin));
+
+    return {
+      name,
+      passed,
+      value: margin,
+      threshold: 0,
+      margin,
+      message: passed
+        ? `${name} satisfied`
+        : `${name} failed: none held (${children.map(c => c.message).join("; ")})`,
+      children,
+    };
+  });
+}
+
+/**
+ * Negation: the sub-law must not hold.
+ */
+export function not<C>(law: Law<C>, name = `not(${law.name})`): Law<C> {
+  return compoundLaw(name, (context, objectives) => {
+    const inner = checkLaw(law, context, objectives);
+    // A sub-law satisfied with zero slack must still make the negation fail
+    const margin = inner.passed ? -Math.max(inner.margin, Number.MIN_VALUE) : -inner.margin;
+
+    return {
+      name,
+      passed: !inner.passed,
+      value: margin,
+      threshold: 0,
+      margin,
+      message: inner.passed
+        ? `${name} failed: ${law.name} holds (value ${inner.value})`
+        : `${name} satisfied`,
+      children: [inner],
+    };
+  });
+}
+
+/**
+ * Range law: lower <= value <= upper. Either bound may be omitted.
+ */
+export function rangeLaw<C>(
+  name: string,
+  evaluate: (context: C, objectives?: ObjectiveRegistry) => number,
+  lower?: number,
+  upper?: number
+): Law<C> {
+  return compoundLaw(name, (context, objectives) => {
+    const value = evaluate(context, objectives);
+    const margin = Math.min(
+      lower === undefined ? Infinity : value - lower,
+      upper === undefined ? Infinity : upper - value
+    );
+    const passed = margin >= 0;
+
+    return {
+      name,
+      passed,
+      value,
+      margin,
+      message: passed
+        ? `${name} satisfied`
+        : `${name} failed: ${value} outside [${lower ?? "-∞"}, ${upper ?? "∞"}]`,
+    };
+  });
+}
+
+/**
+ * Tolerance band: |value - target| <= tolerance.
+ */
+export function toleranceLaw<C>(
+  name: string,
+  evaluate: (context: C, objectives?: ObjectiveRegistry) => number,
+  target: number,
+  tolerance: number
+): Law<C> {
+  return compoundLaw(name, (context, objectives) => {
+    const value = evaluate(context, objectives);
+    const margin = tolerance - Math.abs(value - target);
+    const passed = margin >= 0;
+
+    return {
+      name,
+      passed,
+      value,
+      threshold: target,
+      margin,
+      message: passed
+        ? `${name} satisfied`
+        : `${name} failed: ${value} is more than ${tolerance} from ${target}`,
+    };
+  });
+}
+
+/**
+ * Delta law over a parent/child pair: evaluate(child) - evaluate(parent)
+ * must satisfy the threshold under the given sense.
+ * Example: deltaLaw('no-gain-regression', gainOf, 'max', -0.05)
+ */
+export function deltaLaw<C>(
+  name: string,
+  evaluate: (context: C, objectives?: ObjectiveRegistry) => number,
+  sense: ObjectiveSense,
+  threshold: number
+): Law<LawDelta<C>> {
+  return {
+    name,
+    evaluate: ({ parent, child }, objectives) =>
+      evaluate(child, objectives) - evaluate(parent, objectives),
+    sense,
+    threshold,
+  };
+}
+
+/**
+ * Reuse a law on a different context by projecting into the law's context.
+ * Example: contramapLaw(gainLaw, (pair: LawDelta<MetaAgent>) => pair.child)
+ */
+export function contramapLaw<A, B>(law: Law<B>, project: (context: A) => B): Law<A> {
+  return {
+    name: law.name,
+    evaluate: (context, objectives) => law.evaluate(project(context), objectives),
+    sense: law.sense,
+    threshold: law.threshold,
+    check: law.check
+      ? (context, objectives) => law.check!(project(context), objectives)
+      : undefined,
+  };
+}
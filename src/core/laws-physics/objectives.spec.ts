@@ -11,7 +11,11 @@ import {
   noWorse,
   strictlyBetter,
   satisfiesLaw,
+  createObjectiveRegistry,
+  objectiveLaw,
+  createObjectiveNormalizer,
   DEFAULT_OBJECTIVES,
+  DEFAULT_OBJECTIVE_REGISTRY,
   type ObjectiveSpec,
   type Law,
 } from './objectives';
@@ -149,3 +153,184 @@ describe('objective delta emission (Rule 4)', () => {
     }
   });
 });
+
+describe('objective registry', () => {
+  const tradingSpecs: ObjectiveSpec[] = [
+    { name: 'sharpe', sense: 'max' },
+    { name: 'drawdown', sense: 'min' },
+  ];
+
+  it('should resolve names to vector positions', () => {
+    expect(DEFAULT_OBJECTIVE_REGISTRY.indexOf('gain')).toBe(0);
+    expect(DEFAULT_OBJECTIVE_REGISTRY.indexOf('privacyLoss')).toBe(4);
+    expect(DEFAULT_OBJECTIVE_REGISTRY.indexOf('cost')).toBe(5);
+  });
+
+  it('should read and write values by name', () => {
+    const registry = createObjectiveRegistry(tradingSpecs);
+    const vector = { values: [0, 0], timestamp: 0 };
+
+    registry.set(vector, 'drawdown', 0.12);
+    registry.set(vector, 'sharpe', 1.8);
+
+    expect(vector.values).toEqual([1.8, 0.12]);
+    expect(registry.get(vector, 'sharpe')).toBe(1.8);
+  });
+
+  it('should round-trip records', () => {
+    const registry = createObjectiveRegistry(tradingSpecs);
+    const vector = registry.fromRecord({ drawdown: 0.2, sharpe: 1.1, ignored: 99 }, 42);
+
+    expect(vector).toEqual({ values: [1.1, 0.2], timestamp: 42 });
+    expect(registry.toRecord(vector)).toEqual({ sharpe: 1.1, drawdown: 0.2 });
+  });
+
+  it('should reject unknown and missing objectives', () => {
+    const registry = createObjectiveRegistry(tradingSpecs);
+
+    expect(() => registry.indexOf('gain')).toThrow('Unknown objective');
+    expect(() => registry.fromRecord({ sharpe: 1 })).toThrow('Missing value');
+    expect(registry.has('gain')).toBe(false);
+  });
+
+  it('should reject misaligned vectors', () => {
+    const registry = createObjectiveRegistry(tradingSpecs);
+    expect(() => registry.get({ values: [1, 2, 3], timestamp: 0 }, 'sharpe')).toThrow();
+  });
+
+  it('should reject duplicate names', () => {
+    expect(() => createObjectiveRegistry([...tradingSpecs, { name: 'sharpe', sense: 'max' }]))
+      .toThrow('Duplicate objective');
+  });
+});
+
+describe('objectiveLaw', () => {
+  it('should evaluate the named objective against the given registry', () => {
+    const registry = createObjectiveRegistry([
+      { name: 'sharpe', sense: 'max' },
+      { name: 'drawdown', sense: 'min' },
+    ]);
+    const law = objectiveLaw('max-drawdown', 'drawdown', 'min', 0.25);
+    const value = law.evaluate({ objectives: { values: [1.5, 0.3], timestamp: 0 } }, registry);
+
+    expect(value).toBe(0.3);
+    expect(satisfiesLaw(law, value)).toBe(false);
+  });
+
+  it('should default to the standard objective layout', () => {
+    const law = objectiveLaw('min-gain', 'gain', 'max', 0.1);
+    expect(law.evaluate({ objectives: { values: [0.4, 50, 0, 0, 0, 0], timestamp: 0 } })).toBe(0.4);
+  });
+
+  it('should reject objectives missing from the registry', () => {
+    const law = objectiveLaw('min-sharpe', 'sharpe', 'max', 1);
+    expect(() => law.evaluate({ objectives: { values: [0, 0, 0, 0, 0, 0], timestamp: 0 } }))
+      .toThrow('Unknown objective');
+  });
+});
+
+describe('objective normalization', () => {
+  const specs: ObjectiveSpec[] = [
+    { name: 'gain', sense: 'max' },
+    { name: 'latency', sense: 'min' },
+  ];
+  const vec = (gain: number, latency: number) => ({ values: [gain, latency], timestamp: 0 });
+
+  it('should map min-max bounds to [0, 1] with lower is better', () => {
+    const normalizer = createObjectiveNormalizer(specs, { mode: 'min-max' });
+    normalizer.observe([vec(0.2, 50), vec(1.0, 1000)]);
+
+    const [bestGain, bestLatency] = normalizer.normalize(vec(1.0, 50));
+    expect(bestGain).toBeCloseTo(0);
+    expect(bestLatency).toBeCloseTo(0);
+    expect(normalizer.normalize(vec(0.2, 1000))).toEqual([1, 1]);
+    const [gain, latency] = normalizer.normalize(vec(0.6, 525));
+    expect(gain).toBeCloseTo(0.5);
+    expect(latency).toBeCloseTo(0.5);
+  });
+
+  it('should track running bounds across batches', () => {
+    const normalizer = createObjectiveNormalizer(specs);
+    normalizer.observe([vec(0.5, 100)]);
+    normalizer.observe([vec(0.1, 900)]);
+
+    const bounds = normalizer.bounds();
+    expect(bounds.count).toBe(2);
+    expect(bounds.min).toEqual([0.1, 100]);
+    expect(bounds.max).toEqual([0.5, 900]);
+    expect(bounds.ideal).toEqual([0.5, 100]);
+  });
+
+  it('should compute z-scores from running mean and std', () => {
+    const normalizer = createObjectiveNormalizer(specs, { mode: 'z-score' });
+    normalizer.observe([vec(0, 100), vec(1, 200), vec(2, 300)]);
+
+    const [gain, latency] = normalizer.normalize(vec(2, 300));
+    expect(gain).toBeCloseTo(-1); // above-mean gain is better, so negative
+    expect(latency).toBeCloseTo(1);
+  });
+
+  it('should take the nadir from the latest non-dominated set', () => {
+    const normalizer = createObjectiveNormalizer(specs, { mode: 'ideal-nadir' });
+    // (0.1, 2000) is dominated and must not stretch the nadir
+    normalizer.observe([vec(1.0, 500), vec(0.5, 100), vec(0.1, 2000)]);
+
+    expect(normalizer.bounds().nadir).toEqual([0.5, 500]);
+    expect(normalizer.normalize(vec(0.5, 500))).toEqual([1, 1]);
+  });
+
+  it('should take the nadir from a front the caller already sorted', () => {
+    const normalizer = createObjectiveNormalizer(specs, { mode: 'ideal-nadir' });
+    normalizer.observe([vec(1.0, 500), vec(0.5, 100), vec(0.1, 2000)], [vec(1.0, 500)]);
+
+    expect(normalizer.bounds().nadir).toEqual([1.0, 500]);
+  });
+
+  it('should only track the nadir in ideal-nadir mode', () => {
+    const normalizer = createObjectiveNormalizer(specs);
+    normalizer.observe([vec(1.0, 500), vec(0.5, 100)]);
+
+    expect(normalizer.bounds().nadir).toEqual([Infinity, -Infinity]);
+  });
+
+  it('should use user-supplied reference points', () => {
+    const normalizer = createObjectiveNormalizer(specs, {
+      mode: 'reference',
+      ideal: { gain: 1, latency: 0 },
+      nadir: { gain: 0, latency: 1000 },
+    });
+
+    const [gain, latency] = normalizer.normalize(vec(0.75, 250));
+    expect(gain).toBeCloseTo(0.25);
+    expect(latency).toBeCloseTo(0.25);
+  });
+
+  it('should require both reference points', () => {
+    expect(() => createObjectiveNormalizer(specs, { mode: 'reference', ideal: { gain: 1, latency: 0 } }))
+      .toThrow('ideal and nadir');
+  });
+
+  it('should normalize degenerate ranges to 0', () => {
+    const normalizer = createObjectiveNormalizer(specs);
+    normalizer.observe([vec(0.5, 100), vec(0.5, 100)]);
+    expect(normalizer.normalize(vec(0.5, 100))).toEqual([0, 0]);
+  });
+
+  it('should continue identically from a snapshot', () => {
+    const original = createObjectiveNormalizer(specs, { mode: 'z-score' });
+    original.observe([vec(0.1, 900), vec(0.7, 200), vec(0.4, 500)]);
+
+    const restored = createObjectiveNormalizer(specs, { mode: 'z-score' });
+    restored.restore(original.snapshot());
+    original.observe([vec(0.9, 50)]);
+    restored.observe([vec(0.9, 50)]);
+
+    expect(restored.bounds()).toEqual(original.bounds());
+    expect(restored.normalize(vec(0.5, 300))).toEqual(original.normalize(vec(0.5, 300)));
+  });
+
+  it('should reject snapshots of other objective sets', () => {
+    const other = createObjectiveNormalizer([{ name: 'gain', sense: 'max' }]);
+    expect(() => createObjectiveNormalizer(specs).restore(other.snapshot())).toThrow('must match specs');
+  });
+});
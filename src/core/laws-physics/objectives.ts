@@ -40,21 +40,143 @@ export const DEFAULT_OBJECTIVES: ObjectiveSpec[] = [
   { name: "cost", sense: "min" },           // compute / API / tool spend
 ];
 
+/**
+ * Name-keyed view over an ordered objective set.
+ * ObjectiveVector values stay positional (NSGA-II compares them index by index),
+ * but every read and write outside the sorter should go through the registry
+ * so custom objective sets cannot silently drift out of alignment.
+ */
+export interface ObjectiveRegistry {
+  /** Objective specs in vector order */
+  specs: ObjectiveSpec[];
+
+  /** Objective names in vector order */
+  names: string[];
+
+  /** True if the objective set defines this name */
+  has(name: string): boolean;
+
+  /** Position of a named objective; throws for unknown names */
+  indexOf(name: string): number;
+
+  /** Spec of a named objective; throws for unknown names */
+  spec(name: string): ObjectiveSpec;
+
+  /** Read a named value from a vector */
+  get(vector: ObjectiveVector, name: string): number;
+
+  /** Write a named value into a vector */
+  set(vector: ObjectiveVector, name: string, value: number): void;
+
+  /** Convert a vector to a name-keyed record */
+  toRecord(vector: ObjectiveVector): Record<string, number>;
+
+  /** Build a vector from a name-keyed record; every objective must be present */
+  fromRecord(record: Record<string, number>, timestamp?: number): ObjectiveVector;
+}
+
+/**
+ * Create a registry for an objective set.
+ * Objective names must be unique.
+ */
+export function createObjectiveRegistry(specs: ObjectiveSpec[]): ObjectiveRegistry {
+  const index = new Map<string, number>();
+  specs.forEach((spec, i) => {
+    if (index.has(spec.name)) {
+      throw new Error(`Duplicate objective name: ${spec.name}`);
+    }
+    index.set(spec.name, i);
+  });
+
+  const indexOf = (name: string): number => {
+    const i = index.get(name);
+    if (i === undefined) {
+      throw new Error(`Unknown objective: ${name}`);
+    }
+    return i;
+  };
+
+  const checkLength = (vector: ObjectiveVector): void => {
+    if (vector.values.length !== specs.length) {
+      throw new Error("Objective vector length must match specs");
+    }
+  };
+
+  return {
+    specs,
+    names: specs.map(s => s.name),
+    has: name => index.has(name),
+    indexOf,
+    spec: name => specs[indexOf(name)],
+    get: (vector, name) => {
+      checkLength(vector);
+      return vector.values[indexOf(name)];
+    },
+    set: (vector, name, value) => {
+      checkLength(vector);
+      vector.values[indexOf(name)] = value;
+    },
+    toRecord: vector => {
+      checkLength(vector);
+      return Object.fromEntries(specs.map((s, i) => [s.name, vector.values[i]]));
+    },
+    fromRecord: (record, timestamp = Date.now()) => {
+      const values = specs.map(s => {
+        const value = record[s.name];
+        if (value === undefined) {
+          throw new Error(`Missing value for objective: ${s.name}`);
+        }
+        return value;
+      });
+      return { values, timestamp };
+    },
+  };
+}
+
+/**
+ * Registry over DEFAULT_OBJECTIVES.
+ */
+export const DEFAULT_OBJECTIVE_REGISTRY: ObjectiveRegistry = createObjectiveRegistry(DEFAULT_OBJECTIVES);
+
 /**
  * Law: an invariant that must hold for all agents.
  * Examples: energy >= 0, privacy <= epsilon, latency <= budget
+ *
+ * C is the context the law is evaluated against (e.g. MetaAgent).
  */
-export interface Law {
+export interface Law<C = unknown> {
   name: string;
-  evaluate: (context: unknown) => number;
+  /** Registry is supplied by callers that know the objective layout of the context */
+  evaluate: (context: C, objectives?: ObjectiveRegistry) => number;
   sense: "min" | "max";
   threshold?: number;
+  /** Structured check for compound laws (see laws.ts); plain laws are checked via evaluate + threshold */
+  check?: (context: C, objectives?: ObjectiveRegistry) => LawOutcome;
+  /** Objective a plain objective law reads (set by objectiveLaw), so the law can be described as data */
+  objective?: string;
+}
+
+/**
+ * Outcome of checking a law against a context.
+ */
+export interface LawOutcome {
+  name: string;
+  passed: boolean;
+  /** Observed value (the raw measurement for leaf laws) */
+  value: number;
+  threshold?: number;
+  /** Signed slack: >= 0 when satisfied, < 0 when violated, Infinity when unbounded */
+  margin: number;
+  /** Human-readable explanation, naming the failing sub-laws */
+  message: string;
+  /** Sub-law outcomes for compound laws */
+  children?: LawOutcome[];
 }
 
 /**
  * Check if value satisfies the law based on sense and threshold.
  */
-export function satisfiesLaw(law: Law, value: number): boolean {
+export function satisfiesLaw<C>(law: Law<C>, value: number): boolean {
   if (law.threshold === undefined) return true;
   
   if (law.sense === "max") {
@@ -64,6 +186,26 @@ export function satisfiesLaw(law: Law, value: number): boolean {
   }
 }
 
+/**
+ * Law over a named objective of anything carrying an ObjectiveVector.
+ * The name is resolved against the registry the caller evaluates with
+ * (the proof gate passes its own), falling back to DEFAULT_OBJECTIVES.
+ */
+export function objectiveLaw(
+  name: string,
+  objective: string,
+  sense: ObjectiveSense,
+  threshold?: number
+): Law<{ objectives: ObjectiveVector }> {
+  return {
+    name,
+    evaluate: (context, registry = DEFAULT_OBJECTIVE_REGISTRY) => registry.get(context.objectives, objective),
+    sense,
+    threshold,
+    objective,
+  };
+}
+
 /**
  * Compare two objective values under a given sense.
  * Returns true if 'a' is no worse than 'b'.
@@ -79,3 +221,224 @@ export function noWorse(a: number, b: number, sense: ObjectiveSense): boolean {
 export function strictlyBetter(a: number, b: number, sense: ObjectiveSense): boolean {
   return sense === "max" ? a > b : a < b;
 }
+
+/**
+ * Normalization modes for mixed-unit objectives.
+ * - min-max: running min/max over everything observed
+ * - z-score: running mean/std over everything observed
+ * - ideal-nadir: best value ever observed vs. worst value on the latest non-dominated set
+ * - reference: fixed, user-supplied ideal and nadir points
+ */
+export type NormalizationMode = "min-max" | "z-score" | "ideal-nadir" | "reference";
+
+export interface NormalizationOptions {
+  mode: NormalizationMode;
+
+  /** Ideal (best) point by objective name; required for 'reference' mode */
+  ideal?: Record<string, number>;
+
+  /** Nadir (worst acceptable) point by objective name; required for 'reference' mode */
+  nadir?: Record<string, number>;
+}
+
+/**
+ * Running per-objective statistics, in raw units and vector order.
+ */
+export interface ObjectiveBounds {
+  count: number;
+  min: number[];
+  max: number[];
+  mean: number[];
+  std: number[];
+  /** Best value observed per objective */
+  ideal: number[];
+  /** Worst value per objective on the most recently observed non-dominated set (ideal-nadir mode only) */
+  nadir: number[];
+}
+
+/**
+ * Exact internal state of a normalizer's running bounds (Welford sums
+ * included), for checkpointing.
+ */
+export interface NormalizerSnapshot {
+  count: number;
+  min: number[];
+  max: number[];
+  mean: number[];
+  m2: number[];
+  ideal: number[];
+  nadir: number[];
+}
+
+/**
+ * Maps raw objective vectors onto a common scale.
+ *
+ * Normalized values are in minimization form: lower is always better,
+ * whatever the objective's sense. For min-max, ideal-nadir and reference
+ * modes the ideal maps to 0 and the worst bound to 1.
+ */
+export interface ObjectiveNormalizer {
+  mode: NormalizationMode;
+  specs: ObjectiveSpec[];
+
+  /**
+   * Fold a batch of vectors (e.g. one generation) into the running bounds.
+   * Callers that already sorted the batch can pass its non-dominated subset,
+   * which ideal-nadir mode would otherwise recompute.
+   */
+  observe(vectors: ObjectiveVector[], front?: ObjectiveVector[]): void;
+
+  /** Normalize a single vector with the current bounds */
+  normalize(vector: ObjectiveVector): number[];
+
+  /** Snapshot of the running bounds */
+  bounds(): ObjectiveBounds;
+
+  /** Exact state of the running bounds */
+  snapshot(): NormalizerSnapshot;
+
+  /** Replace the running bounds with a snapshot taken from a normalizer over the same specs */
+  restore(snapshot: NormalizerSnapshot): void;
+}
+
+/**
+ * Create a normalizer over an objective set.
+ * Objectives with a degenerate range normalize to 0.
+ */
+export function createObjectiveNormalizer(
+  specs: ObjectiveSpec[],
+  options: NormalizationOptions = { mode: "min-max" }
+): ObjectiveNormalizer {
+  const registry = createObjectiveRegistry(specs);
+  const m = specs.length;
+
+  let count = 0;
+  let min = new Array<number>(m).fill(Infinity);
+  let max = new Array<number>(m).fill(-Infinity);
+  let mean = new Array<number>(m).fill(0);
+  let m2 = new Array<number>(m).fill(0);
+  let ideal = specs.map(s => (s.sense === "max" ? -Infinity : Infinity));
+  let nadir = specs.map(s => (s.sense === "max" ? Infinity : -Infinity));
+
+  let fixedIdeal: number[] | undefined;
+  let fixedNadir: number[] | undefined;
+  if (options.mode === "reference") {
+    if (!options.ideal || !options.nadir) {
+      throw new Error("Reference normalization requires ideal and nadir points");
+    }
+    fixedIdeal = registry.fromRecord(options.ideal, 0).values;
+    fixedNadir = registry.fromRecord(options.nadir, 0).values;
+  }
+
+  // Orient so that lower is better
+  const orient = (value: number, i: number) => (specs[i].sense === "max" ? -value : value);
+
+  // Scale so that `best` maps to 0 and `worst` to 1
+  const between = (value: number, best: number, worst: number) => {
+    const range = worst - best;
+    if (!isFinite(range) || Math.abs(range) < 1e-12) return 0;
+    return (value - best) / range;
+  };
+
+  const observe = (vectors: ObjectiveVector[], front?: ObjectiveVector[]) => {
+    for (const v of vectors) {
+      if (v.values.length !== m) {
+        throw new Error("Objective vector length must match specs");
+      }
+      count++;
+      for (let i = 0; i < m; i++) {
+        const x = v.values[i];
+        min[i] = Math.min(min[i], x);
+        max[i] = Math.max(max[i], x);
+        const delta = x - mean[i];
+        mean[i] += delta / count;
+        m2[i] += delta * (x - mean[i]);
+        if (strictlyBetter(x, ideal[i], specs[i].sense)) ideal[i] = x;
+      }
+    }
+
+    // Nadir tracks the worst values of the current non-dominated set
+    if (options.mode !== "ideal-nadir") return;
+    front ??= vectors.filter(a => !vectors.some(b => b !== a && dominatesVector(b, a, specs)));
+    if (front.length === 0) return;
+    nadir = specs.map(s => (s.sense === "max" ? Infinity : -Infinity));
+    for (const v of front) {
+      for (let i = 0; i < m; i++) {
+        if (strictlyBetter(nadir[i], v.values[i], specs[i].sense)) nadir[i] = v.values[i];
+      }
+    }
+  };
+
+  const std = () => m2.map(x => (count > 1 ? Math.sqrt(x / (count - 1)) : 0));
+
+  const normalize = (vector: ObjectiveVector): number[] => {
+    if (vector.values.length !== m) {
+      throw new Error("Objective vector length must match specs");
+    }
+    const sd = std();
+    return vector.values.map((value, i) => {
+      const best = specs[i].sense === "max" ? max[i] : min[i];
+      const worst = specs[i].sense === "max" ? min[i] : max[i];
+      switch (options.mode) {
+        case "min-max":
+          return count === 0 ? 0 : between(value, best, worst);
+        case "z-score":
+          return sd[i] < 1e-12 ? 0 : orient(value - mean[i], i) / sd[i];
+        case "ideal-nadir":
+          return count === 0 ? 0 : between(value, ideal[i], nadir[i]);
+        case "reference":
+          return between(value, fixedIdeal![i], fixedNadir![i]);
+      }
+    });
+  };
+
+  return {
+    mode: options.mode,
+    specs,
+    observe,
+    normalize,
+    bounds: () => ({
+      count,
+      min: [...min],
+      max: [...max],
+      mean: [...mean],
+      std: std(),
+      ideal: fixedIdeal ? [...fixedIdeal] : [...ideal],
+      nadir: fixedNadir ? [...fixedNadir] : [...nadir],
+    }),
+    snapshot: () => ({
+      count,
+      min: [...min],
+      max: [...max],
+      mean: [...mean],
+      m2: [...m2],
+      ideal: [...ideal],
+      nadir: [...nadir],
+    }),
+    restore: snapshot => {
+      const columns = [snapshot.min, snapshot.max, snapshot.mean, snapshot.m2, snapshot.ideal, snapshot.nadir];
+      if (columns.some(c => c.length !== m)) {
+        throw new Error("Normalizer snapshot must match specs");
+      }
+      count = snapshot.count;
+      min = [...snapshot.min];
+      max = [...snapshot.max];
+      mean = [...snapshot.mean];
+      m2 = [...snapshot.m2];
+      ideal = [...snapshot.ideal];
+      nadir = [...snapshot.nadir];
+    },
+  };
+}
+
+/**
+ * Pareto dominance over raw vectors (no Genome wrapper).
+ */
+function dominatesVector(a: ObjectiveVector, b: ObjectiveVector, specs: ObjectiveSpec[]): boolean {
+  let better = false;
+  for (let i = 0; i < specs.length; i++) {
+    if (!noWorse(a.values[i], b.values[i], specs[i].sense)) return false;
+    if (strictlyBetter(a.values[i], b.values[i], specs[i].sense)) better = true;
+  }
+  return better;
+}
@@ -0,0 +1,74 @@
+/**
+ * SPEC TEST: random.spec.ts
+ * Paired with random.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRng, restoreRng, seedFromString } from './random';
+
+const draw = (next: () => number, n: number) => Array.from({ length: n }, () => next());
+
+describe('random - seeding', () => {
+  it('should repeat the stream for equal seeds', () => {
+    expect(draw(createRng(42).next, 20)).toEqual(draw(createRng(42).next, 20));
+  });
+
+  it('should diverge for neighbouring seeds', () => {
+    expect(draw(createRng(1).next, 5)).not.toEqual(draw(createRng(2).next, 5));
+  });
+
+  it('should accept seed 0', () => {
+    const values = draw(createRng(0).next, 5);
+    expect(new Set(values).size).toBe(5);
+  });
+
+  it('should derive stable seeds from strings', async () => {
+    const a = await seedFromString('run-a');
+    expect(await seedFromString('run-a')).toBe(a);
+    expect(await seedFromString('run-b')).not.toBe(a);
+    expect(Number.isInteger(a)).toBe(true);
+  });
+});
+
+describe('random - distribution', () => {
+  it('should stay within [0, 1)', () => {
+    for (const v of draw(createRng(7).next, 1000)) {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+
+  it('should be roughly uniform', () => {
+    const values = draw(createRng(7).next, 10000);
+    const mean = values.reduce((s, v) => s + v, 0) / values.length;
+    expect(mean).toBeCloseTo(0.5, 1);
+  });
+
+  it('should draw integers below the bound', () => {
+    const rng = createRng(3);
+    const seen = new Set(Array.from({ length: 200 }, () => rng.int(4)));
+    expect([...seen].sort()).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe('random - state', () => {
+  it('should resume from a saved state', () => {
+    const rng = createRng(99);
+    draw(rng.next, 10);
+    const saved = rng.state();
+    const expected = draw(rng.next, 10);
+
+    expect(draw(restoreRng(saved).next, 10)).toEqual(expected);
+  });
+
+  it('should reject the all-zero state', () => {
+    expect(() => restoreRng([0, 0, 0, 0])).toThrow('all zeros');
+  });
+
+  it('should fork independent streams deterministically', () => {
+    const a = createRng(5).fork();
+    const b = createRng(5).fork();
+    expect(draw(a.next, 5)).toEqual(draw(b.next, 5));
+    expect(draw(a.next, 5)).not.toEqual(draw(createRng(5).next, 5));
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Seeded Randomness
+ *
+ * Every stochastic step (mutation noise, tournaments, stability probes,
+ * Monte Carlo indicators) draws from an injectable source so that a run is
+ * reproducible from its seed. Functions accept a plain `() => number`
+ * uniform source defaulting to Math.random; an Rng's `next` fits there.
+ *
+ * The generator is Marsaglia's xorshift128, seeded through splitmix32 so
+ * that nearby seeds give unrelated streams.
+ */
+
+import xxhash from "xxhash-wasm";
+
+/**
+ * Full internal state of an Rng (four 32-bit words).
+ */
+export type RngState = [number, number, number, number];
+
+export interface Rng {
+  /** Uniform float in [0, 1) */
+  next: () => number;
+
+  /** Uniform integer in [0, max) */
+  int: (max: number) => number;
+
+  /** Snapshot of the internal state; restoreRng(state) resumes the stream */
+  state: () => RngState;
+
+  /** Independent generator seeded from this one's stream */
+  fork: () => Rng;
+}
+
+/**
+ * splitmix32 step: scrambles a seed into well-mixed 32-bit words.
+ */
+function splitmix32(seed: number): () => number {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + 0x9e3779b9) >>> 0;
+    let z = s;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+}
+
+/**
+ * Resume a generator from a saved state.
+ */
+export function restoreRng(state: RngState): Rng {
+  let [x, y, z, w] = state.map(v => v >>> 0);
+  if ((x | y | z | w) === 0) {
+    throw new Error("Rng state must not be all zeros");
+  }
+
+  const nextUint32 = () => {
+    const t = x ^ (x << 11);
+    x = y;
+    y = z;
+    z = w;
+    w = (w ^ (w >>> 19) ^ (t ^ (t >>> 8))) >>> 0;
+    return w;
+  };
+
+  const next = () => nextUint32() / 0x100000000;
+
+  return {
+    next,
+    int: max => Math.floor(next() * max),
+    state: () => [x, y, z, w],
+    fork: () => createRng(nextUint32()),
+  };
+}
+
+/**
+ * Create a generator from a 32-bit seed. Equal seeds give identical streams.
+ */
+export function createRng(seed: number): Rng {
+  const mix = splitmix32(seed);
+  const state: RngState = [mix(), mix(), mix(), mix()];
+  // xorshift128 is stuck at all zeros; splitmix32 practically never yields it
+  if ((state[0] | state[1] | state[2] | state[3]) === 0) state[3] = 1;
+  return restoreRng(state);
+}
+
+/**
+ * Derive a 32-bit seed from a string (e.g. a run name) with xxhash.
+ */
+export async function seedFromString(text: string): Promise<number> {
+  const xx = await xxhash();
+  return xx.h32(text, 0);
+}
+
+/**
+ * Fresh non-deterministic seed, for runs that were not given one.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
@@ -0,0 +1,129 @@
+/**
+ * SPEC TEST: scalarization.spec.ts
+ * Paired with scalarization.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  objectiveWeights,
+  weightedSum,
+  weightedTchebycheff,
+  augmentedTchebycheff,
+  achievementScalarizing,
+  lexicographicCompare,
+  scalarize,
+  rankByScalarization,
+} from './scalarization';
+import { createObjectiveNormalizer, type ObjectiveSpec } from './objectives';
+
+const specs: ObjectiveSpec[] = [
+  { name: 'gain', sense: 'max', weight: 2 },
+  { name: 'cost', sense: 'min' },
+];
+
+const vec = (gain: number, cost: number) => ({ values: [gain, cost], timestamp: 0 });
+
+describe('scalarization - weights', () => {
+  it('should read ObjectiveSpec.weight and default to 1', () => {
+    expect(objectiveWeights(specs)).toEqual([2, 1]);
+  });
+
+  it('should let overrides win by name', () => {
+    expect(objectiveWeights(specs, { cost: 5 })).toEqual([2, 5]);
+  });
+});
+
+describe('scalarization - weighted sum', () => {
+  it('should orient max objectives so lower is better', () => {
+    // -2 * 0.5 + 1 * 3
+    expect(weightedSum(vec(0.5, 3), specs)).toBe(2);
+  });
+
+  it('should prefer dominating vectors', () => {
+    expect(weightedSum(vec(0.9, 1), specs)).toBeLessThan(weightedSum(vec(0.5, 3), specs));
+  });
+
+  it('should score normalized values when given a normalizer', () => {
+    const normalizer = createObjectiveNormalizer(specs);
+    normalizer.observe([vec(0, 10), vec(1, 0)]);
+
+    expect(weightedSum(vec(1, 0), specs, { normalizer })).toBeCloseTo(0);
+    expect(weightedSum(vec(0, 10), specs, { normalizer })).toBeCloseTo(3);
+  });
+});
+
+describe('scalarization - Tchebycheff', () => {
+  const ideal = { gain: 1, cost: 0 };
+
+  it('should take the worst weighted distance to the ideal', () => {
+    // max(2 * |−0.5 − (−1)|, 1 * |4 − 0|) = 4
+    expect(weightedTchebycheff(vec(0.5, 4), specs, { ideal })).toBe(4);
+  });
+
+  it('should add the augmentation term', () => {
+    const plain = weightedTchebycheff(vec(0.5, 4), specs, { ideal });
+    const augmented = augmentedTchebycheff(vec(0.5, 4), specs, { ideal, rho: 0.1 });
+    expect(augmented).toBeCloseTo(plain + 0.1 * 5);
+  });
+
+  it('should default the ideal point to the normalizer bounds', () => {
+    const normalizer = createObjectiveNormalizer(specs);
+    normalizer.observe([vec(0, 10), vec(1, 0)]);
+
+    expect(weightedTchebycheff(vec(1, 0), specs, { normalizer })).toBeCloseTo(0);
+  });
+
+  it('should require an ideal point', () => {
+    expect(() => weightedTchebycheff(vec(0.5, 4), specs)).toThrow('ideal point');
+  });
+});
+
+describe('scalarization - achievement', () => {
+  it('should be negative when every aspiration is met', () => {
+    const score = achievementScalarizing(vec(0.8, 1), specs, { reference: { gain: 0.5, cost: 2 } });
+    expect(score).toBeLessThan(0);
+  });
+
+  it('should be positive when an aspiration is missed', () => {
+    const score = achievementScalarizing(vec(0.8, 3), specs, { reference: { gain: 0.5, cost: 2 } });
+    expect(score).toBeGreaterThan(0);
+  });
+
+  it('should require a reference point', () => {
+    expect(() => achievementScalarizing(vec(0.8, 1), specs)).toThrow('reference point');
+  });
+});
+
+describe('scalarization - lexicographic', () => {
+  it('should compare by descending weight by default', () => {
+    // gain has the higher weight, so it decides
+    expect(lexicographicCompare(vec(0.9, 10), vec(0.5, 1), specs)).toBeLessThan(0);
+  });
+
+  it('should follow an explicit order', () => {
+    expect(lexicographicCompare(vec(0.9, 10), vec(0.5, 1), specs, { order: ['cost', 'gain'] }))
+      .toBeGreaterThan(0);
+  });
+
+  it('should fall through ties within tolerance', () => {
+    expect(lexicographicCompare(vec(0.9, 10), vec(0.89, 1), specs, { tolerance: 0.05 }))
+      .toBeGreaterThan(0);
+  });
+
+  it('should have no scalar score', () => {
+    expect(() => scalarize(vec(0.5, 1), specs, { method: 'lexicographic' })).toThrow();
+  });
+});
+
+describe('scalarization - ranking', () => {
+  const vectors = [vec(0.2, 1), vec(0.9, 1), vec(0.5, 0.5)];
+
+  it('should rank best-first by scalar score', () => {
+    expect(rankByScalarization(vectors, specs, { method: 'weighted-sum' })).toEqual([1, 2, 0]);
+  });
+
+  it('should rank lexicographically', () => {
+    expect(rankByScalarization(vectors, specs, { method: 'lexicographic', order: ['cost'] })[0])
+      .toBe(2);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Scalarization: collapsing objective vectors to a single score
+ *
+ * The Pareto front is a set of equally "lawful" trade-offs. Deployment needs
+ * one agent, so these functions turn preferences (ObjectiveSpec.weight,
+ * ideal/reference points, priority orders) into a total order.
+ *
+ * Every score is in minimization form: lower is better.
+ */
+
+import {
+  ObjectiveSpec,
+  ObjectiveVector,
+  ObjectiveNormalizer,
+  createObjectiveRegistry,
+} from "./objectives";
+
+export type ScalarizationMethod =
+  | "weighted-sum"
+  | "tchebycheff"
+  | "augmented-tchebycheff"
+  | "achievement"
+  | "lexicographic";
+
+/**
+ * Preferences shared by all scalarizations.
+ */
+export interface ScalarizationOptions {
+  /** Applied before scalarizing; without one, raw values are used (sign-flipped for max objectives) */
+  normalizer?: ObjectiveNormalizer;
+
+  /** Per-objective weights by name, overriding ObjectiveSpec.weight (default 1) */
+  weights?: Record<string, number>;
+
+  /** Ideal point by name, in raw units (Tchebycheff); defaults to the normalizer's tracked ideal */
+  ideal?: Record<string, number>;
+
+  /** Aspiration point by name, in raw units (achievement scalarizing) */
+  reference?: Record<string, number>;
+
+  /** Augmentation coefficient for augmented Tchebycheff / achievement (default 1e-4) */
+  rho?: number;
+
+  /** Priority order by name for lexicographic ordering; defaults to descending weight */
+  order?: string[];
+
+  /** Differences within this tolerance count as ties in lexicographic ordering (default 0) */
+  tolerance?: number;
+}
+
+export interface ScalarizationConfig extends ScalarizationOptions {
+  method: ScalarizationMethod;
+}
+
+/**
+ * Resolve effective weights in vector order.
+ */
+export function objectiveWeights(
+  specs: ObjectiveSpec[],
+  overrides: Record<string, number> = {}
+): number[] {
+  return specs.map(s => overrides[s.name] ?? s.weight ?? 1);
+}
+
+/**
+ * Objective values in minimization form (normalized if a normalizer is given).
+ */
+function oriented(vector: ObjectiveVector, specs: ObjectiveSpec[], normalizer?: ObjectiveNormalizer): number[] {
+  if (vector.values.length !== specs.length) {
+    throw new Error("Objective vector length must match specs");
+  }
+  if (normalizer) return normalizer.normalize(vector);
+  return vector.values.map((v, i) => (specs[i].sense === "max" ? -v : v));
+}
+
+/**
+ * Resolve a raw, name-keyed point into the same oriented space as the vectors.
+ */
+function orientedPoint(
+  point: Record<string, number> | number[],
+  specs: ObjectiveSpec[],
+  normalizer?: ObjectiveNormalizer
+): number[] {
+  const values = Array.isArray(point)
+    ? point
+    : createObjectiveRegistry(specs).fromRecord(point, 0).values;
+  return oriented({ values, timestamp: 0 }, specs, normalizer);
+}
+
+/**
+ * Weighted sum: Σ wᵢ·fᵢ.
+ * Cheap, but cannot reach points on non-convex parts of the front.
+ */
+export function weightedSum(
+  vector: ObjectiveVector,
+  specs: ObjectiveSpec[],
+  options: ScalarizationOptions = {}
+): number {
+  const f = oriented(vector, specs, options.normalizer);
+  const w = objectiveWeights(specs, options.weights);
+  return f.reduce((sum, v, i) => sum + w[i] * v, 0);
+}
+
+/**
+ * Weighted Tchebycheff: maxᵢ wᵢ·|fᵢ − zᵢ*| for ideal point z*.
+ * Every Pareto-optimal point is the minimizer for some weight vector.
+ */
+export function weightedTchebycheff(
+  vector: ObjectiveVector,
+  specs: ObjectiveSpec[],
+  options: ScalarizationOptions = {}
+): number {
+  return tchebycheffTerms(vector, specs, options).max;
+}
+
+/**
+ * Augmented Tchebycheff: weighted Tchebycheff + ρ·Σ wᵢ·|fᵢ − zᵢ*|.
+ * The augmentation term breaks ties in favour of properly Pareto-optimal points.
+ */
+export function augmentedTchebycheff(
+  vector: ObjectiveVector,
+  specs: ObjectiveSpec[],
+  options: ScalarizationOptions = {}
+): number {
+  const { max, sum } = tchebycheffTerms(vector, specs, options);
+  return max + (options.rho ?? 1e-4) * sum;
+}
+
+function tchebycheffTerms(
+  vector: ObjectiveVector,
+  specs: ObjectiveSpec[],
+  options: ScalarizationOptions
+): { max: number; sum: number } {
+  const ideal = options.ideal ?? options.normalizer?.bounds().ideal;
+  if (!ideal) {
+    throw new Error("Tchebycheff scalarization needs an ideal point or a normalizer");
+  }
+
+  const f = oriented(vector, specs, options.normalizer);
+  const z = orientedPoint(ideal, specs, options.normalizer);
+  const w = objectiveWeights(specs, options.weights);
+
+  let max = -Infinity;
+  let sum = 0;
+  for (let i = 0; i < f.length; i++) {
+    const term = w[i] * Math.abs(f[i] - z[i]);
+    max = Math.max(max, term);
+    sum += term;
+  }
+  return { max, sum };
+}
+
+/**
+ * Achievement scalarizing function (Wierzbicki):
+ * maxᵢ wᵢ·(fᵢ − rᵢ) + ρ·Σ wᵢ·(fᵢ − rᵢ) for aspiration point r.
+ * Negative scores mean every aspiration is met.
+ */
+export function achievementScalarizing(
+  vector: ObjectiveVector,
+  specs: ObjectiveSpec[],
+  options: ScalarizationOptions = {}
+): number {
+  if (!options.reference) {
+    throw new Error("Achievement scalarizing needs a reference point");
+  }
+
+  const f = oriented(vector, specs, options.normalizer);
+  const r = orientedPoint(options.reference, specs, options.normalizer);
+  const w = objectiveWeights(specs, options.weights);
+
+  let max = -Infinity;
+  let sum = 0;
+  for (let i = 0; i < f.length; i++) {
+    const term = w[i] * (f[i] - r[i]);
+    max = Math.max(max, term);
+    sum += term;
+  }
+  return max + (options.rho ?? 1e-4) * sum;
+}
+
+/**
+ * Lexicographic comparison: objectives are compared one at a time in priority order.
+ * Returns a negative number if 'a' is preferred, positive if 'b' is, 0 on a tie.
+ */
+export function lexicographicCompare(
+  a: ObjectiveVector,
+  b: ObjectiveVector,
+  specs: ObjectiveSpec[],
+  options: ScalarizationOptions = {}
+): number {
+  const fa = oriented(a, specs, options.normalizer);
+  const fb = oriented(b, specs, options.normalizer);
+  const tolerance = options.tolerance ?? 0;
+
+  for (const i of priorityOrder(specs, options)) {
+    const diff = fa[i] - fb[i];
+    if (Math.abs(diff) > tolerance) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Objective indices in lexicographic priority order.
+ */
+function priorityOrder(specs: ObjectiveSpec[], options: ScalarizationOptions): number[] {
+  if (options.order) {
+    const registry = createObjectiveRegistry(specs);
+    return options.order.map(name => registry.indexOf(name));
+  }
+  const w = objectiveWeights(specs, options.weights);
+  // Stable sort: equal weights keep declaration order
+  return specs.map((_, i) => i).sort((x, y) => w[y] - w[x]);
+}
+
+/**
+ * Score a vector with one of the scalar methods.
+ */
+export function scalarize(
+  vector: ObjectiveVector,
+  specs: ObjectiveSpec[],
+  config: ScalarizationConfig
+): number {
+  switch (config.method) {
+    case "weighted-sum":
+      return weightedSum(vector, specs, config);
+    case "tchebycheff":
+      return weightedTchebycheff(vector, specs, config);
+    case "augmented-tchebycheff":
+      return augmentedTchebycheff(vector, specs, config);
+    case "achievement":
+      return achievementScalarizing(vector, specs, config);
+    case "lexicographic":
+      throw new Error("Lexicographic ordering has no scalar score; use lexicographicCompare");
+  }
+}
+
+/**
+ * Indices of the vectors ordered best-first under a scalarization.
+ * Ties keep input order.
+ */
+export function rankByScalarization(
+  vectors: ObjectiveVector[],
+  specs: ObjectiveSpec[],
+  config: ScalarizationConfig
+): number[] {
+  const indices = vectors.map((_, i) => i);
+
+  if (config.method === "lexicographic") {
+    return indices.sort((x, y) => lexicographicCompare(vectors[x], vectors[y], specs, config));
+  }
+
+  const scores = vectors.map(v => scalarize(v, specs, config));
+  return indices.sort((x, y) => scores[x] - scores[y]);
+}
@@ -0,0 +1,56 @@
+/**
+ * SPEC TEST: statistics.spec.ts
+ * Paired with statistics.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { mean, regularizedBeta, sampleVariance, studentTCdf, welchTTest } from "./statistics";
+
+describe("statistics - samples", () => {
+  it("should compute mean and unbiased variance", () => {
+    expect(mean([1, 2, 3, 4])).toBe(2.5);
+    expect(sampleVariance([1, 2, 3, 4])).toBeCloseTo(5 / 3);
+  });
+});
+
+describe("statistics - distributions", () => {
+  it("should match known incomplete beta values", () => {
+    expect(regularizedBeta(0.5, 2, 2)).toBeCloseTo(0.5);
+    expect(regularizedBeta(0.3, 1, 1)).toBeCloseTo(0.3);
+    expect(regularizedBeta(0.2, 2, 3)).toBeCloseTo(0.1808, 4);
+  });
+
+  it("should match Student t tables", () => {
+    expect(studentTCdf(0, 5)).toBeCloseTo(0.5);
+    expect(studentTCdf(2.015, 5)).toBeCloseTo(0.95, 3);
+    expect(studentTCdf(-2.228, 10)).toBeCloseTo(0.025, 3);
+    expect(studentTCdf(1.96, 1e6)).toBeCloseTo(0.975, 3);
+  });
+});
+
+describe("statistics - Welch t-test", () => {
+  it("should find a clear difference significant, one-sided", () => {
+    const high = [10.1, 9.8, 10.3, 10.0, 9.9];
+    const low = [9.0, 9.2, 8.8, 9.1, 8.9];
+
+    expect(welchTTest(high, low).pValue).toBeLessThan(0.001);
+    expect(welchTTest(low, high).pValue).toBeGreaterThan(0.999);
+  });
+
+  it("should not find noise significant", () => {
+    const { pValue } = welchTTest([1, 3, 2, 4], [2, 3, 1, 3]);
+    expect(pValue).toBeGreaterThan(0.3);
+    expect(pValue).toBeLessThan(0.7);
+  });
+
+  it("should compute the Welch-Satterthwaite degrees of freedom", () => {
+    // Var = 2.5 and 10, n = 5 each: df = (0.5 + 2)^2 / (0.25/4 + 4/4)
+    expect(welchTTest([1, 2, 3, 4, 5], [0, 2, 4, 6, 8]).df).toBeCloseTo(6.25 / 1.0625);
+  });
+
+  it("should handle samples without variance", () => {
+    expect(welchTTest([2, 2], [1, 1]).pValue).toBe(0);
+    expect(welchTTest([1, 1], [1, 1]).pValue).toBeCloseTo(0.5);
+    expect(() => welchTTest([1], [1, 2])).toThrow("at least 2 samples");
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Sample Statistics
+ *
+ * Just enough statistics to tell a real difference from evaluation noise:
+ * sample mean and variance, and Welch's t-test (unequal variances) with
+ * Student's t distribution computed through the regularized incomplete beta
+ * function.
+ */
+
+/**
+ * Outcome of a one-sided Welch t-test.
+ */
+export interface WelchTest {
+  /** Welch's t statistic */
+  t: number;
+
+  /** Welch–Satterthwaite degrees of freedom */
+  df: number;
+
+  /** One-sided p-value for mean(a) > mean(b) */
+  pValue: number;
+}
+
+export function mean(samples: number[]): number {
+  return samples.reduce((sum, x) => sum + x, 0) / samples.length;
+}
+
+/**
+ * Unbiased sample variance (n - 1 denominator).
+ */
+export function sampleVariance(samples: number[]): number {
+  const m = mean(samples);
+  return samples.reduce((sum, x) => sum + (x - m) ** 2, 0) / (samples.length - 1);
+}
+
+/**
+ * ln Γ(x) for x > 0 (Lanczos approximation, g = 7).
+ */
+function logGamma(x: number): number {
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+
+  const z = x - 1;
+  let sum = c[0];
+  for (let i = 1; i < c.length; i++) sum += c[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Continued fraction of the incomplete beta function (modified Lentz).
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 300; m++) {
+    const even = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 + even * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + even / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 + odd * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + odd / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return result;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b).
+ */
+export function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  // The continued fraction converges fastest on this side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * P(T <= t) for Student's t distribution with `df` degrees of freedom.
+ */
+export function studentTCdf(t: number, df: number): number {
+  if (!isFinite(t)) return t > 0 ? 1 : 0;
+  const tail = 0.5 * regularizedBeta(df / (df + t * t), df / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+}
+
+/**
+ * One-sided Welch t-test that `a` has a larger mean than `b`.
+ * Needs at least 2 samples per group. Groups without variance give t = ±∞
+ * when their means differ and t = 0 when they are equal.
+ */
+export function welchTTest(a: number[], b: number[]): WelchTest {
+  if (a.length < 2 || b.length < 2) {
+    throw new Error("Welch t-test needs at least 2 samples per group");
+  }
+
+  const va = sampleVariance(a) / a.length;
+  const vb = sampleVariance(b) / b.length;
+  const difference = mean(a) - mean(b);
+  const se = Math.sqrt(va + vb);
+
+  if (se === 0) {
+    const t = difference === 0 ? 0 : difference > 0 ? Infinity : -Infinity;
+    return { t, df: a.length + b.length - 2, pValue: 1 - studentTCdf(t, 1) };
+  }
+
+  const t = difference / se;
+  const df = (va + vb) ** 2 / (va ** 2 / (a.length - 1) + vb ** 2 / (b.length - 1));
+  return { t, df, pValue: 1 - studentTCdf(t, df) };
+}
@@ -0,0 +1,175 @@
+/**
+ * SPEC TEST: certificate-checker.spec.ts
+ * Paired with certificate-checker.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkProofCertificate } from './certificate-checker';
+import {
+  createProofCertificate,
+  parseProofCertificate,
+  serializeProofCertificate,
+  type ProofCertificate,
+} from './certificate';
+import {
+  applyProofGate,
+  DEFAULT_PROOF_CHECKS,
+  DEFAULT_PROOF_GATE,
+  toolPreconditionsCheck,
+  type ProofCheck,
+  type ProofGateConfig,
+} from './proof-gate';
+import { createProofSigner } from './proof-signing';
+import { cloneAgent, createAgent, type MetaAgent } from '../agents-runtime/agent';
+import { rangeLaw } from '../laws-physics/laws';
+
+function certified(config: ProofGateConfig = DEFAULT_PROOF_GATE): MetaAgent {
+  const agent = createAgent('a1', 'tutor');
+  agent.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 5.0];
+  agent.perception.state = [{ re: 1, im: 0 }];
+  applyProofGate([agent], { ...config, clock: () => 1000 });
+  return agent;
+}
+
+describe('certificate checker - confirmation', () => {
+  it('should confirm an untouched certificate after a JSON round trip', () => {
+    const json = serializeProofCertificate(createProofCertificate(certified()));
+    const report = checkProofCertificate(parseProofCertificate(json));
+
+    expect(report.discrepancies).toEqual([]);
+    expect(report.valid).toBe(true);
+    expect(report.checks.map(c => c.name)).toEqual(
+      ['min-gain', 'max-latency', 'privacy-loss', 'cost', 'stability', 'tool-budget']
+    );
+  });
+
+  it('should need the auditor to supply laws that are not objective laws', () => {
+    const band = rangeLaw<MetaAgent>('gain-band', agent => agent.objectives.values[0], 0, 1);
+    const config = { ...DEFAULT_PROOF_GATE, laws: [band] };
+    const certificate = createProofCertificate(certified(config), config);
+
+    expect(checkProofCertificate(certificate).discrepancies).toEqual([
+      expect.objectContaining({ kind: 'law', subject: 'gain-band' }),
+    ]);
+    expect(checkProofCertificate(certificate, { laws: [band] }).valid).toBe(true);
+  });
+
+  it('should re-run a custom check pipeline when the auditor supplies its checks', () => {
+    const named: ProofCheck = {
+      name: 'named',
+      severity: 'block',
+      run: agent => ({ name: 'named', passed: agent.id.length > 0 }),
+    };
+    const config: ProofGateConfig = {
+      ...DEFAULT_PROOF_GATE,
+      checks: [...DEFAULT_PROOF_CHECKS, toolPreconditionsCheck, named],
+      severity: { 'tool-preconditions': 'info' },
+      enabled: { 'tool-budget': false },
+    };
+    const certificate = createProofCertificate(certified(config), config);
+
+    expect(checkProofCertificate(certificate).discrepancies).toEqual([
+      expect.objectContaining({ kind: 'check', subject: 'named' }),
+    ]);
+    expect(checkProofCertificate(certificate, { checks: [named] }).valid).toBe(true);
+  });
+
+  it('should replay the parent gate from the recorded parents', () => {
+    const config: ProofGateConfig = { ...DEFAULT_PROOF_GATE, parents: { maxRegression: { gain: 0.1 } } };
+    const parent = certified(config);
+    const child = cloneAgent(parent, 'c1');
+    child.objectives.values[0] = 0.45;
+    applyProofGate([parent, child], { ...config, clock: () => 2000 });
+
+    const certificate = parseProofCertificate(serializeProofCertificate(createProofCertificate(child, config)));
+    expect(certificate.inputs.parents?.map(p => p.id)).toEqual(['a1']);
+    expect(checkProofCertificate(certificate).valid).toBe(true);
+
+    certificate.inputs.parents![0].values[0] = 0.9;
+    expect(checkProofCertificate(certificate).discrepancies.map(d => d.subject))
+      .toEqual(['parents', 'parent-regression:gain', 'passed']);
+  });
+
+  it('should only accept trusted signers', () => {
+    const certificate = createProofCertificate(certified({ ...DEFAULT_PROOF_GATE, signer: createProofSigner() }));
+    const report = checkProofCertificate(certificate, { trustedKeys: [createProofSigner().publicKey] });
+
+    expect(report.discrepancies.map(d => d.kind)).toEqual(['signature']);
+  });
+});
+
+describe('certificate checker - discrepancies', () => {
+  it('should report edited outputs', () => {
+    const certificate = createProofCertificate(certified());
+    certificate.outputs.checks[0].value = 0.9;
+    certificate.outputs.passed = false;
+
+    const subjects = checkProofCertificate(certificate).discrepancies.map(d => d.subject);
+    expect(subjects).toEqual(['checks', 'min-gain', 'passed']);
+  });
+
+  it('should report inputs that do not match the snapshot', () => {
+    const certificate = createProofCertificate(certified());
+    certificate.inputs.objectives.cost = 1;
+
+    expect(checkProofCertificate(certificate).discrepancies).toEqual([
+      expect.objectContaining({ kind: 'input', subject: 'objectives' }),
+    ]);
+  });
+
+  it('should report a snapshot changed after certification', () => {
+    const certificate = createProofCertificate(certified());
+    certificate.agent.objectives.values[1] = 5000;
+
+    const discrepancies = checkProofCertificate(certificate).discrepancies;
+    // The probes are derived from the genome, so they change with it
+    expect(discrepancies.map(d => d.kind)).toEqual(['signature', 'input', 'input', 'output', 'output']);
+    expect(discrepancies.map(d => d.subject))
+      .toEqual(['agent.proof', 'objectives', 'stabilityProbes', 'max-latency', 'passed']);
+  });
+
+  it('should report gate settings that do not match the proof', () => {
+    const certificate = createProofCertificate(certified());
+    certificate.gate.maxCost = 1000;
+
+    expect(checkProofCertificate(certificate).discrepancies[0]).toMatchObject({ kind: 'gate', subject: 'gate.version' });
+  });
+
+  it('should recompute stability probes instead of trusting recorded ones', () => {
+    const truncated = createProofCertificate(certified());
+    truncated.inputs.stabilityProbes = truncated.inputs.stabilityProbes!.slice(0, 4);
+    const neutral = createProofCertificate(certified());
+    neutral.inputs.stabilityProbes = neutral.inputs.stabilityProbes!.map(() => 0.5);
+    const missing = createProofCertificate(certified());
+    delete missing.inputs.stabilityProbes;
+
+    for (const certificate of [truncated, neutral, missing]) {
+      expect(checkProofCertificate(certificate).discrepancies.map(d => d.subject)).toEqual(['stabilityProbes']);
+    }
+  });
+
+  it('should reject other formats', () => {
+    const certificate = { ...createProofCertificate(certified()), version: 9 };
+    expect(checkProofCertificate(certificate).discrepancies).toEqual([
+      expect.objectContaining({ kind: 'format' }),
+    ]);
+  });
+
+  it('should report malformed certificates instead of throwing', () => {
+    const malformed = createProofCertificate(certified()) as unknown as { gate: Record<string, unknown> };
+    malformed.gate.laws = { 'min-gain': 0.1 };
+    const unparsable = createProofCertificate(certified());
+    unparsable.agent.proof!.proof = '[{"name":';
+    const duplicated = createProofCertificate(certified());
+    duplicated.gate.objectives = [{ name: 'gain', sense: 'max' }, { name: 'gain', sense: 'min' }];
+
+    const certificates = [malformed as unknown as ProofCertificate, unparsable, duplicated];
+    const reports = certificates.map(certificate => checkProofCertificate(certificate));
+    expect(reports.map(r => r.discrepancies.map(d => [d.kind, d.subject]))).toEqual([
+      [['format', 'gate.laws']],
+      [['format', 'agent.proof.proof']],
+      [['format', 'gate.objectives']],
+    ]);
+    expect(reports.every(r => !r.valid)).toBe(true);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Certificate Checker
+ *
+ * Re-verifies a proof certificate (certificate.ts) from its own contents, so
+ * an auditor can confirm a certified agent without trusting the producer.
+ * A certificate breaking PROOF_CERTIFICATE_SCHEMA is reported as 'format'
+ * discrepancies and not checked further; otherwise
+ * 1. the agent snapshot's proof bundle is signed and matches the snapshot
+ * 2. the recorded gate settings hash to the gate version the proof names
+ * 3. the recorded inputs are what the snapshot actually holds
+ * 4. every check, re-run on the snapshot with the recorded gate (stability
+ *    deriving its probes from the snapshot's genome hash, the parent gate
+ *    using the recorded parents), gives the recorded output and probes
+ *
+ * Objective laws are rebuilt from their definitions; any other law must be
+ * supplied by the auditor under the same name, sense and threshold. Likewise
+ * check plugins other than those of proof-gate.ts and symbolic-verification.ts
+ * must be supplied by name.
+ * Every disagreement is reported, not just the first.
+ */
+
+import type { MetaAgent } from '../agents-runtime/agent';
+import { DEFAULT_OBJECTIVES, createObjectiveRegistry, objectiveLaw, type Law } from '../laws-physics/objectives';
+import { canonicalJson } from './evaluators';
+import {
+  PROOF_CERTIFICATE_FORMAT,
+  PROOF_CERTIFICATE_VERSION,
+  certificateInputs,
+  proofCertificateErrors,
+  type ProofCertificate,
+} from './certificate';
+import {
+  DEFAULT_PROOF_CHECKS,
+  isBlockingFailure,
+  planToolsCheck,
+  toolPreconditionsCheck,
+  verifyAgent,
+  type CheckResult,
+  type ProofCheck,
+} from './proof-gate';
+import { gateConfigVersion, verifyProofBundle } from './proof-signing';
+import { reasoningStructureCheck } from './symbolic-verification';
+
+/**
+ * One way a certificate disagrees with its re-verification.
+ */
+export interface CertificateDiscrepancy {
+  /** Which part of the certificate is wrong */
+  kind: 'format' | 'signature' | 'gate' | 'law' | 'check' | 'input' | 'output';
+
+  /** Field or check concerned */
+  subject: string;
+
+  message: string;
+  recorded?: unknown;
+  recomputed?: unknown;
+}
+
+export interface CertificateCheckReport {
+  /** True when there are no discrepancies */
+  valid: boolean;
+
+  /** Checks as re-run by the checker */
+  checks: CheckResult[];
+
+  discrepancies: CertificateDiscrepancy[];
+}
+
+export interface CertificateCheckOptions {
+  /** Laws the auditor vouches for, matched by name (needed for laws without an objective) */
+  laws?: Law<MetaAgent>[];
+
+  /** Check plugins the auditor vouches for, matched by name (needed for checks from other modules) */
+  checks?: ProofCheck[];
+
+  /** Public keys (SPKI PEM) accepted as proof signers; by default only defaultProofSigner's */
+  trustedKeys?: string[];
+}
+
+/**
+ * Equal as serialized, so non-finite numbers match the nulls JSON turns them into.
+ */
+function sameJson(a: unknown, b: unknown): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
+
+/**
+ * The compared part of a check result.
+ */
+function outcome({ passed, value, threshold, severity }: CheckResult) {
+  return { passed, value, threshold, severity };
+}
+
+/**
+ * Re-verify a certificate; see the module comment for what is checked.
+ */
+export function checkProofCertificate(
+  certificate: ProofCertificate,
+  options: CertificateCheckOptions = {}
+): CertificateCheckReport {
+  const discrepancies: CertificateDiscrepancy[] = [];
+  const report = (discrepancy: CertificateDiscrepancy) => discrepancies.push(discrepancy);
+
+  if (certificate.format !== PROOF_CERTIFICATE_FORMAT || certificate.version !== PROOF_CERTIFICATE_VERSION) {
+    report({
+      kind: 'format',
+      subject: 'format',
+      message: `Unsupported certificate ${certificate.format} v${certificate.version}`,
+    });
+    return { valid: false, checks: [], discrepancies };
+  }
+  for (const { path, message } of proofCertificateErrors(certificate)) {
+    report({ kind: 'format', subject: path, message });
+  }
+  if (discrepancies.length > 0) return { valid: false, checks: [], discrepancies };
+  let signed: unknown;
+  try {
+    signed = JSON.parse(certificate.agent.proof?.proof ?? '[]');
+  } catch {
+    report({ kind: 'format', subject: 'agent.proof.proof', message: 'Proof checks are not valid JSON' });
+  }
+  try {
+    createObjectiveRegistry(certificate.gate.objectives ?? DEFAULT_OBJECTIVES);
+  } catch (error) {
+    report({ kind: 'format', subject: 'gate.objectives', message: (error as Error).message });
+  }
+  if (discrepancies.length > 0) return { valid: false, checks: [], discrepancies };
+
+  const { gate, inputs, outputs, agent } = certificate;
+
+  // 1. Signed proof bundle of the snapshot
+  const signature = verifyProofBundle(agent, { trustedKeys: options.trustedKeys });
+  if (!signature.valid) {
+    report({ kind: 'signature', subject: 'agent.proof', message: signature.reason ?? 'Invalid proof bundle' });
+  }
+  if (agent.proof) {
+    if (!sameJson(signed, outputs.checks)) {
+      report({ kind: 'output', subject: 'checks', message: 'Checks differ from the signed proof bundle' });
+    }
+    if (agent.proof.timestamp !== outputs.timestamp) {
+      report({
+        kind: 'output',
+        subject: 'timestamp',
+        message: 'Timestamp differs from the signed proof bundle',
+        recorded: outputs.timestamp,
+        recomputed: agent.proof.timestamp,
+      });
+    }
+  }
+
+  // 2. Gate settings
+  const version = gateConfigVersion(gate);
+  if (version !== gate.version || version !== agent.proof?.gateVersion) {
+    report({
+      kind: 'gate',
+      subject: 'gate.version',
+      message: `Gate settings hash to ${version}`,
+      recorded: gate.version,
+      recomputed: version,
+    });
+  }
+
+  // 3. Inputs
+  const observed = certificateInputs(agent, gate.objectives ?? DEFAULT_OBJECTIVES, outputs.checks);
+  for (const field of ['objectives', 'state', 'toolCosts', 'samples', 'parents'] as const) {
+    if (!sameJson(inputs[field], observed[field])) {
+      report({
+        kind: 'input',
+        subject: field,
+        message: `Recorded ${field} differ from the agent snapshot`,
+        recorded: inputs[field],
+        recomputed: observed[field],
+      });
+    }
+  }
+
+  // 4. Re-run the checks
+  const laws: Law<MetaAgent>[] = [];
+  for (const definition of gate.laws) {
+    const supplied = options.laws?.find(law => law.name === definition.name);
+    if (supplied) {
+      if (supplied.sense !== definition.sense || supplied.threshold !== definition.threshold) {
+        report({
+          kind: 'law',
+          subject: definition.name,
+          message: `Supplied law ${definition.name} differs from its definition`,
+          recorded: definition,
+          recomputed: { name: supplied.name, sense: supplied.sense, threshold: supplied.threshold },
+        });
+      }
+      laws.push(supplied);
+    } else if (definition.objective !== undefined) {
+      laws.push(objectiveLaw(definition.name, definition.objective, definition.sense, definition.threshold));
+    } else {
+      report({
+        kind: 'law',
+        subject: definition.name,
+        message: `Law ${definition.name} has no objective; supply it to re-evaluate`,
+      });
+    }
+  }
+
+  const known = [
+    ...(options.checks ?? []),
+    ...DEFAULT_PROOF_CHECKS,
+    toolPreconditionsCheck,
+    planToolsCheck,
+    reasoningStructureCheck,
+  ];
+  const pipeline: ProofCheck[] = [];
+  for (const { name, severity } of gate.checks ?? DEFAULT_PROOF_CHECKS) {
+    const plugin = known.find(check => check.name === name);
+    if (plugin) {
+      pipeline.push({ ...plugin, severity });
+    } else {
+      report({ kind: 'check', subject: name, message: `Check ${name} is unknown; supply it to re-evaluate` });
+    }
+  }
+
+  let checks: CheckResult[];
+  try {
+    const rerun = { ...gate, laws, checks: pipeline, clock: () => outputs.timestamp };
+    ({ checks } = verifyAgent(agent, rerun, inputs.parents));
+  } catch (error) {
+    report({ kind: 'format', subject: 'gate', message: `Checks cannot be re-run: ${(error as Error).message}` });
+    return { valid: false, checks: [], discrepancies };
+  }
+
+  const probes = checks.find(c => c.name === 'stability')?.probes;
+  if (!sameJson(inputs.stabilityProbes, probes)) {
+    report({
+      kind: 'input',
+      subject: 'stabilityProbes',
+      message: 'Recorded stabilityProbes differ from the probes derived from the agent',
+      recorded: inputs.stabilityProbes,
+      recomputed: probes,
+    });
+  }
+
+  for (const check of checks) {
+    const recorded = outputs.checks.find(c => c.name === check.name);
+    if (!recorded) {
+      report({ kind: 'output', subject: check.name, message: `Check ${check.name} is missing` });
+    } else if (!sameJson(outcome(recorded), outcome(check))) {
+      report({
+        kind: 'output',
+        subject: check.name,
+        message: `Check ${check.name} does not reproduce`,
+        recorded: outcome(recorded),
+        recomputed: outcome(check),
+      });
+    }
+  }
+  const unknown = outputs.checks.filter(
+    c => !checks.some(check => check.name === c.name) && !discrepancies.some(d => d.subject === c.name)
+  );
+  for (const check of unknown) {
+    report({ kind: 'output', subject: check.name, message: `Check ${check.name} is not part of the gate` });
+  }
+
+  const passed = !checks.some(isBlockingFailure);
+  if (outputs.passed !== passed) {
+    report({
+      kind: 'output',
+      subject: 'passed',
+      message: `Certificate claims ${outputs.passed ? 'pass' : 'fail'}, checks ${passed ? 'pass' : 'fail'}`,
+      recorded: outputs.passed,
+      recomputed: passed,
+    });
+  }
+
+  return { valid: discrepancies.length === 0, checks, discrepancies };
+}
@@ -0,0 +1,97 @@
+/**
+ * SPEC TEST: certificate.spec.ts
+ * Paired with certificate.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PROOF_CERTIFICATE_SCHEMA,
+  createProofCertificate,
+  parseProofCertificate,
+  proofCertificateErrors,
+  serializeProofCertificate,
+} from './certificate';
+import { applyProofGate, DEFAULT_PROOF_GATE } from './proof-gate';
+import { gateConfigVersion } from './proof-signing';
+import { createAgent, type MetaAgent } from '../agents-runtime/agent';
+
+function certified(): MetaAgent {
+  const agent = createAgent('a1', 'tutor');
+  agent.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 5.0];
+  agent.perception.state = [{ re: 1, im: 0 }];
+  agent.coordination.tools = [{ name: 'search', cost: 2 }];
+  applyProofGate([agent], { ...DEFAULT_PROOF_GATE, clock: () => 1000 });
+  return agent;
+}
+
+describe('certificate - creation', () => {
+  it('should embed the gate, inputs, outputs and an agent snapshot', () => {
+    const agent = certified();
+    const certificate = createProofCertificate(agent);
+
+    expect(certificate.gate.version).toBe(gateConfigVersion(DEFAULT_PROOF_GATE));
+    expect(certificate.gate.laws).toEqual([
+      { name: 'min-gain', sense: 'max', threshold: 0.1, objective: 'gain' },
+      { name: 'max-latency', sense: 'min', threshold: 1000, objective: 'latency' },
+    ]);
+    expect(certificate.inputs.objectives).toMatchObject({ gain: 0.5, latency: 50, cost: 5 });
+    expect(certificate.inputs.toolCosts).toEqual([2]);
+    expect(certificate.inputs.stabilityProbes).toHaveLength(20);
+    expect(certificate.outputs).toMatchObject({ passed: true, timestamp: 1000 });
+    expect(certificate.outputs.checks.map(c => c.name)).toContain('stability');
+
+    agent.objectives.values[0] = 0;
+    expect(certificate.agent.objectives.values[0]).toBe(0.5);
+  });
+
+  it('should refuse agents without a proof from the given gate', () => {
+    expect(() => createProofCertificate(createAgent('a2', 'tutor'))).toThrow('Agent a2 has no proof bundle');
+    expect(() => createProofCertificate(certified(), { ...DEFAULT_PROOF_GATE, maxCost: 20 }))
+      .toThrow(/was issued by gate v1-/);
+  });
+});
+
+describe('certificate - serialization', () => {
+  it('should round-trip through JSON', () => {
+    const certificate = createProofCertificate(certified());
+    expect(parseProofCertificate(serializeProofCertificate(certificate))).toEqual(certificate);
+  });
+
+  it('should reject other formats and versions', () => {
+    const json = serializeProofCertificate(createProofCertificate(certified()));
+
+    expect(() => parseProofCertificate('{}')).toThrow('Not a proof certificate');
+    expect(() => parseProofCertificate(json.replace('"version": 1', '"version": 2')))
+      .toThrow('Unsupported proof certificate version: 2');
+    const { agent: _agent, ...partial } = JSON.parse(json) as Record<string, unknown>;
+    expect(() => parseProofCertificate(JSON.stringify(partial))).toThrow('Proof certificate is missing agent');
+  });
+
+  it('should reject certificates that break the schema below the top level', () => {
+    const certificate = JSON.parse(serializeProofCertificate(createProofCertificate(certified())));
+    certificate.gate.laws = 'min-gain';
+    certificate.agent.perception.state = [{ re: 1 }];
+    certificate.outputs.checks[0].severity = 'fatal';
+
+    expect(() => parseProofCertificate(JSON.stringify(certificate)))
+      .toThrow('Proof certificate field gate.laws must be array');
+    expect(proofCertificateErrors(certificate).map(e => e.path))
+      .toEqual(['gate.laws', 'outputs.checks.0.severity', 'agent.perception.state.0.im']);
+  });
+
+  it('should find created certificates well-formed', () => {
+    expect(proofCertificateErrors(createProofCertificate(certified()))).toEqual([]);
+  });
+
+  it('should require every schema field in created certificates', () => {
+    const certificate = createProofCertificate(certified()) as unknown as Record<string, Record<string, unknown>>;
+
+    for (const field of PROOF_CERTIFICATE_SCHEMA.required) expect(certificate).toHaveProperty(field);
+    for (const field of PROOF_CERTIFICATE_SCHEMA.properties.gate.required) {
+      expect(certificate.gate).toHaveProperty(field);
+    }
+    for (const field of PROOF_CERTIFICATE_SCHEMA.properties.agent.properties.proof.required) {
+      expect(certificate.agent.proof).toHaveProperty(field);
+    }
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * Proof Certificates
+ *
+ * Machine-readable counterpart of generateProofCertificate: a JSON document
+ * holding everything needed to re-run the proof gate on a certified agent
+ * without trusting whoever ran it:
+ * - gate: the gate config, with laws given by definition (name, sense,
+ *   threshold and, for objective laws, the objective read) and checks by name
+ * - inputs: what the checks observed (objective values and samples, Hilbert
+ *   state, tool costs, stability probe draws, parents)
+ * - outputs: the checks as signed in the proof bundle
+ * - agent: a snapshot of the agent with its signed proof bundle
+ *
+ * PROOF_CERTIFICATE_SCHEMA is the JSON Schema of the format, enforced by
+ * parseProofCertificate (see proofCertificateErrors); certificate-checker.ts
+ * re-verifies a certificate.
+ */
+
+import type { AgentKind, MetaAgent } from '../agents-runtime/agent';
+import type { HilbertState } from '../laws-physics/hilbert';
+import {
+  DEFAULT_OBJECTIVES,
+  createObjectiveRegistry,
+  type ObjectiveSense,
+  type ObjectiveSpec,
+} from '../laws-physics/objectives';
+import { objectiveSamples } from './evaluators';
+import {
+  DEFAULT_PROOF_GATE,
+  isBlockingFailure,
+  type CheckResult,
+  type CheckSeverity,
+  type ProofGateConfig,
+} from './proof-gate';
+import { gateConfigVersion } from './proof-signing';
+import type { ParentGateConfig, ParentObservation } from './parent-gate';
+
+export const PROOF_CERTIFICATE_FORMAT = 'metal-league/proof-certificate';
+
+export const PROOF_CERTIFICATE_VERSION = 1;
+
+/**
+ * A law as data. Laws without `objective` can only be re-evaluated by an
+ * auditor who supplies a law of the same name.
+ */
+export interface LawDefinition {
+  name: string;
+  sense: ObjectiveSense;
+  threshold?: number;
+  objective?: string;
+}
+
+/**
+ * Gate config as recorded in a certificate.
+ */
+export interface CertificateGate {
+  /** gateConfigVersion of the settings below */
+  version: string;
+  laws: LawDefinition[];
+  maxPrivacyLoss: number;
+  maxCost: number;
+  requireStability: boolean;
+  stabilityEpsilon: number;
+  objectives?: ObjectiveSpec[];
+  privacyObjective?: string;
+  costObjective?: string;
+
+  /** Check pipeline by name and severity; absent for the default pipeline */
+  checks?: { name: string; severity: CheckSeverity }[];
+  enabled?: Record<string, boolean>;
+  severity?: Record<string, CheckSeverity>;
+  shortCircuit?: boolean;
+  parents?: ParentGateConfig;
+  requireConsistency?: boolean | AgentKind[];
+}
+
+/**
+ * What the gate's checks read from the agent.
+ */
+export interface CertificateInputs {
+  /** Objective values by name */
+  objectives: Record<string, number>;
+  state: HilbertState;
+  toolCosts: number[];
+
+  /** Probe draws of the stability check; the checker derives them again from the agent */
+  stabilityProbes?: number[];
+
+  /** Repeated evaluation samples of the agent, when there were several */
+  samples?: number[][];
+
+  /** Parents the parent gate compared against */
+  parents?: ParentObservation[];
+}
+
+export interface ProofCertificate {
+  format: typeof PROOF_CERTIFICATE_FORMAT;
+  version: number;
+  gate: CertificateGate;
+  inputs: CertificateInputs;
+  outputs: {
+    passed: boolean;
+    timestamp: number;
+    checks: CheckResult[];
+  };
+  agent: MetaAgent;
+}
+
+/**
+ * The JSON Schema keywords PROOF_CERTIFICATE_SCHEMA uses.
+ */
+interface JsonSchema {
+  type?: string | readonly string[];
+  required?: readonly string[];
+  properties?: Readonly<Record<string, JsonSchema>>;
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  const?: unknown;
+  anyOf?: readonly JsonSchema[];
+}
+
+/**
+ * Where a certificate breaks PROOF_CERTIFICATE_SCHEMA.
+ */
+export interface CertificateSchemaError {
+  /** Dotted path of the field, e.g. "gate.laws.0.sense" */
+  path: string;
+  message: string;
+}
+
+const number = { type: 'number' };
+const nullableNumber = { type: ['number', 'null'] };
+const checkSeverity = { enum: ['block', 'warn', 'info'] };
+const parentObservation = {
+  type: 'object',
+  required: ['id', 'values'],
+  properties: {
+    id: { type: 'string' },
+    values: { type: 'array', items: nullableNumber },
+    samples: { type: 'array', items: { type: 'array', items: nullableNumber } },
+  },
+};
+
+/**
+ * JSON Schema (draft 2020-12) of a serialized ProofCertificate.
+ * Non-finite check values are null, as in the signed proof bundle.
+ */
+export const PROOF_CERTIFICATE_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'Proof certificate',
+  type: 'object',
+  required: ['format', 'version', 'gate', 'inputs', 'outputs', 'agent'],
+  properties: {
+    format: { const: PROOF_CERTIFICATE_FORMAT },
+    version: { const: PROOF_CERTIFICATE_VERSION },
+    gate: {
+      type: 'object',
+      required: ['version', 'laws', 'maxPrivacyLoss', 'maxCost', 'requireStability', 'stabilityEpsilon'],
+      properties: {
+        version: { type: 'string' },
+        laws: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'sense'],
+            properties: {
+              name: { type: 'string' },
+              sense: { enum: ['min', 'max'] },
+              threshold: number,
+              objective: { type: 'string' },
+            },
+          },
+        },
+        maxPrivacyLoss: number,
+        maxCost: number,
+        requireStability: { type: 'boolean' },
+        stabilityEpsilon: number,
+        objectives: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'sense'],
+            properties: { name: { type: 'string' }, sense: { enum: ['min', 'max'] }, weight: number },
+          },
+        },
+        privacyObjective: { type: 'string' },
+        costObjective: { type: 'string' },
+        checks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'severity'],
+            properties: { name: { type: 'string' }, severity: checkSeverity },
+          },
+        },
+        enabled: { type: 'object', additionalProperties: { type: 'boolean' } },
+        severity: { type: 'object', additionalProperties: checkSeverity },
+        shortCircuit: { type: 'boolean' },
+        parents: {
+          type: 'object',
+          properties: {
+            maxRegression: { type: 'object', additionalProperties: number },
+            requireImprovement: { type: 'boolean' },
+            significance: number,
+          },
+        },
+        requireConsistency: { anyOf: [{ type: 'boolean' }, { type: 'array', items: { type: 'string' } }] },
+      },
+    },
+    inputs: {
+      type: 'object',
+      required: ['objectives', 'state', 'toolCosts'],
+      properties: {
+        objectives: { type: 'object', additionalProperties: nullableNumber },
+        state: {
+          type: 'array',
+          items: { type: 'object', required: ['re', 'im'], properties: { re: number, im: number } },
+        },
+        toolCosts: { type: 'array', items: number },
+        stabilityProbes: { type: 'array', items: number },
+        samples: { type: 'array', items: { type: 'array', items: nullableNumber } },
+        parents: { type: 'array', items: parentObservation },
+      },
+    },
+    outputs: {
+      type: 'object',
+      required: ['passed', 'timestamp', 'checks'],
+      properties: {
+        passed: { type: 'boolean' },
+        timestamp: number,
+        checks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'passed'],
+            properties: {
+              name: { type: 'string' },
+              passed: { type: 'boolean' },
+              value: nullableNumber,
+              threshold: nullableNumber,
+              message: { type: 'string' },
+              probes: { type: 'array', items: number },
+              severity: checkSeverity,
+              parents: { type: 'array', items: parentObservation },
+            },
+          },
+        },
+      },
+    },
+    agent: {
+      type: 'object',
+      required: ['id', 'kind', 'generation', 'perception', 'reasoning', 'coordination', 'objectives', 'proof'],
+      properties: {
+        id: { type: 'string' },
+        kind: { type: 'string' },
+        generation: number,
+        perception: {
+          type: 'object',
+          required: ['state'],
+          properties: {
+            state: {
+              type: 'array',
+              items: { type: 'object', required: ['re', 'im'], properties: { re: number, im: number } },
+            },
+          },
+        },
+        reasoning: {
+          type: 'object',
+          required: ['knowledge', 'goals'],
+          properties: {
+            knowledge: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['type'],
+                properties: {
+                  type: { enum: ['fact', 'rule', 'plan'] },
+                  content: { type: 'string' },
+                  condition: { type: 'string' },
+                  action: { type: 'string' },
+                  goal: { type: 'string' },
+                  steps: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+            goals: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        coordination: {
+          type: 'object',
+          required: ['tools', 'memory'],
+          properties: {
+            tools: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['name', 'cost'],
+                properties: { name: { type: 'string' }, cost: number },
+              },
+            },
+            memory: { type: 'array', items: { type: 'object' } },
+          },
+        },
+        objectives: {
+          type: 'object',
+          required: ['values'],
+          properties: { values: { type: 'array', items: nullableNumber } },
+        },
+        proof: {
+          type: 'object',
+          required: ['spec', 'proof', 'verified', 'timestamp', 'hash', 'signature', 'publicKey', 'gateVersion'],
+          properties: {
+            spec: { type: 'string' },
+            proof: { type: 'string' },
+            verified: { type: 'boolean' },
+            timestamp: number,
+            hash: { type: 'string' },
+            signature: { type: 'string' },
+            publicKey: { type: 'string' },
+            gateVersion: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Inputs the gate's checks read from `agent`, plus what the recorded `checks`
+ * observed besides it (stability probes, parents).
+ */
+export function certificateInputs(
+  agent: MetaAgent,
+  objectives: ObjectiveSpec[],
+  checks: CheckResult[]
+): CertificateInputs {
+  const registry = createObjectiveRegistry(objectives);
+  const stabilityProbes = checks.find(c => c.name === 'stability')?.probes;
+  const parents = checks.find(c => c.name === 'parents')?.parents;
+  const samples = objectiveSamples(agent);
+  return {
+    objectives: Object.fromEntries(registry.names.map(name => [name, registry.get(agent.objectives, name)])),
+    state: agent.perception.state.map(z => ({ re: z.re, im: z.im })),
+    toolCosts: agent.coordination.tools.map(t => t.cost),
+    ...(stabilityProbes ? { stabilityProbes: [...stabilityProbes] } : {}),
+    ...(samples.length > 1 ? { samples } : {}),
+    ...(parents ? { parents } : {}),
+  };
+}
+
+/**
+ * Certificate for an agent certified by the gate `config` (the one that
+ * issued its proof bundle). Throws if the agent has no signed bundle from it.
+ */
+export function createProofCertificate(
+  agent: MetaAgent,
+  config: ProofGateConfig = DEFAULT_PROOF_GATE
+): ProofCertificate {
+  const proof = agent.proof;
+  if (!proof) throw new Error(`Agent ${agent.id} has no proof bundle`);
+  if (!proof.gateVersion) throw new Error(`Proof bundle of ${agent.id} is not signed`);
+
+  const version = gateConfigVersion(config);
+  if (proof.gateVersion !== version) {
+    throw new Error(`Proof of ${agent.id} was issued by gate ${proof.gateVersion}, not ${version}`);
+  }
+
+  const checks = JSON.parse(proof.proof) as CheckResult[];
+  return {
+    format: PROOF_CERTIFICATE_FORMAT,
+    version: PROOF_CERTIFICATE_VERSION,
+    gate: {
+      version,
+      laws: config.laws.map(({ name, sense, threshold, objective }) => ({ name, sense, threshold, objective })),
+      maxPrivacyLoss: config.maxPrivacyLoss,
+      maxCost: config.maxCost,
+      requireStability: config.requireStability,
+      stabilityEpsilon: config.stabilityEpsilon,
+      objectives: config.objectives,
+      privacyObjective: config.privacyObjective,
+      costObjective: config.costObjective,
+      checks: config.checks?.map(({ name, severity }) => ({ name, severity })),
+      enabled: config.enabled,
+      severity: config.severity,
+      shortCircuit: config.shortCircuit,
+      parents: config.parents,
+      requireConsistency: config.requireConsistency,
+    },
+    inputs: certificateInputs(agent, config.objectives ?? DEFAULT_OBJECTIVES, checks),
+    outputs: {
+      passed: !checks.some(isBlockingFailure),
+      timestamp: proof.timestamp,
+      checks,
+    },
+    agent: structuredClone(agent),
+  };
+}
+
+/**
+ * Serialize a certificate (pretty-printed, for auditors).
+ */
+export function serializeProofCertificate(certificate: ProofCertificate): string {
+  return JSON.stringify(certificate, null, 2);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function schemaErrors(value: unknown, schema: JsonSchema, path: string): CertificateSchemaError[] {
+  const at = (message: string) => [{ path, message: `Proof certificate field ${path} ${message}` }];
+  const types = schema.type === undefined ? undefined : [schema.type].flat();
+  if (types && !types.includes(typeOf(value))) return at(`must be ${types.join(' or ')}`);
+  if ('const' in schema && value !== schema.const) return at(`must be ${JSON.stringify(schema.const)}`);
+  if (schema.enum && !schema.enum.includes(value)) return at(`must be one of ${JSON.stringify(schema.enum)}`);
+  if (schema.anyOf && schema.anyOf.every(option => schemaErrors(value, option, path).length > 0)) {
+    return at('matches none of its allowed forms');
+  }
+
+  const child = (key: string | number) => (path ? `${path}.${key}` : `${key}`);
+  if (Array.isArray(value)) {
+    const { items } = schema;
+    return items ? value.flatMap((item, i) => schemaErrors(item, items, child(i))) : [];
+  }
+  if (typeOf(value) !== 'object') return [];
+
+  // Undefined properties are absent, as after a JSON round trip
+  const record = value as Record<string, unknown>;
+  const errors: CertificateSchemaError[] = (schema.required ?? [])
+    .filter(key => record[key] === undefined)
+    .map(key => ({ path: child(key), message: `Proof certificate is missing ${child(key)}` }));
+  for (const [key, field] of Object.entries(record)) {
+    const fieldSchema = schema.properties?.[key] ?? schema.additionalProperties;
+    if (field !== undefined && fieldSchema) errors.push(...schemaErrors(field, fieldSchema, child(key)));
+  }
+  return errors;
+}
+
+/**
+ * Every way `certificate` breaks PROOF_CERTIFICATE_SCHEMA; empty for a well-formed certificate.
+ */
+export function proofCertificateErrors(certificate: unknown): CertificateSchemaError[] {
+  return schemaErrors(certificate, PROOF_CERTIFICATE_SCHEMA, '');
+}
+
+/**
+ * Parse a serialized certificate, rejecting other formats and versions and
+ * anything that breaks PROOF_CERTIFICATE_SCHEMA.
+ */
+export function parseProofCertificate(json: string): ProofCertificate {
+  const certificate = JSON.parse(json) as Partial<ProofCertificate> | null;
+
+  if (certificate?.format !== PROOF_CERTIFICATE_FORMAT) {
+    throw new Error('Not a proof certificate');
+  }
+  if (certificate.version !== PROOF_CERTIFICATE_VERSION) {
+    throw new Error(`Unsupported proof certificate version: ${certificate.version}`);
+  }
+  const [error] = proofCertificateErrors(certificate);
+  if (error) throw new Error(error.message);
+  return certificate as ProofCertificate;
+}
@@ -0,0 +1,125 @@
+/**
+ * SPEC TEST: checkpoint.spec.ts
+ * Paired with checkpoint.ts
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  CHECKPOINT_VERSION,
+  serializeCheckpoint,
+  parseCheckpoint,
+  createMemoryCheckpointStore,
+  createFileCheckpointStore,
+  type EvolutionCheckpoint,
+} from './checkpoint';
+import { createAgent } from '../agents-runtime/agent';
+import { DEFAULT_EVOLUTION_CONFIG } from './evolution';
+import { createRng } from '../laws-physics/random';
+
+function makeCheckpoint(runId = 'run-1'): EvolutionCheckpoint {
+  const { rng: _rng, clock: _clock, checkpoint: _checkpoint, evaluator: _evaluator, proofGate, ...config } =
+    DEFAULT_EVOLUTION_CONFIG;
+  const bounds = { count: 0, min: [Infinity], max: [-Infinity], mean: [0], m2: [0], ideal: [-0], nadir: [NaN] };
+
+  return {
+    version: CHECKPOINT_VERSION,
+    runId,
+    generation: 3,
+    config: {
+      ...config,
+      evaluator: 'simulation',
+      proofGate: { ...proofGate, laws: proofGate.laws.map(l => l.name) },
+    },
+    population: [createAgent('a', 'tutor', 2, undefined, 0)],
+    stats: [],
+    rngState: createRng(1).state(),
+    seed: 1,
+    indicatorNormalizer: bounds,
+    elapsedMs: 12,
+    timestamp: 0,
+  };
+}
+
+describe('checkpoint - serialization', () => {
+  it('should round-trip non-finite numbers and negative zero', () => {
+    const parsed = parseCheckpoint(serializeCheckpoint(makeCheckpoint()));
+
+    expect(parsed.indicatorNormalizer.min[0]).toBe(Infinity);
+    expect(parsed.indicatorNormalizer.max[0]).toBe(-Infinity);
+    expect(Object.is(parsed.indicatorNormalizer.ideal[0], -0)).toBe(true);
+    expect(parsed.indicatorNormalizer.nadir[0]).toBeNaN();
+  });
+
+  it('should round-trip the population and RNG state', () => {
+    const checkpoint = makeCheckpoint();
+    const parsed = parseCheckpoint(serializeCheckpoint(checkpoint));
+
+    expect(parsed.population).toEqual(checkpoint.population);
+    expect(parsed.rngState).toEqual(checkpoint.rngState);
+  });
+
+  it('should reject other versions', () => {
+    const json = serializeCheckpoint({ ...makeCheckpoint(), version: 99 });
+    expect(() => parseCheckpoint(json)).toThrow('Unsupported checkpoint version: 99');
+  });
+});
+
+describe('checkpoint - memory store', () => {
+  it('should keep the latest checkpoint per run', async () => {
+    const store = createMemoryCheckpointStore();
+    await store.save(makeCheckpoint('a'));
+    await store.save({ ...makeCheckpoint('a'), generation: 4 });
+    await store.save(makeCheckpoint('b'));
+
+    expect((await store.load('a'))?.generation).toBe(4);
+    expect((await store.load('b'))?.generation).toBe(3);
+    expect(await store.load('c')).toBeUndefined();
+  });
+
+  it('should be isolated from later changes', async () => {
+    const store = createMemoryCheckpointStore();
+    const checkpoint = makeCheckpoint();
+    await store.save(checkpoint);
+    checkpoint.population[0].id = 'changed';
+
+    expect((await store.load('run-1'))?.population[0].id).toBe('a');
+  });
+
+  it('should delete runs', async () => {
+    const store = createMemoryCheckpointStore();
+    await store.save(makeCheckpoint());
+    await store.delete('run-1');
+    expect(await store.load('run-1')).toBeUndefined();
+  });
+});
+
+describe('checkpoint - file store', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('should write one JSON file per run', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'checkpoints-'));
+    const store = createFileCheckpointStore(join(directory, 'nested'));
+    await store.save(makeCheckpoint());
+
+    expect(await readdir(join(directory, 'nested'))).toEqual(['run-1.json']);
+    expect(await store.load('run-1')).toEqual(parseCheckpoint(serializeCheckpoint(makeCheckpoint())));
+  });
+
+  it('should return undefined for unknown runs', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'checkpoints-'));
+    expect(await createFileCheckpointStore(directory).load('missing')).toBeUndefined();
+  });
+
+  it('should reject run ids that are not plain file names', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'checkpoints-'));
+    await expect(createFileCheckpointStore(directory).save(makeCheckpoint('../escape'))).rejects.toThrow('Invalid run id');
+  });
+});
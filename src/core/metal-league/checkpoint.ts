@@ -0,0 +1,214 @@
+/**
+ * Evolution Checkpoints
+ *
+ * After each generation the loop can hand a checkpoint (population, RNG
+ * state, normalizer bounds, stats and the serializable part of the config)
+ * to a pluggable store. resumeEvolution (see evolution.ts) continues from a
+ * checkpoint and reproduces the uninterrupted run bit for bit.
+ *
+ * Checkpoints round-trip through JSON losslessly: non-finite numbers and -0
+ * are tagged, so a memory store and a file store resume identically.
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { MetaAgent } from '../agents-runtime/agent';
+import type { BanditState } from '../../router/evolution_router';
+import type { HilbertState } from '../laws-physics/hilbert';
+import type { NormalizerSnapshot, ObjectiveVector } from '../laws-physics/objectives';
+import type { RngState } from '../laws-physics/random';
+import type { EvolutionConfig, GenerationStats } from './evolution';
+import type { ProofGateConfig } from './proof-gate';
+import type { MapElitesArchive } from './quality-diversity';
+import type { HypervolumeBounds, StopReason } from './termination';
+
+/**
+ * Format version written into every checkpoint.
+ */
+export const CHECKPOINT_VERSION = 1;
+
+/**
+ * The serializable part of an EvolutionConfig. Laws and the evaluator are
+ * stored by name and must be supplied again on resume unless they are the defaults.
+ */
+export type CheckpointConfig = Omit<
+  EvolutionConfig,
+  'proofGate' | 'rng' | 'clock' | 'checkpoint' | 'evaluator' | 'listeners'
+> & {
+  evaluator: string;
+  proofGate: Omit<ProofGateConfig, 'laws' | 'random' | 'clock'> & { laws: string[] };
+};
+
+/**
+ * Everything needed to continue a run at the start of a generation.
+ */
+export interface EvolutionCheckpoint {
+  version: number;
+  runId: string;
+
+  /** Next generation to run; equal to config.generations once the loop is done */
+  generation: number;
+
+  config: CheckpointConfig;
+
+  /** Population entering `generation` */
+  population: MetaAgent[];
+
+  stats: GenerationStats[];
+
+  /** Front of the last completed generation (reference for distance indicators) */
+  previousFront?: { id: string; objectives: ObjectiveVector }[];
+
+  rngState: RngState;
+
+  /** Seed the run was created from, if any */
+  seed?: number;
+
+  /** Running strength of an adaptive mutation schedule */
+  mutationStrength?: number;
+
+  /** Operator bandit of adaptive operator selection */
+  bandit?: BanditState;
+
+  /** MAP-Elites archive of quality diversity */
+  archive?: MapElitesArchive;
+
+  /** Novelty archive of novelty search */
+  noveltyArchive?: HilbertState[];
+
+  /** Consecutive generations the front kept its ids (front-stability criterion) */
+  stableFronts?: number;
+
+  /** Fixed bounds of the hypervolume-stagnation criterion */
+  hypervolumeBounds?: HypervolumeBounds;
+
+  /** Set when a stopping criterion ended the loop */
+  stopReason?: StopReason;
+
+  /** Agents the parent gate looks for parents among (parent gate only) */
+  ancestors?: MetaAgent[];
+
+  /** Running bounds of the configured normalizer */
+  normalizer?: NormalizerSnapshot;
+
+  /** Running bounds of the indicator normalizer */
+  indicatorNormalizer: NormalizerSnapshot;
+
+  /** Run time accumulated before this checkpoint */
+  elapsedMs: number;
+
+  timestamp: number;
+}
+
+/**
+ * Pluggable checkpoint persistence. Stores keep the latest checkpoint per run.
+ */
+export interface CheckpointStore {
+  save(checkpoint: EvolutionCheckpoint): Promise<void>;
+
+  /** Latest checkpoint of a run, or undefined if there is none */
+  load(runId: string): Promise<EvolutionCheckpoint | undefined>;
+
+  delete(runId: string): Promise<void>;
+}
+
+/**
+ * Checkpointing settings for EvolutionConfig.
+ */
+export interface CheckpointOptions {
+  store: CheckpointStore;
+
+  /** Run identifier (defaults to `run-<seed>`) */
+  runId?: string;
+
+  /** Save every N generations (default 1); the last generation is always saved */
+  every?: number;
+}
+
+/**
+ * Serialize a checkpoint to JSON without losing non-finite numbers or -0.
+ */
+export function serializeCheckpoint(checkpoint: EvolutionCheckpoint): string {
+  return JSON.stringify(checkpoint, (_, value: unknown) => {
+    if (typeof value === 'number' && (!isFinite(value) || Object.is(value, -0))) {
+      return { $number: Object.is(value, -0) ? '-0' : String(value) };
+    }
+    return value;
+  });
+}
+
+/**
+ * Parse a checkpoint written by serializeCheckpoint.
+ */
+export function parseCheckpoint(json: string): EvolutionCheckpoint {
+  const checkpoint = JSON.parse(json, (_, value: unknown) => {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      const keys = Object.keys(value);
+      const tagged = (value as { $number?: unknown }).$number;
+      if (keys.length === 1 && typeof tagged === 'string') return Number(tagged);
+    }
+    return value;
+  }) as EvolutionCheckpoint;
+
+  if (checkpoint.version !== CHECKPOINT_VERSION) {
+    throw new Error(`Unsupported checkpoint version: ${checkpoint.version}`);
+  }
+  return checkpoint;
+}
+
+/**
+ * In-memory store. Checkpoints are kept serialized, so later changes to the
+ * running population cannot leak into them.
+ */
+export function createMemoryCheckpointStore(): CheckpointStore {
+  const checkpoints = new Map<string, string>();
+
+  return {
+    save: checkpoint => {
+      checkpoints.set(checkpoint.runId, serializeCheckpoint(checkpoint));
+      return Promise.resolve();
+    },
+    load: runId => {
+      const json = checkpoints.get(runId);
+      return Promise.resolve(json === undefined ? undefined : parseCheckpoint(json));
+    },
+    delete: runId => {
+      checkpoints.delete(runId);
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Local JSON-file store: one `<runId>.json` per run in `directory`.
+ * Writes go to a temporary file first, so a crash mid-write keeps the previous checkpoint.
+ */
+export function createFileCheckpointStore(directory: string): CheckpointStore {
+  const pathFor = (runId: string) => {
+    if (!/^[\w.-]+$/.test(runId)) {
+      throw new Error(`Invalid run id for file store: ${runId}`);
+    }
+    return join(directory, `${runId}.json`);
+  };
+
+  return {
+    save: async checkpoint => {
+      const path = pathFor(checkpoint.runId);
+      const json = serializeCheckpoint(checkpoint);
+      await mkdir(directory, { recursive: true });
+      await writeFile(`${path}.tmp`, json, 'utf8');
+      await rename(`${path}.tmp`, path);
+    },
+    load: async runId => {
+      try {
+        return parseCheckpoint(await readFile(pathFor(runId), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    },
+    delete: async runId => {
+      await rm(pathFor(runId), { force: true });
+    },
+  };
+}
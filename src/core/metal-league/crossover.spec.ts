@@ -0,0 +1,140 @@
+/**
+ * SPEC TEST: crossover.spec.ts
+ * Paired with crossover.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  uniformCrossover,
+  kPointCrossover,
+  splicePlans,
+  toolUnion,
+  toolIntersection,
+  arithmeticBlend,
+  sbxBlend,
+  phaseBlend,
+  crossoverKnowledge,
+  crossoverTools,
+  crossoverState,
+} from './crossover';
+import { norm, spectralSync, type HilbertState } from '../laws-physics/hilbert';
+import { createRng } from '../laws-physics/random';
+import type { SymbolicItem } from '../agents-runtime/agent';
+
+const fact = (content: string): SymbolicItem => ({ type: 'fact', content });
+const plan = (goal: string, steps: string[]) => ({ type: 'plan' as const, goal, steps });
+
+/** Returns the given draws in order, then repeats the last */
+function draws(...values: number[]): () => number {
+  let i = 0;
+  return () => values[Math.min(i++, values.length - 1)];
+}
+
+describe('crossover - symbolic items', () => {
+  it('should take each shared position from one of the parents', () => {
+    const a = ['a0', 'a1', 'a2', 'a3'];
+    const b = ['b0', 'b1', 'b2', 'b3'];
+    const child = uniformCrossover(a, b, createRng(4).next);
+
+    expect(child).toHaveLength(4);
+    child.forEach((item, i) => expect([a[i], b[i]]).toContain(item));
+  });
+
+  it('should keep tail positions of the longer parent with probability 1/2', () => {
+    expect(uniformCrossover(['a0'], ['b0', 'b1', 'b2'], draws(0.1, 0.9, 0.1))).toEqual(['a0', 'b2']);
+  });
+
+  it('should alternate segments between cut points', () => {
+    const a = ['a0', 'a1', 'a2', 'a3', 'a4'];
+    const b = ['b0', 'b1', 'b2', 'b3', 'b4'];
+    // Candidates [1, 2, 3, 4]: draw 0.0 picks 1, then 0.5 of [2, 3, 4] picks 3
+    expect(kPointCrossover(a, b, 2, draws(0, 0.5))).toEqual(['a0', 'b1', 'b2', 'a3', 'a4']);
+  });
+
+  it('should use every cut when k exceeds the positions', () => {
+    expect(kPointCrossover(['a0', 'a1', 'a2'], ['b0', 'b1', 'b2'], 10, createRng(1).next))
+      .toEqual(['a0', 'b1', 'a2']);
+  });
+
+  it('should splice the head of one plan onto the tail of the other', () => {
+    const spliced = splicePlans(plan('teach', ['s1', 's2', 's3']), plan('quiz', ['q1', 'q2', 'q3']), draws(0.5, 0.5));
+    expect(spliced).toEqual({ type: 'plan', goal: 'teach', steps: ['s1', 's2', 'q3'] });
+  });
+
+  it('should splice paired plans and cross the other items', () => {
+    const a = [fact('a'), plan('teach', ['s1', 's2'])];
+    const b = [fact('b'), plan('quiz', ['q1', 'q2'])];
+    const child = crossoverKnowledge(a, b, { knowledge: 'uniform', plans: 'splice' }, createRng(2).next);
+    const plans = child.filter(item => item.type === 'plan');
+
+    expect(child.filter(item => item.type === 'fact')).toHaveLength(1);
+    expect(plans).toHaveLength(1);
+    expect(['teach', 'quiz']).toContain(plans[0].goal);
+  });
+
+  it('should default to the first two items of each parent', () => {
+    const a = [fact('a1'), fact('a2'), fact('a3')];
+    const b = [fact('b1')];
+    expect(crossoverKnowledge(a, b)).toEqual([fact('a1'), fact('a2'), fact('b1')]);
+  });
+});
+
+describe('crossover - tools', () => {
+  const search = { name: 'search', cost: 1 };
+  const calc = { name: 'calc', cost: 2 };
+  const cheapSearch = { name: 'search', cost: 0.5 };
+
+  it('should unite tools by name, preferring the first parent', () => {
+    expect(toolUnion([search, calc], [cheapSearch, { name: 'web', cost: 3 }]))
+      .toEqual([search, calc, { name: 'web', cost: 3 }]);
+  });
+
+  it('should intersect tools by name', () => {
+    expect(toolIntersection([search, calc, search], [cheapSearch])).toEqual([search]);
+  });
+
+  it('should select the operator from the config', () => {
+    expect(crossoverTools([search, calc], [cheapSearch], { tools: 'union' })).toEqual([search, calc]);
+    expect(crossoverTools([search, calc], [calc], {})).toEqual([search, calc]);
+  });
+});
+
+describe('crossover - state blends', () => {
+  const a: HilbertState = [{ re: 1, im: 0 }, { re: 0, im: 0 }];
+  const b: HilbertState = [{ re: 0, im: 0 }, { re: 0, im: 1 }];
+
+  it('should produce unit-norm children', () => {
+    const random = createRng(3).next;
+    for (const child of [arithmeticBlend(a, b, random), sbxBlend(a, b, 15, random), phaseBlend(a, b, random)]) {
+      expect(norm(child)).toBeCloseTo(1);
+    }
+  });
+
+  it('should interpolate arithmetically', () => {
+    const child = arithmeticBlend(a, b, () => 0.5);
+    expect(child[0].re).toBeCloseTo(Math.SQRT1_2);
+    expect(child[1].im).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('should keep SBX children near the parents for large eta', () => {
+    const child = sbxBlend(a, a, 1000, createRng(5).next);
+    expect(child[0].re).toBeCloseTo(1);
+  });
+
+  it('should not cancel opposite phases', () => {
+    const plus: HilbertState = [{ re: 1, im: 0 }];
+    const minus: HilbertState = [{ re: -1, im: 0 }];
+    const child = phaseBlend(plus, minus, () => 0.5);
+
+    expect(norm(child)).toBeCloseTo(1);
+    expect(arithmeticBlend(plus, minus, () => 0.5)).toEqual([{ re: 0, im: 0 }]);
+  });
+
+  it('should reject mismatched dimensions', () => {
+    expect(() => arithmeticBlend(a, [{ re: 1, im: 0 }])).toThrow('same dimension');
+  });
+
+  it('should default to spectral sync', () => {
+    expect(crossoverState(a, b)).toEqual(spectralSync([a, b]));
+  });
+});
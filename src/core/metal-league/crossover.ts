@@ -0,0 +1,254 @@
+/**
+ * Crossover Operators
+ *
+ * Recombination over each layer of the tri-layer genome:
+ * - knowledge (SymbolicItem[]): uniform, k-point, or the original sample
+ * - plans ({type:'plan'} items): spliced step-wise, or crossed like other items
+ * - tools (Tool[]): set union or intersection by name, or the original sample
+ * - state (HilbertState): spectral sync, arithmetic, SBX or phase-preserving blend
+ *
+ * Defaults reproduce the original crossoverAgents, so configs choose
+ * operators per layer in EvolutionConfig.crossover.
+ */
+
+import type { SymbolicItem, Tool } from '../agents-runtime/agent';
+import { normalize, spectralSync, type HilbertState } from '../laws-physics/hilbert';
+
+export type KnowledgeCrossover = 'sample' | 'uniform' | 'k-point';
+export type PlanCrossover = 'inherit' | 'splice';
+export type ToolCrossover = 'sample' | 'union' | 'intersection';
+export type StateCrossover = 'spectral-sync' | 'arithmetic' | 'sbx' | 'phase';
+
+/**
+ * Operator choice per layer.
+ */
+export interface CrossoverOperators {
+  /** Symbolic knowledge (default 'sample': the first two items of each parent) */
+  knowledge?: KnowledgeCrossover;
+
+  /** Cut points for 'k-point' (default 2) */
+  points?: number;
+
+  /** 'splice' pairs the parents' plans and splices their steps; 'inherit' crosses them as items (default) */
+  plans?: PlanCrossover;
+
+  /** Tools (default 'sample': the first tool of each parent) */
+  tools?: ToolCrossover;
+
+  /** Hilbert state (default 'spectral-sync') */
+  state?: StateCrossover;
+
+  /** SBX distribution index; larger keeps children closer to the parents (default 15) */
+  sbxEta?: number;
+}
+
+type Plan = Extract<SymbolicItem, { type: 'plan' }>;
+
+/**
+ * Uniform crossover: each position comes from either parent with equal
+ * probability. Positions only one parent has are kept with probability 1/2.
+ */
+export function uniformCrossover<T>(a: T[], b: T[], random: () => number = Math.random): T[] {
+  const child: T[] = [];
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (i < a.length && i < b.length) {
+      child.push(random() < 0.5 ? a[i] : b[i]);
+    } else if (random() < 0.5) {
+      child.push(i < a.length ? a[i] : b[i]);
+    }
+  }
+  return child;
+}
+
+/**
+ * k-point crossover: cut both parents at the same k positions and alternate
+ * segments, starting with `a`. The child is as long as the parent of its last segment.
+ */
+export function kPointCrossover<T>(a: T[], b: T[], k = 2, random: () => number = Math.random): T[] {
+  const length = Math.max(a.length, b.length);
+  const candidates = Array.from({ length: Math.max(0, length - 1) }, (_, i) => i + 1);
+  const count = Math.min(k, candidates.length);
+  const cuts: number[] = [];
+  while (cuts.length < count) {
+    cuts.push(candidates.splice(Math.floor(random() * candidates.length), 1)[0]);
+  }
+  cuts.sort((x, y) => x - y);
+
+  const child: T[] = [];
+  const bounds = [0, ...cuts, length];
+  for (let s = 0; s < bounds.length - 1; s++) {
+    const source = s % 2 === 0 ? a : b;
+    child.push(...source.slice(bounds[s], bounds[s + 1]));
+  }
+  return child;
+}
+
+/**
+ * Splice two plans at one random cut each: the head of `a`'s steps and the
+ * tail of `b`'s, toward `a`'s goal.
+ */
+export function splicePlans(a: Plan, b: Plan, random: () => number = Math.random): Plan {
+  const cutA = Math.floor(random() * (a.steps.length + 1));
+  const cutB = Math.floor(random() * (b.steps.length + 1));
+  return { type: 'plan', goal: a.goal, steps: [...a.steps.slice(0, cutA), ...b.steps.slice(cutB)] };
+}
+
+/**
+ * Tools deduplicated by name, keeping the first version of each in order.
+ */
+function uniqueByName(tools: Tool[]): Tool[] {
+  const byName = new Map<string, Tool>();
+  for (const tool of tools) {
+    if (!byName.has(tool.name)) byName.set(tool.name, tool);
+  }
+  return [...byName.values()];
+}
+
+/**
+ * Tools of either parent, deduplicated by name; `a`'s version wins.
+ */
+export function toolUnion(a: Tool[], b: Tool[]): Tool[] {
+  return uniqueByName([...a, ...b]);
+}
+
+/**
+ * Tools both parents have (by name), in `a`'s order and version.
+ */
+export function toolIntersection(a: Tool[], b: Tool[]): Tool[] {
+  const names = new Set(b.map(t => t.name));
+  return uniqueByName(a.filter(t => names.has(t.name)));
+}
+
+function checkDimensions(a: HilbertState, b: HilbertState): void {
+  if (a.length !== b.length) {
+    throw new Error('States must have same dimension');
+  }
+}
+
+/**
+ * Arithmetic blend: α·a + (1 − α)·b with α drawn uniformly, normalized.
+ */
+export function arithmeticBlend(a: HilbertState, b: HilbertState, random: () => number = Math.random): HilbertState {
+  checkDimensions(a, b);
+  const alpha = random();
+  return normalize(a.map((z, i) => ({
+    re: alpha * z.re + (1 - alpha) * b[i].re,
+    im: alpha * z.im + (1 - alpha) * b[i].im,
+  })));
+}
+
+/**
+ * Simulated binary crossover (Deb & Agrawal) on every real and imaginary
+ * component, normalized. Returns the first of the two SBX children.
+ */
+export function sbxBlend(
+  a: HilbertState,
+  b: HilbertState,
+  eta = 15,
+  random: () => number = Math.random
+): HilbertState {
+  checkDimensions(a, b);
+  const sbx = (x1: number, x2: number) => {
+    const u = random();
+    const beta = u <= 0.5 ? (2 * u) ** (1 / (eta + 1)) : (1 / (2 * (1 - u))) ** (1 / (eta + 1));
+    return 0.5 * ((1 + beta) * x1 + (1 - beta) * x2);
+  };
+  return normalize(a.map((z, i) => ({ re: sbx(z.re, b[i].re), im: sbx(z.im, b[i].im) })));
+}
+
+/**
+ * Phase-preserving blend: magnitudes and phases are interpolated separately
+ * (phases along the circle), so opposite phases do not cancel out. Normalized.
+ */
+export function phaseBlend(a: HilbertState, b: HilbertState, random: () => number = Math.random): HilbertState {
+  checkDimensions(a, b);
+  const alpha = random();
+  return normalize(a.map((z, i) => {
+    const magnitude = alpha * Math.hypot(z.re, z.im) + (1 - alpha) * Math.hypot(b[i].re, b[i].im);
+    const phaseA = Math.atan2(z.im, z.re);
+    const phaseB = Math.atan2(b[i].im, b[i].re);
+    const x = alpha * Math.cos(phaseA) + (1 - alpha) * Math.cos(phaseB);
+    const y = alpha * Math.sin(phaseA) + (1 - alpha) * Math.sin(phaseB);
+    const phase = Math.hypot(x, y) < 1e-12 ? phaseA : Math.atan2(y, x);
+    return { re: magnitude * Math.cos(phase), im: magnitude * Math.sin(phase) };
+  }));
+}
+
+/**
+ * Recombine the parents' states with the configured operator.
+ */
+export function crossoverState(
+  a: HilbertState,
+  b: HilbertState,
+  operators: CrossoverOperators = {},
+  random: () => number = Math.random
+): HilbertState {
+  switch (operators.state ?? 'spectral-sync') {
+    case 'spectral-sync':
+      return spectralSync([a, b]);
+    case 'arithmetic':
+      return arithmeticBlend(a, b, random);
+    case 'sbx':
+      return sbxBlend(a, b, operators.sbxEta, random);
+    case 'phase':
+      return phaseBlend(a, b, random);
+  }
+}
+
+/**
+ * Recombine the parents' knowledge with the configured operators.
+ * With plan splicing, plans are paired by position among the parents' plans
+ * and spliced; an unpaired plan is kept with probability 1/2.
+ */
+export function crossoverKnowledge(
+  a: SymbolicItem[],
+  b: SymbolicItem[],
+  operators: CrossoverOperators = {},
+  random: () => number = Math.random
+): SymbolicItem[] {
+  const splice = operators.plans === 'splice';
+  const isPlan = (item: SymbolicItem): item is Plan => item.type === 'plan';
+  const itemsA = splice ? a.filter(item => !isPlan(item)) : a;
+  const itemsB = splice ? b.filter(item => !isPlan(item)) : b;
+
+  let items: SymbolicItem[];
+  switch (operators.knowledge ?? 'sample') {
+    case 'sample':
+      items = [...itemsA.slice(0, 2), ...itemsB.slice(0, 2)];
+      break;
+    case 'uniform':
+      items = uniformCrossover(itemsA, itemsB, random);
+      break;
+    case 'k-point':
+      items = kPointCrossover(itemsA, itemsB, operators.points ?? 2, random);
+      break;
+  }
+  if (!splice) return items;
+
+  const plansA = a.filter(isPlan);
+  const plansB = b.filter(isPlan);
+  const plans: Plan[] = [];
+  for (let i = 0; i < Math.max(plansA.length, plansB.length); i++) {
+    if (i < plansA.length && i < plansB.length) {
+      const [head, tail] = random() < 0.5 ? [plansA[i], plansB[i]] : [plansB[i], plansA[i]];
+      plans.push(splicePlans(head, tail, random));
+    } else if (random() < 0.5) {
+      plans.push(plansA[i] ?? plansB[i]);
+    }
+  }
+  return [...items, ...plans];
+}
+
+/**
+ * Recombine the parents' tools with the configured operator.
+ */
+export function crossoverTools(a: Tool[], b: Tool[], operators: CrossoverOperators = {}): Tool[] {
+  switch (operators.tools ?? 'sample') {
+    case 'sample':
+      return [...a.slice(0, 1), ...b.slice(0, 1)];
+    case 'union':
+      return toolUnion(a, b);
+    case 'intersection':
+      return toolIntersection(a, b);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * SPEC TEST: evaluation-pool.spec.ts
+ * Paired with evaluation-pool.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runEvaluationPool, penaltyObjectives, EvaluationTimeoutError } from './evaluation-pool';
+import { createAgent, type MetaAgent } from '../agents-runtime/agent';
+import { DEFAULT_OBJECTIVES } from '../laws-physics/objectives';
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+function agents(count: number): MetaAgent[] {
+  return Array.from({ length: count }, (_, i) => createAgent(`a${i}`, 'tutor', 2, undefined, 0));
+}
+
+describe('evaluation pool - concurrency', () => {
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const { evaluated, summary } = await runEvaluationPool(
+      agents(10),
+      async () => {
+        peak = Math.max(peak, ++inFlight);
+        await sleep(2);
+        inFlight--;
+      },
+      { concurrency: 3 }
+    );
+
+    expect(peak).toBe(3);
+    expect(evaluated.map(a => a.id)).toEqual(agents(10).map(a => a.id));
+    expect(summary.evaluated).toBe(10);
+  });
+});
+
+describe('evaluation pool - timeouts and retries', () => {
+  it('should time out slow attempts and abort their signal', async () => {
+    let aborted = false;
+    const { failed, summary } = await runEvaluationPool(
+      agents(1),
+      async (_, signal) => {
+        signal.addEventListener('abort', () => { aborted = true; });
+        await sleep(50);
+      },
+      { timeoutMs: 5 }
+    );
+
+    expect(failed).toHaveLength(1);
+    expect(aborted).toBe(true);
+    expect(summary.timeouts).toBe(1);
+    expect(summary.failures[0]).toMatchObject({ timedOut: true, error: new EvaluationTimeoutError(5).message });
+  });
+
+  it('should retry with exponential backoff', async () => {
+    const times: number[] = [];
+    const { evaluated, summary } = await runEvaluationPool(
+      agents(1),
+      () => {
+        times.push(Date.now());
+        return times.length < 3 ? Promise.reject(new Error('flaky')) : Promise.resolve();
+      },
+      { retries: 2, backoffMs: 10 }
+    );
+
+    expect(evaluated).toHaveLength(1);
+    expect(summary.retries).toBe(2);
+    // Backoff of 10ms, then 20ms (allow for timer granularity)
+    expect(times[2] - times[1]).toBeGreaterThanOrEqual(times[1] - times[0] + 5);
+  });
+
+  it('should record attempts once retries are exhausted', async () => {
+    const { summary } = await runEvaluationPool(agents(1), () => Promise.reject(new Error('down')), {
+      retries: 2,
+      backoffMs: 0,
+    });
+
+    expect(summary.failures).toEqual([
+      { agentId: 'a0', attempts: 3, error: 'down', timedOut: false, outcome: 'penalized' },
+    ]);
+  });
+});
+
+describe('evaluation pool - failure policy', () => {
+  it('should requeue failed agents behind the rest', async () => {
+    const order: string[] = [];
+    const { evaluated, summary } = await runEvaluationPool(
+      agents(3),
+      agent => {
+        order.push(agent.id);
+        return agent.id === 'a0' && order.length === 1 ? Promise.reject(new Error('busy')) : Promise.resolve();
+      },
+      { concurrency: 1, onFailure: 'requeue' }
+    );
+
+    expect(order).toEqual(['a0', 'a1', 'a2', 'a0']);
+    expect(summary.requeued).toBe(1);
+    expect(evaluated.map(a => a.id)).toEqual(['a0', 'a1', 'a2']);
+  });
+
+  it('should fall back to penalizing after the requeue limit', async () => {
+    const { failed, summary } = await runEvaluationPool(agents(1), () => Promise.reject(new Error('down')), {
+      onFailure: 'requeue',
+      requeueLimit: 2,
+    });
+
+    expect(failed).toHaveLength(1);
+    expect(summary.requeued).toBe(2);
+    expect(summary.failures[0]).toMatchObject({ attempts: 3, outcome: 'penalized' });
+  });
+
+  it('should mark failures as dropped under the drop policy', async () => {
+    const { summary } = await runEvaluationPool(agents(1), () => Promise.reject(new Error('down')), {
+      onFailure: 'drop',
+    });
+    expect(summary.failures[0].outcome).toBe('dropped');
+  });
+});
+
+describe('evaluation pool - penalty', () => {
+  it('should take the worst value of each objective', () => {
+    const specs = DEFAULT_OBJECTIVES.slice(0, 2); // gain (max), latency (min)
+    const penalty = penaltyObjectives(
+      [{ values: [0.8, 40], timestamp: 0 }, { values: [0.3, 90], timestamp: 0 }],
+      specs,
+      7
+    );
+
+    expect(penalty).toEqual({ values: [0.3, 90], timestamp: 7 });
+  });
+
+  it('should require at least one evaluation', () => {
+    expect(() => penaltyObjectives([], DEFAULT_OBJECTIVES)).toThrow('No successful evaluations');
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Evaluation Pool
+ *
+ * Runs a population's evaluations with a bounded number in flight, a
+ * per-attempt timeout and retries with exponential backoff. Agents whose
+ * evaluation keeps failing are reported rather than failing the run; the
+ * loop then applies the failure policy:
+ * - penalize: keep the agent with the generation's worst objective values, failing the gate
+ * - drop: remove the agent from the generation
+ * - requeue: put the agent back at the end of the queue for another round, then penalize
+ */
+
+import type { MetaAgent } from '../agents-runtime/agent';
+import { ObjectiveSpec, ObjectiveVector } from '../laws-physics/objectives';
+
+export type EvaluationFailurePolicy = 'penalize' | 'drop' | 'requeue';
+
+export interface EvaluationPoolOptions {
+  /** Most evaluations in flight (default 16) */
+  concurrency?: number;
+
+  /** Per-attempt timeout in ms (default none) */
+  timeoutMs?: number;
+
+  /** Extra attempts after a failure (default 0) */
+  retries?: number;
+
+  /** Delay before the first retry, doubling per retry (default 100) */
+  backoffMs?: number;
+
+  /** Cap on the retry delay (default 10000) */
+  maxBackoffMs?: number;
+
+  /** What happens to agents that exhausted their retries (default 'penalize') */
+  onFailure?: EvaluationFailurePolicy;
+
+  /** Extra rounds for 'requeue' before falling back to penalize (default 1) */
+  requeueLimit?: number;
+}
+
+/**
+ * An agent whose evaluation failed for good.
+ */
+export interface EvaluationFailure {
+  agentId: string;
+
+  /** Attempts made over all rounds */
+  attempts: number;
+
+  /** Last error message */
+  error: string;
+
+  /** Whether the last attempt timed out */
+  timedOut: boolean;
+
+  /** Policy applied after the pool gave up */
+  outcome: 'penalized' | 'dropped';
+}
+
+/**
+ * Per-generation evaluation summary, reported in GenerationStats.
+ */
+export interface EvaluationSummary {
+  /** Agents evaluated successfully */
+  evaluated: number;
+  failures: EvaluationFailure[];
+  /** Retry attempts made */
+  retries: number;
+  /** Attempts that hit the timeout */
+  timeouts: number;
+  /** Agents sent back to the queue */
+  requeued: number;
+}
+
+/**
+ * Raised when an attempt exceeds its timeout.
+ */
+export class EvaluationTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Evaluation timed out after ${timeoutMs}ms`);
+    this.name = 'EvaluationTimeoutError';
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run one attempt, rejecting with EvaluationTimeoutError after `timeoutMs`.
+ * The attempt's signal is aborted on timeout so cooperative evaluators can stop.
+ */
+async function attempt(
+  run: (signal: AbortSignal) => Promise<void>,
+  timeoutMs?: number
+): Promise<void> {
+  const controller = new AbortController();
+  if (timeoutMs === undefined) return run(controller.signal);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new EvaluationTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Evaluate agents through the pool. Never rejects because of an evaluation;
+ * failed agents are returned with the policy to apply (penalize or drop).
+ * `evaluated` keeps population order.
+ */
+export async function runEvaluationPool(
+  agents: MetaAgent[],
+  evaluate: (agent: MetaAgent, signal: AbortSignal) => Promise<void>,
+  options: EvaluationPoolOptions = {}
+): Promise<{ evaluated: MetaAgent[]; failed: MetaAgent[]; summary: EvaluationSummary }> {
+  const concurrency = Math.max(1, options.concurrency ?? 16);
+  const retries = Math.max(0, options.retries ?? 0);
+  const backoffMs = options.backoffMs ?? 100;
+  const maxBackoffMs = options.maxBackoffMs ?? 10000;
+  const policy = options.onFailure ?? 'penalize';
+  const requeueLimit = policy === 'requeue' ? Math.max(0, options.requeueLimit ?? 1) : 0;
+
+  const summary: EvaluationSummary = { evaluated: 0, failures: [], retries: 0, timeouts: 0, requeued: 0 };
+  const succeeded = new Set<MetaAgent>();
+  const failed = new Set<MetaAgent>();
+  const attempts = new Map<MetaAgent, number>();
+  const queue = agents.map(agent => ({ agent, round: 0 }));
+
+  const worker = async () => {
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      const { agent, round } = item;
+      let lastError: Error | undefined;
+
+      for (let i = 0; i <= retries; i++) {
+        if (i > 0) {
+          summary.retries++;
+          await sleep(Math.min(backoffMs * 2 ** (i - 1), maxBackoffMs));
+        }
+        attempts.set(agent, (attempts.get(agent) ?? 0) + 1);
+        try {
+          await attempt(signal => evaluate(agent, signal), options.timeoutMs);
+          lastError = undefined;
+          break;
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error(String(error));
+          if (error instanceof EvaluationTimeoutError) summary.timeouts++;
+        }
+      }
+
+      if (lastError === undefined) {
+        succeeded.add(agent);
+      } else if (round < requeueLimit) {
+        summary.requeued++;
+        queue.push({ agent, round: round + 1 });
+      } else {
+        failed.add(agent);
+        summary.failures.push({
+          agentId: agent.id,
+          attempts: attempts.get(agent) ?? 0,
+          error: lastError.message,
+          timedOut: lastError instanceof EvaluationTimeoutError,
+          outcome: policy === 'drop' ? 'dropped' : 'penalized',
+        });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, agents.length) }, worker));
+
+  summary.evaluated = succeeded.size;
+  return {
+    evaluated: agents.filter(a => succeeded.has(a)),
+    failed: agents.filter(a => failed.has(a)),
+    summary,
+  };
+}
+
+/**
+ * Penalty vector for agents whose evaluation failed: the worst value of each
+ * objective among the successfully evaluated vectors.
+ */
+export function penaltyObjectives(
+  evaluated: ObjectiveVector[],
+  specs: ObjectiveSpec[],
+  timestamp = Date.now()
+): ObjectiveVector {
+  if (evaluated.length === 0) {
+    throw new Error('No successful evaluations to derive a penalty from');
+  }
+  return {
+    values: specs.map((spec, i) => {
+      const column = evaluated.map(v => v.values[i]);
+      return spec.sense === 'max' ? Math.min(...column) : Math.max(...column);
+    }),
+    timestamp,
+  };
+}
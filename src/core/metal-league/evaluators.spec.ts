@@ -0,0 +1,222 @@
+/**
+ * SPEC TEST: evaluators.spec.ts
+ * Paired with evaluators.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  simulationEvaluator,
+  backtestEvaluator,
+  taskSuiteEvaluator,
+  composeEvaluators,
+  perObjectiveEvaluator,
+  cachedEvaluator,
+  agentContentHash,
+  repeatedEvaluator,
+  objectiveSamples,
+  OBJECTIVE_SAMPLES_KEY,
+  type Evaluator,
+} from './evaluators';
+import { createAgent, cloneAgent, addFact, addTool } from '../agents-runtime/agent';
+import { DEFAULT_OBJECTIVES } from '../laws-physics/objectives';
+
+const context = { objectives: DEFAULT_OBJECTIVES };
+
+function constant(name: string, record: Record<string, number>): Evaluator {
+  return { name, evaluate: () => Promise.resolve(record) };
+}
+
+describe('evaluators - simulation', () => {
+  it('should provide every default objective', async () => {
+    const record = await simulationEvaluator(0).evaluate(createAgent('a', 'tutor'), context);
+    expect(Object.keys(record).sort()).toEqual(DEFAULT_OBJECTIVES.map(o => o.name).sort());
+  });
+
+  it('should reward knowledge', async () => {
+    const agent = createAgent('a', 'tutor');
+    const before = await simulationEvaluator(0).evaluate(agent, context);
+    addFact(agent, 'x');
+    const after = await simulationEvaluator(0).evaluate(agent, context);
+
+    expect(after.gain).toBeGreaterThan(before.gain);
+    expect(after.latency).toBeGreaterThan(before.latency);
+  });
+});
+
+describe('evaluators - backtest', () => {
+  it('should aggregate each objective across scenarios', async () => {
+    const backtest = backtestEvaluator({
+      scenarios: [1, 2, 3],
+      run: (_, s) => ({ gain: s, latency: s * 10 }),
+      aggregation: { latency: 'max' },
+    });
+    const record = await backtest.evaluate(createAgent('a', 'tutor'), context);
+
+    expect(record).toEqual({ gain: 2, latency: 30 });
+  });
+
+  it('should drop objectives missing from some scenario', async () => {
+    const backtest = backtestEvaluator<number>({
+      scenarios: [1, 2],
+      run: (_, s): Record<string, number> => (s === 1 ? { gain: 1, cost: 1 } : { gain: 3 }),
+    });
+    expect(await backtest.evaluate(createAgent('a', 'tutor'), context)).toEqual({ gain: 2 });
+  });
+
+  it('should require scenarios', () => {
+    expect(() => backtestEvaluator({ scenarios: [], run: () => ({}) })).toThrow('at least one scenario');
+  });
+});
+
+describe('evaluators - task suite', () => {
+  it('should map suite metrics onto objectives', async () => {
+    const suite = taskSuiteEvaluator([
+      { name: 'easy', run: () => ({ passed: true, latency: 10, cost: 1 }) },
+      { name: 'hard', weight: 3, run: () => ({ passed: false, score: 0.5, latency: 30, cost: 2 }) },
+    ]);
+    const record = await suite.evaluate(createAgent('a', 'tutor'), context);
+
+    // (1 * 1 + 3 * 0.5) / 4
+    expect(record.gain).toBeCloseTo(0.625);
+    expect(record.latency).toBe(20);
+    expect(record.cost).toBe(3);
+  });
+
+  it('should count throwing tasks as failed', async () => {
+    const suite = taskSuiteEvaluator(
+      [
+        { name: 'ok', run: () => ({ passed: true }) },
+        { name: 'boom', run: () => { throw new Error('boom'); } },
+      ],
+      { mapping: { engagement: 'passRate' } }
+    );
+    expect(await suite.evaluate(createAgent('a', 'tutor'), context)).toEqual({ engagement: 0.5 });
+  });
+});
+
+describe('evaluators - composition', () => {
+  const sim = constant('sim', { gain: 0.1, latency: 50, cost: 1 });
+  const live = constant('live', { gain: 0.9, latency: 70 });
+
+  it('should let later evaluators win by default', async () => {
+    const record = await composeEvaluators([sim, live]).evaluate(createAgent('a', 'tutor'), context);
+    expect(record).toEqual({ gain: 0.9, latency: 70, cost: 1 });
+  });
+
+  it('should route objectives to named evaluators', async () => {
+    const composed = composeEvaluators([sim, live], { latency: 'sim' });
+    expect(composed.name).toBe('sim+live');
+    expect((await composed.evaluate(createAgent('a', 'tutor'), context)).latency).toBe(50);
+  });
+
+  it('should reject unknown routes and duplicate names', () => {
+    expect(() => composeEvaluators([sim], { gain: 'live' })).toThrow('Unknown evaluator for gain: live');
+    expect(() => composeEvaluators([sim, sim])).toThrow('Duplicate evaluator name');
+  });
+
+  it('should fail when a routed evaluator lacks the objective', async () => {
+    await expect(composeEvaluators([sim, live], { cost: 'live' }).evaluate(createAgent('a', 'tutor'), context))
+      .rejects.toThrow('live did not provide cost');
+  });
+
+  it('should run shared per-objective evaluators once', async () => {
+    let calls = 0;
+    const probe: Evaluator = {
+      name: 'probe',
+      evaluate: () => {
+        calls++;
+        return Promise.resolve({ latency: 5, cost: 2, gain: 0 });
+      },
+    };
+    const evaluator = perObjectiveEvaluator({ gain: live, latency: probe, cost: probe });
+    const record = await evaluator.evaluate(createAgent('a', 'tutor'), context);
+
+    expect(record).toEqual({ gain: 0.9, latency: 5, cost: 2 });
+    expect(calls).toBe(1);
+  });
+});
+
+describe('evaluators - caching', () => {
+  it('should hash content, not identity', async () => {
+    const agent = createAgent('a', 'tutor');
+    const clone = cloneAgent(agent, 'b');
+    expect(await agentContentHash(clone)).toBe(await agentContentHash(agent));
+
+    addTool(clone, { name: 'search', cost: 1 });
+    expect(await agentContentHash(clone)).not.toBe(await agentContentHash(agent));
+  });
+
+  it('should skip unchanged agents', async () => {
+    let calls = 0;
+    const counting: Evaluator = {
+      name: 'counting',
+      evaluate: () => Promise.resolve({ gain: ++calls }),
+    };
+    const cached = cachedEvaluator(counting);
+    const agent = createAgent('a', 'tutor');
+
+    expect(await cached.evaluate(agent, context)).toEqual({ gain: 1 });
+    expect(await cached.evaluate(cloneAgent(agent, 'b'), context)).toEqual({ gain: 1 });
+    addFact(agent, 'new');
+    expect(await cached.evaluate(agent, context)).toEqual({ gain: 2 });
+    expect(cached.stats()).toEqual({ hits: 1, misses: 2, size: 2 });
+  });
+
+  it('should evict the oldest entries beyond the bound', async () => {
+    const cached = cachedEvaluator(constant('c', { gain: 1 }), { maxEntries: 1 });
+    const a = createAgent('a', 'tutor');
+    const b = createAgent('b', 'student');
+
+    await cached.evaluate(a, context);
+    await cached.evaluate(b, context);
+    await cached.evaluate(a, context);
+
+    expect(cached.stats()).toEqual({ hits: 0, misses: 3, size: 1 });
+  });
+});
+
+describe('evaluators - repeats', () => {
+  const objectives = [{ name: 'gain', sense: 'max' as const }, { name: 'cost', sense: 'min' as const }];
+
+  it('should average repeated evaluations and record the samples', async () => {
+    let calls = 0;
+    const noisy: Evaluator = {
+      name: 'noisy',
+      evaluate: () => Promise.resolve({ gain: ++calls, cost: 5 }),
+    };
+    const agent = createAgent('a', 'tutor', 4, objectives);
+
+    expect(await repeatedEvaluator(noisy, 3).evaluate(agent, { objectives })).toEqual({ gain: 2, cost: 5 });
+    agent.objectives.values = [2, 5];
+    expect(objectiveSamples(agent)).toEqual([[1, 5], [2, 5], [3, 5]]);
+  });
+
+  it('should not leak samples into clones sharing metadata', async () => {
+    const agent = createAgent('a', 'tutor', 4, objectives);
+    const clone = cloneAgent(agent, 'b');
+    await repeatedEvaluator(constant('c', { gain: 1, cost: 1 }), 2).evaluate(clone, { objectives });
+
+    expect(objectiveSamples(agent)).toEqual([agent.objectives.values]);
+    expect(() => repeatedEvaluator(constant('c', {}), 0)).toThrow('positive integer');
+  });
+
+  it('should stop repeating and keep the samples once the attempt is abandoned', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const slow: Evaluator = {
+      name: 'slow',
+      evaluate: () => {
+        calls++;
+        controller.abort();
+        return Promise.resolve({ gain: 9, cost: 9 });
+      },
+    };
+    const agent = createAgent('a', 'tutor', 4, objectives);
+    agent.metadata = { [OBJECTIVE_SAMPLES_KEY]: [[1, 1]] };
+
+    await expect(repeatedEvaluator(slow, 3).evaluate(agent, { objectives, signal: controller.signal }))
+      .rejects.toThrow('aborted');
+    expect(calls).toBe(1);
+    expect(agent.metadata[OBJECTIVE_SAMPLES_KEY]).toEqual([[1, 1]]);
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * Fitness Evaluators
+ *
+ * An Evaluator turns an agent into objective values by name. The loop
+ * writes them into the agent's objective vector through the registry, so an
+ * evaluator only has to know objective names, not their order.
+ *
+ * - simulationEvaluator: the built-in simulation over agent state
+ * - backtestEvaluator: replays the agent over historical scenarios
+ * - taskSuiteEvaluator: runs the agent on a suite of tasks
+ * - composeEvaluators: several named evaluators, routed per objective
+ * - cachedEvaluator: skips agents whose content was already evaluated
+ * - repeatedEvaluator: averages repeated evaluations and keeps the samples
+ */
+
+import xxhash from 'xxhash-wasm';
+import type { MetaAgent } from '../agents-runtime/agent';
+import { ObjectiveSpec } from '../laws-physics/objectives';
+
+/**
+ * Objective values by objective name.
+ */
+export type ObjectiveRecord = Record<string, number>;
+
+/**
+ * What an evaluator is asked for.
+ */
+export interface EvaluationContext {
+  /** Objective set of the run; evaluators may return more, extra names are ignored */
+  objectives: ObjectiveSpec[];
+
+  /** Aborted when the evaluation pool gives up on this attempt (timeout) */
+  signal?: AbortSignal;
+}
+
+export interface Evaluator {
+  /** Unique name, used for routing and recorded in checkpoints */
+  name: string;
+
+  evaluate(agent: MetaAgent, context: EvaluationContext): Promise<ObjectiveRecord>;
+}
+
+/**
+ * Name of the default evaluator.
+ */
+export const SIMULATION_EVALUATOR_NAME = 'simulation';
+
+/**
+ * Simulated evaluation derived from agent state (the original built-in fitness).
+ * `delayMs` stands in for the latency of a real evaluation.
+ */
+export function simulationEvaluator(delayMs = 1): Evaluator {
+  return {
+    name: SIMULATION_EVALUATOR_NAME,
+    evaluate: async agent => {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+
+      // Derive objectives from agent's current state
+      const stateNorm = Math.sqrt(
+        agent.perception.state.reduce((sum, z) => sum + z.re * z.re + z.im * z.im, 0)
+      );
+
+      const toolCost = agent.coordination.tools.reduce((sum, t) => sum + t.cost, 0);
+      const knowledgeSize = agent.reasoning.knowledge.length;
+
+      return {
+        // gain: more knowledge + normalized state (baseline 0.2 to pass proof gate)
+        gain: Math.min(1.0, 0.2 + knowledgeSize * 0.1 + Math.abs(1.0 - stateNorm) * 0.2),
+        // latency: inverse of complexity
+        latency: 50 + knowledgeSize * 10 + toolCost * 5,
+        // engagement: based on decision history
+        engagement: Math.min(1.0, agent.coordination.decisions.length * 0.1),
+        // fairness: balanced tool usage
+        fairness: toolCost > 0 ? Math.min(1.0, 1.0 / (1.0 + Math.abs(toolCost - 1.0))) : 0.5,
+        // privacy loss: uncertainty as proxy
+        privacyLoss: agent.perception.uncertainty,
+        // cost: direct tool cost + knowledge maintenance
+        cost: toolCost + knowledgeSize * 0.1,
+      };
+    },
+  };
+}
+
+/**
+ * How per-scenario values are folded into one value per objective.
+ */
+export type Aggregation = 'mean' | 'min' | 'max' | ((values: number[]) => number);
+
+function aggregate(values: number[], how: Aggregation): number {
+  if (typeof how === 'function') return how(values);
+  switch (how) {
+    case 'mean':
+      return values.reduce((s, v) => s + v, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+  }
+}
+
+export interface BacktestOptions<S> {
+  name?: string;
+
+  /** Historical scenarios (e.g. market windows) to replay */
+  scenarios: S[];
+
+  /** Run the agent on one scenario and measure it */
+  run: (agent: MetaAgent, scenario: S) => Promise<ObjectiveRecord> | ObjectiveRecord;
+
+  /** Fold per-scenario values, per objective name or for all (default 'mean') */
+  aggregation?: Aggregation | Record<string, Aggregation>;
+}
+
+/**
+ * Backtest evaluator: replays the agent over every scenario and aggregates
+ * each objective across them. Objectives missing from any scenario are dropped.
+ */
+export function backtestEvaluator<S>(options: BacktestOptions<S>): Evaluator {
+  if (options.scenarios.length === 0) {
+    throw new Error('Backtest requires at least one scenario');
+  }
+
+  const aggregationFor = (name: string): Aggregation => {
+    const aggregation = options.aggregation ?? 'mean';
+    return typeof aggregation === 'object' ? aggregation[name] ?? 'mean' : aggregation;
+  };
+
+  return {
+    name: options.name ?? 'backtest',
+    evaluate: async agent => {
+      const runs = await Promise.all(options.scenarios.map(s => Promise.resolve(options.run(agent, s))));
+      const names = Object.keys(runs[0]).filter(name => runs.every(r => name in r));
+
+      return Object.fromEntries(
+        names.map(name => [name, aggregate(runs.map(r => r[name]), aggregationFor(name))])
+      );
+    },
+  };
+}
+
+/**
+ * Outcome of one task.
+ */
+export interface TaskResult {
+  passed: boolean;
+
+  /** Quality in [0, 1]; defaults to 1 if passed, else 0 */
+  score?: number;
+
+  latency?: number;
+  cost?: number;
+}
+
+export interface Task {
+  name: string;
+
+  /** Relative importance in the suite score (default 1) */
+  weight?: number;
+
+  run(agent: MetaAgent): Promise<TaskResult> | TaskResult;
+}
+
+/**
+ * Summary metrics of a task suite run.
+ * - passRate: fraction of tasks passed
+ * - score: weighted mean task score
+ * - latency: mean task latency
+ * - cost: total task cost
+ */
+export type TaskSuiteMetric = 'passRate' | 'score' | 'latency' | 'cost';
+
+/**
+ * Default mapping from objective name to suite metric.
+ */
+export const DEFAULT_TASK_SUITE_MAPPING: Record<string, TaskSuiteMetric> = {
+  gain: 'score',
+  latency: 'latency',
+  cost: 'cost',
+};
+
+export interface TaskSuiteOptions {
+  name?: string;
+
+  /** Which suite metric feeds which objective */
+  mapping?: Record<string, TaskSuiteMetric>;
+}
+
+/**
+ * Task-suite evaluator: runs every task and maps the suite metrics onto objectives.
+ * A task that throws counts as failed with score 0.
+ */
+export function taskSuiteEvaluator(tasks: Task[], options: TaskSuiteOptions = {}): Evaluator {
+  if (tasks.length === 0) {
+    throw new Error('Task suite requires at least one task');
+  }
+  const mapping = options.mapping ?? DEFAULT_TASK_SUITE_MAPPING;
+
+  return {
+    name: options.name ?? 'task-suite',
+    evaluate: async agent => {
+      const results = await Promise.all(
+        tasks.map(async task => {
+          try {
+            return await task.run(agent);
+          } catch {
+            return { passed: false, score: 0 };
+          }
+        })
+      );
+
+      const weights = tasks.map(t => t.weight ?? 1);
+      const totalWeight = weights.reduce((s, w) => s + w, 0);
+      const metrics: Record<TaskSuiteMetric, number> = {
+        passRate: results.filter(r => r.passed).length / results.length,
+        score: results.reduce((s, r, i) => s + weights[i] * (r.score ?? (r.passed ? 1 : 0)), 0) /
+          (totalWeight > 0 ? totalWeight : 1),
+        latency: results.reduce((s, r) => s + (r.latency ?? 0), 0) / results.length,
+        cost: results.reduce((s, r) => s + (r.cost ?? 0), 0),
+      };
+
+      return Object.fromEntries(Object.entries(mapping).map(([objective, metric]) => [objective, metrics[metric]]));
+    },
+  };
+}
+
+/**
+ * Run several named evaluators on each agent and merge their values.
+ * `routes` picks the evaluator for an objective by name; unrouted objectives
+ * take the value of the last evaluator that provides them.
+ * Example: composeEvaluators([simulationEvaluator(), backtest], { gain: 'backtest' })
+ */
+export function composeEvaluators(
+  evaluators: Evaluator[],
+  routes: Record<string, string> = {},
+  name = evaluators.map(e => e.name).join('+')
+): Evaluator {
+  const byName = new Map(evaluators.map(e => [e.name, e]));
+  if (byName.size !== evaluators.length) {
+    throw new Error('Duplicate evaluator name');
+  }
+  for (const [objective, evaluator] of Object.entries(routes)) {
+    if (!byName.has(evaluator)) {
+      throw new Error(`Unknown evaluator for ${objective}: ${evaluator}`);
+    }
+  }
+
+  return {
+    name,
+    evaluate: async (agent, context) => {
+      const records = await Promise.all(evaluators.map(e => e.evaluate(agent, context)));
+      const merged: ObjectiveRecord = Object.assign({}, ...records) as ObjectiveRecord;
+
+      for (const [objective, evaluator] of Object.entries(routes)) {
+        const record = records[evaluators.findIndex(e => e.name === evaluator)];
+        if (!(objective in record)) {
+          throw new Error(`Evaluator ${evaluator} did not provide ${objective}`);
+        }
+        merged[objective] = record[objective];
+      }
+      return merged;
+    },
+  };
+}
+
+/**
+ * Per-objective evaluators: each objective comes from its own evaluator,
+ * which is run once per agent however many objectives it serves.
+ * Example: perObjectiveEvaluator({ gain: backtest, latency: probe, cost: probe })
+ */
+export function perObjectiveEvaluator(assignments: Record<string, Evaluator>): Evaluator {
+  const evaluators = [...new Set(Object.values(assignments))];
+  const routes = Object.fromEntries(Object.entries(assignments).map(([objective, e]) => [objective, e.name]));
+  const compose = composeEvaluators(evaluators, routes);
+
+  return {
+    name: compose.name,
+    evaluate: async (agent, context) => {
+      const record = await compose.evaluate(agent, context);
+      return Object.fromEntries(Object.keys(assignments).map(objective => [objective, record[objective]]));
+    },
+  };
+}
+
+/**
+ * JSON with object keys sorted, so equal content always serializes equally.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Content hash of everything an evaluator can see: kind and the three layers.
+ * Identity, timestamps, lineage, proofs, metadata and current objectives are
+ * excluded, so clones and survivors hash equal to their unchanged originals.
+ */
+export async function agentContentHash(agent: MetaAgent): Promise<string> {
+  const xx = await xxhash();
+  return xx.h64ToString(canonicalJson({
+    kind: agent.kind,
+    state: agent.perception.state,
+    uncertainty: agent.perception.uncertainty,
+    reasoning: agent.reasoning,
+    tools: agent.coordination.tools,
+    memory: agent.coordination.memory.map(({ key, value, ttl }) => ({ key, value, ttl })),
+    decisions: agent.coordination.decisions,
+    partners: agent.coordination.partners,
+  }));
+}
+
+export interface CachedEvaluator extends Evaluator {
+  /** Cache hits and misses so far */
+  stats(): { hits: number; misses: number; size: number };
+
+  clear(): void;
+}
+
+export interface CacheOptions {
+  /** Content hash (defaults to agentContentHash) */
+  hash?: (agent: MetaAgent) => Promise<string> | string;
+
+  /** Most entries kept; the oldest are evicted first (default unbounded) */
+  maxEntries?: number;
+}
+
+/**
+ * Cache an evaluator's results by agent content hash, so unchanged agents
+ * (survivors, unmutated clones) are not evaluated again.
+ * Only valid for evaluators that are deterministic in the agent's content.
+ */
+export function cachedEvaluator(evaluator: Evaluator, options: CacheOptions = {}): CachedEvaluator {
+  const hash = options.hash ?? agentContentHash;
+  const cache = new Map<string, ObjectiveRecord>();
+  let hits = 0;
+  let misses = 0;
+
+  return {
+    name: evaluator.name,
+    evaluate: async (agent, context) => {
+      const key = `${context.objectives.map(o => o.name).join(',')}|${await hash(agent)}`;
+      const cached = cache.get(key);
+      if (cached) {
+        hits++;
+        return { ...cached };
+      }
+
+      misses++;
+      const record = await evaluator.evaluate(agent, context);
+      cache.set(key, { ...record });
+      if (options.maxEntries !== undefined && cache.size > options.maxEntries) {
+        cache.delete(cache.keys().next().value!);
+      }
+      return record;
+    },
+    stats: () => ({ hits, misses, size: cache.size }),
+    clear: () => {
+      cache.clear();
+      hits = 0;
+      misses = 0;
+    },
+  };
+}
+
+/**
+ * Metadata key of an agent's per-evaluation objective samples (one vector
+ * per repeat, in objective order), written by repeatedEvaluator.
+ */
+export const OBJECTIVE_SAMPLES_KEY = 'objectiveSamples';
+
+/**
+ * Evaluate each agent `repeats` times and report the mean of every objective.
+ * The samples are recorded on the agent (metadata, OBJECTIVE_SAMPLES_KEY) so
+ * the parent gate can test differences for significance. Wrap this evaluator
+ * in a cache, not the other way round, or the repeats return the same record.
+ */
+export function repeatedEvaluator(evaluator: Evaluator, repeats: number): Evaluator {
+  if (!Number.isInteger(repeats) || repeats < 1) {
+    throw new Error(`Evaluation repeats must be a positive integer, got ${repeats}`);
+  }
+
+  return {
+    name: evaluator.name,
+    evaluate: async (agent, context) => {
+      // An abandoned (timed-out) attempt must neither keep sampling nor overwrite the retry's samples
+      const abandoned = () => {
+        if (context.signal?.aborted) throw new Error(`Evaluation of ${agent.id} was aborted`);
+      };
+      const records: ObjectiveRecord[] = [];
+      for (let i = 0; i < repeats; i++) {
+        abandoned();
+        records.push(await evaluator.evaluate(agent, context));
+      }
+      abandoned();
+
+      const samples = records.map(record => context.objectives.map(o => record[o.name]));
+      // Replaced, not mutated: clones share their parent's metadata object
+      agent.metadata = { ...agent.metadata, [OBJECTIVE_SAMPLES_KEY]: samples };
+
+      return Object.fromEntries(
+        Object.keys(records[0]).map(name => [name, records.reduce((sum, r) => sum + r[name], 0) / repeats])
+      );
+    },
+  };
+}
+
+/**
+ * Objective samples of an agent: those recorded by repeatedEvaluator when
+ * they match its objective vector's length, otherwise its single vector.
+ */
+export function objectiveSamples(agent: MetaAgent): number[][] {
+  const samples = agent.metadata[OBJECTIVE_SAMPLES_KEY];
+  if (Array.isArray(samples) && samples.every(s => Array.isArray(s) && s.length === agent.objectives.values.length)) {
+    return samples as number[][];
+  }
+  return [agent.objectives.values];
+}
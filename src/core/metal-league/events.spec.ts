@@ -0,0 +1,114 @@
+/**
+ * SPEC TEST: events.spec.ts
+ * Paired with events.ts
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createEvolutionRun, consoleReporter, type EvolutionEvent, type EvolutionListener } from './events';
+import type { EvolutionResult } from './evolution';
+
+const result: EvolutionResult = {
+  finalPopulation: [],
+  paretoFront: [],
+  stats: [],
+  elapsedMs: 0,
+  finalEvaluation: { evaluated: 0, failures: [], retries: 0, timeouts: 0, requeued: 0 },
+  stopReason: { criterion: 'generations', message: 'Ran all 2 generations', generation: 1 },
+  objectives: [],
+};
+
+function event(type: 'run:start' | 'run:end'): EvolutionEvent {
+  return type === 'run:start'
+    ? { type, runId: 'r', timestamp: 0, generation: 0, generations: 2, populationSize: 4, resumed: false }
+    : {
+      type,
+      runId: 'r',
+      timestamp: 0,
+      elapsedMs: 5,
+      finalPopulationSize: 4,
+      paretoFrontSize: 2,
+      stopReason: result.stopReason,
+    };
+}
+
+/** Emits run:start, yields to the event loop, then emits run:end */
+async function twoEvents(emit: EvolutionListener): Promise<EvolutionResult> {
+  emit(event('run:start'));
+  await new Promise(resolve => setTimeout(resolve, 1));
+  emit(event('run:end'));
+  return result;
+}
+
+describe('events - evolution run', () => {
+  it('should deliver events to listeners, hooks and subscribers', async () => {
+    const seen: string[] = [];
+    const run = createEvolutionRun(twoEvents, [e => seen.push(`listener:${e.type}`)]);
+    run.on('run:end', e => seen.push(`hook:${e.paretoFrontSize}`));
+    run.subscribe(e => seen.push(`subscriber:${e.type}`));
+
+    expect(await run.result).toBe(result);
+    expect(seen).toEqual([
+      'listener:run:start',
+      'subscriber:run:start',
+      'listener:run:end',
+      'hook:2',
+      'subscriber:run:end',
+    ]);
+  });
+
+  it('should stop calling unsubscribed hooks', async () => {
+    const hook = vi.fn();
+    const run = createEvolutionRun(twoEvents);
+    const off = run.on('run:start', hook);
+    off();
+
+    await run.result;
+    expect(hook).not.toHaveBeenCalled();
+  });
+
+  it('should iterate every event and end with the run', async () => {
+    const types: string[] = [];
+    for await (const e of createEvolutionRun(twoEvents)) types.push(e.type);
+
+    expect(types).toEqual(['run:start', 'run:end']);
+  });
+
+  it('should rethrow the run error from the iterator', async () => {
+    const run = createEvolutionRun(() => Promise.reject(new Error('boom')));
+    const iterate = async () => {
+      for await (const _ of run) { /* drain */ }
+    };
+
+    await expect(iterate()).rejects.toThrow('boom');
+    await expect(run.result).rejects.toThrow('boom');
+  });
+
+  it('should fail the run when a listener throws', async () => {
+    const run = createEvolutionRun(twoEvents, [() => { throw new Error('listener'); }]);
+    await expect(run.result).rejects.toThrow('listener');
+  });
+});
+
+describe('events - console reporter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should print generation progress but not the final gate', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const report = consoleReporter();
+
+    report(event('run:start'));
+    report({ type: 'gate', runId: 'r', timestamp: 0, generation: 1, passed: [], failed: ['a'] });
+    report({ type: 'gate', runId: 'r', timestamp: 0, generation: 2, passed: ['a'], failed: [] });
+    report(event('run:end'));
+
+    expect(log.mock.calls.map(c => String(c[0]))).toEqual([
+      '   Proof gate: 0 passed, 1 failed',
+      '\n✅ Evolution complete in 5ms',
+      '   Final Pareto front: 2 agents',
+    ]);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
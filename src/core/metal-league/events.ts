@@ -0,0 +1,255 @@
+/**
+ * Evolution Events
+ *
+ * A run reports its progress as typed events instead of printing. Listeners
+ * receive every event synchronously as it happens; an EvolutionRun adds
+ * per-type hooks and async iteration on top. The console reporter is just one
+ * listener (the default when a config names none).
+ */
+
+import type { EvaluationFailure } from './evaluation-pool';
+import type { EvolutionResult, GenerationStats } from './evolution';
+import type { StopReason } from './termination';
+
+interface EventBase {
+  runId: string;
+  timestamp: number;
+}
+
+export interface RunStartEvent extends EventBase {
+  type: 'run:start';
+  /** First generation to run; above 0 for resumed runs */
+  generation: number;
+  generations: number;
+  populationSize: number;
+  seed?: number;
+  resumed: boolean;
+}
+
+export interface GenerationStartEvent extends EventBase {
+  type: 'generation:start';
+  generation: number;
+  generations: number;
+  populationSize: number;
+}
+
+/**
+ * An agent was evaluated successfully. Emitted in population order once the
+ * whole population is evaluated; the final evaluation uses generation = generations.
+ */
+export interface EvaluationEvent extends EventBase {
+  type: 'evaluation';
+  generation: number;
+  agentId: string;
+  objectives: number[];
+}
+
+export interface EvaluationFailureEvent extends EventBase {
+  type: 'evaluation:failure';
+  generation: number;
+  failure: EvaluationFailure;
+}
+
+export interface GateEvent extends EventBase {
+  type: 'gate';
+  generation: number;
+  passed: string[];
+  failed: string[];
+}
+
+export interface SelectionEvent extends EventBase {
+  type: 'selection';
+  generation: number;
+  algorithm: 'nsga2' | 'nsga3';
+  survivors: string[];
+}
+
+/**
+ * An agent joined the population. `generation` is the one it enters.
+ */
+export interface BirthEvent extends EventBase {
+  type: 'birth';
+  generation: number;
+  agentId: string;
+  parents: string[];
+  operator: 'init' | 'crossover' | 'clone' | 'migration';
+  /** Mutation operators applied to an offspring */
+  mutations?: string[];
+}
+
+/**
+ * An agent left the population: not selected, dropped after a failed
+ * evaluation, failing the gate in the last generation, or replaced by a migrant.
+ */
+export interface DeathEvent extends EventBase {
+  type: 'death';
+  generation: number;
+  agentId: string;
+  reason: 'selection' | 'dropped' | 'gate' | 'migration';
+}
+
+export interface GenerationEndEvent extends EventBase {
+  type: 'generation:end';
+  generation: number;
+  stats: GenerationStats;
+}
+
+export interface CheckpointEvent extends EventBase {
+  type: 'checkpoint';
+  /** Generation the checkpoint resumes at */
+  generation: number;
+}
+
+export interface RunEndEvent extends EventBase {
+  type: 'run:end';
+  elapsedMs: number;
+  finalPopulationSize: number;
+  paretoFrontSize: number;
+  stopReason: StopReason;
+}
+
+export type EvolutionEvent =
+  | RunStartEvent
+  | GenerationStartEvent
+  | EvaluationEvent
+  | EvaluationFailureEvent
+  | GateEvent
+  | SelectionEvent
+  | BirthEvent
+  | DeathEvent
+  | GenerationEndEvent
+  | CheckpointEvent
+  | RunEndEvent;
+
+export type EvolutionEventType = EvolutionEvent['type'];
+
+/**
+ * An event as emitted by the loop, before the run id and timestamp are attached.
+ */
+export type EvolutionEventPayload = EvolutionEvent extends infer E
+  ? E extends EvolutionEvent ? Omit<E, keyof EventBase> : never
+  : never;
+
+/**
+ * Receives every event of a run. A listener that throws fails the run.
+ */
+export type EvolutionListener = (event: EvolutionEvent) => void;
+
+/**
+ * A started run: await `result`, hook into event types, or iterate the events.
+ */
+export interface EvolutionRun extends AsyncIterable<EvolutionEvent> {
+  result: Promise<EvolutionResult>;
+
+  /** Call `hook` for events of one type; returns an unsubscribe function */
+  on<T extends EvolutionEventType>(
+    type: T,
+    hook: (event: Extract<EvolutionEvent, { type: T }>) => void
+  ): () => void;
+
+  /** Call `listener` for every event; returns an unsubscribe function */
+  subscribe(listener: EvolutionListener): () => void;
+}
+
+/**
+ * Wrap a run so that it can be observed. `execute` starts on a microtask, so
+ * hooks and iterators attached right after this returns see every event.
+ * Iterators end after 'run:end' and throw if the run fails.
+ */
+export function createEvolutionRun(
+  execute: (emit: EvolutionListener) => Promise<EvolutionResult>,
+  listeners: EvolutionListener[] = []
+): EvolutionRun {
+  const subscribers = new Set<EvolutionListener>(listeners);
+  let settled = false;
+
+  const emit: EvolutionListener = event => {
+    for (const listener of [...subscribers]) listener(event);
+  };
+  const subscribe = (listener: EvolutionListener) => {
+    subscribers.add(listener);
+    return () => {
+      subscribers.delete(listener);
+    };
+  };
+
+  const result = Promise.resolve().then(() => execute(emit));
+  const ended = result.then(
+    () => { settled = true; },
+    () => { settled = true; }
+  );
+
+  return {
+    result,
+    subscribe,
+    on: (type, hook) => subscribe(event => {
+      if (event.type === type) hook(event as Extract<EvolutionEvent, { type: typeof type }>);
+    }),
+    [Symbol.asyncIterator]: () => {
+      const buffer: EvolutionEvent[] = [];
+      let wake: (() => void) | undefined;
+      const unsubscribe = subscribe(event => {
+        buffer.push(event);
+        wake?.();
+      });
+      void ended.then(() => wake?.());
+
+      return {
+        next: async (): Promise<IteratorResult<EvolutionEvent>> => {
+          while (buffer.length === 0 && !settled) {
+            await new Promise<void>(resolve => { wake = resolve; });
+            wake = undefined;
+          }
+          if (buffer.length > 0) return { value: buffer.shift()!, done: false };
+          unsubscribe();
+          await result; // rethrows the run's error
+          return { value: undefined, done: true };
+        },
+        return: () => {
+          unsubscribe();
+          return Promise.resolve({ value: undefined, done: true });
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Listener that prints progress to the console (the loop's former output).
+ */
+export function consoleReporter(): EvolutionListener {
+  let generations = 0;
+
+  return event => {
+    switch (event.type) {
+      case 'run:start':
+        generations = event.generations;
+        break;
+      case 'generation:start':
+        console.log(`\n🎵 Generation ${event.generation}/${event.generations}`);
+        break;
+      case 'evaluation:failure':
+        console.warn(`   ⚠️  Evaluation of ${event.failure.agentId} failed: ${event.failure.error}`);
+        break;
+      case 'gate':
+        if (event.generation >= generations) break;
+        console.log(`   Proof gate: ${event.passed.length} passed, ${event.failed.length} failed`);
+        if (event.passed.length === 0) {
+          console.warn(
+            `   ⚠️  No agents passed proof gate at generation ${event.generation}; ranking by constraint violation`
+          );
+        }
+        break;
+      case 'generation:end':
+        console.log(`   Pareto front: ${event.stats.paretoFrontSize} agents`);
+        break;
+      case 'run:end':
+        console.log(`\n✅ Evolution complete in ${event.elapsedMs}ms`);
+        console.log(`   Final Pareto front: ${event.paretoFrontSize} agents`);
+        if (event.stopReason.criterion !== 'generations') {
+          console.log(`   Stopped early: ${event.stopReason.message}`);
+        }
+        break;
+    }
+  };
+}
@@ -9,10 +9,29 @@ import {
   evaluateAgent,
   crossoverAgents,
   mutateAgent,
+  recommendAgent,
+  resolveSelection,
+  resumeEvolution,
+  startEvolution,
+  createEvolutionSession,
   DEFAULT_EVOLUTION_CONFIG,
   type EvolutionConfig,
 } from './evolution';
 import { createAgent } from '../agents-runtime/agent';
+import { objectiveLaw } from '../laws-physics/objectives';
+import { createRng } from '../laws-physics/random';
+import {
+  createMemoryCheckpointStore,
+  serializeCheckpoint,
+  parseCheckpoint,
+  type CheckpointStore,
+} from './checkpoint';
+import { cachedEvaluator, repeatedEvaluator, simulationEvaluator, type Evaluator } from './evaluators';
+import { verifyProofBundle } from './proof-signing';
+import { DEFAULT_PROOF_CHECKS, type ProofCheck } from './proof-gate';
+import { parentGateCheck } from './parent-gate';
+import type { EvolutionEvent } from './events';
+import { behaviorDescriptor, cellKey } from './quality-diversity';
 
 describe('evolution - evaluation', () => {
   it('should evaluate agent and set objectives', async () => {
@@ -24,6 +43,27 @@ describe('evolution - evaluation', () => {
     expect(agent.objectives.timestamp).toBeGreaterThan(0);
   });
 
+  it('should write objectives by name for custom objective sets', async () => {
+    const objectives = [
+      { name: 'cost', sense: 'min' as const },
+      { name: 'gain', sense: 'max' as const },
+    ];
+    const agent = createAgent('test', 'tutor', 8, objectives);
+    
+    await evaluateAgent(agent, objectives);
+    
+    expect(agent.objectives.values).toHaveLength(2);
+    expect(agent.objectives.values[0]).toBe(0); // no tools, no knowledge
+    expect(agent.objectives.values[1]).toBeGreaterThanOrEqual(0.2);
+  });
+
+  it('should reject objectives the simulation cannot measure', async () => {
+    const agent = createAgent('test', 'tutor');
+    
+    await expect(evaluateAgent(agent, [{ name: 'sharpe', sense: 'max' }]))
+      .rejects.toThrow('sharpe');
+  });
+
   it('should handle async evaluation', async () => {
     const agent = createAgent('test', 'tutor');
     const start = Date.now();
@@ -97,6 +137,34 @@ describe('evolution - crossover', () => {
     
     expect(child.lineage.some(l => l.includes('crossover'))).toBe(true);
   });
+  
+  it('should apply the configured operator per layer', () => {
+    const parent1 = createAgent('p1', 'tutor');
+    parent1.coordination.tools = [{ name: 'search', cost: 1 }, { name: 'calc', cost: 2 }];
+    const parent2 = createAgent('p2', 'tutor');
+    parent2.coordination.tools = [{ name: 'calc', cost: 3 }, { name: 'web', cost: 1 }];
+    parent1.perception.state = [{ re: 1, im: 0 }, { re: 0, im: 0 }];
+    parent2.perception.state = [{ re: 0, im: 0 }, { re: 0, im: 1 }];
+    
+    const child = crossoverAgents(parent1, parent2, 'child', 0, { tools: 'union', state: 'sbx' }, createRng(6).next);
+    
+    expect(child.coordination.tools.map(t => t.name)).toEqual(['search', 'calc', 'web']);
+    expect(child.perception.state).not.toEqual(crossoverAgents(parent1, parent2, 'c2', 0).perception.state);
+  });
+  
+  it('should evolve reproducibly with configured operators', async () => {
+    const config: EvolutionConfig = {
+      ...DEFAULT_EVOLUTION_CONFIG,
+      populationSize: 6,
+      generations: 3,
+      seed: 17,
+      clock: () => 0,
+      listeners: [],
+      crossover: { knowledge: 'k-point', plans: 'splice', tools: 'intersection', state: 'phase' },
+    };
+    
+    expect(JSON.stringify(await evolve(config))).toBe(JSON.stringify(await evolve(config)));
+  });
 });
 
 describe('evolution - mutation', () => {
@@ -130,6 +198,241 @@ describe('evolution - mutation', () => {
     // Check that mutation added provenance
     expect(agent.perception.provenance.some(p => p === 'mutation')).toBe(true);
   });
+
+  it('should mutate identically for a seeded source', () => {
+    const a = createAgent('test', 'tutor', 4, undefined, 0);
+    const b = createAgent('test', 'tutor', 4, undefined, 0);
+    
+    mutateAgent(a, 1.0, createRng(8).next, 0);
+    mutateAgent(b, 1.0, createRng(8).next, 0);
+    
+    expect(a).toEqual(b);
+  });
+  
+  it('should record configured operators in lineage', () => {
+    const agent = createAgent('test', 'tutor', 4, undefined, 0);
+    
+    const applied = mutateAgent(agent, 1.0, createRng(3).next, 0, {
+      operators: ['gaussian-state', 'goal-edit'],
+      catalog: { goals: ['explain'] },
+    });
+    
+    expect(applied).toEqual(['gaussian-state', 'goal-edit']);
+    expect(agent.lineage).toContain('mutation:gaussian-state:gen0');
+    expect(agent.lineage).toContain('mutation:goal-edit:gen0');
+  });
+  
+  it('should evolve reproducibly with an adaptive schedule', async () => {
+    const config: EvolutionConfig = {
+      ...DEFAULT_EVOLUTION_CONFIG,
+      populationSize: 6,
+      generations: 4,
+      mutationRate: 1,
+      seed: 29,
+      clock: () => 0,
+      listeners: [],
+      mutation: {
+        operators: ['gaussian-state', 'rule-insert', 'tool-swap'],
+        catalog: { rules: [{ condition: 'confused', action: 'simplify' }], tools: [{ name: 'search', cost: 1 }] },
+        schedule: { type: 'one-fifth' },
+      },
+    };
+    
+    const result = await evolve(config);
+    
+    expect(JSON.stringify(await evolve(config))).toBe(JSON.stringify(result));
+    expect(result.stats[0].mutation).toEqual({ strength: 1, evaluated: 0, successRate: undefined });
+    expect(result.stats[1].mutation.evaluated).toBeGreaterThan(0);
+    expect(result.stats[1].mutation.strength).not.toBe(1);
+  });
+  
+  it('should select operators adaptively and credit them', async () => {
+    const config: EvolutionConfig = {
+      ...DEFAULT_EVOLUTION_CONFIG,
+      populationSize: 8,
+      generations: 4,
+      seed: 31,
+      clock: () => 0,
+      listeners: [],
+      mutation: { operators: ['gaussian-state', 'uniform-state'] },
+      operatorSelection: { explorationRate: 0.2 },
+    };
+    
+    const result = await evolve(config);
+    const credit = result.stats[1].operators!;
+    
+    expect(JSON.stringify(await evolve(config))).toBe(JSON.stringify(result));
+    expect(result.stats[0].operators).toEqual({
+      'crossover': { offspring: 0, frontEntries: 0, pulls: 0, meanReward: 0 },
+      'gaussian-state': { offspring: 0, frontEntries: 0, pulls: 0, meanReward: 0 },
+      'uniform-state': { offspring: 0, frontEntries: 0, pulls: 0, meanReward: 0 },
+    });
+    expect(Object.values(credit).reduce((s, c) => s + c.offspring, 0)).toBe(4);
+    expect(result.finalPopulation.every(a => !('variationOperator' in a.metadata))).toBe(true);
+  });
+  
+  it('should leave operator credit out without operator selection', async () => {
+    const result = await evolve({ ...DEFAULT_EVOLUTION_CONFIG, populationSize: 4, generations: 2, listeners: [] });
+    expect(result.stats[1].operators).toBeUndefined();
+  });
+});
+
+describe('evolution - quality diversity', () => {
+  const base: EvolutionConfig = {
+    ...DEFAULT_EVOLUTION_CONFIG,
+    populationSize: 8,
+    generations: 4,
+    mutationRate: 1,
+    seed: 41,
+    clock: () => 0,
+    listeners: [],
+  };
+  
+  it('should return a MAP-Elites repertoire with one elite per cell', async () => {
+    const config: EvolutionConfig = {
+      ...base,
+      qualityDiversity: { mode: 'map-elites', features: ['phase', 'knowledge'], bins: 4 },
+    };
+    const result = await evolve(config);
+    const cells = result.repertoire!.map(a => cellKey(behaviorDescriptor(a, ['phase', 'knowledge']), 4));
+    
+    expect(result.repertoire!.length).toBeGreaterThan(1);
+    expect(new Set(cells).size).toBe(cells.length);
+    expect(result.stats.at(-1)!.qualityDiversity!.coverage).toBeGreaterThan(0);
+    expect(JSON.stringify(await evolve(config))).toBe(JSON.stringify(result));
+  });
+  
+  it('should select on novelty and report it', async () => {
+    const result = await evolve({ ...base, qualityDiversity: { mode: 'novelty', neighbours: 3 } });
+    
+    expect(result.stats.every(s => s.qualityDiversity!.meanNovelty! >= 0)).toBe(true);
+    expect(result.stats.at(-1)!.qualityDiversity!.noveltyArchiveSize).toBeGreaterThan(0);
+    expect(result.repertoire!.length).toBeGreaterThan(0);
+  });
+  
+  it('should leave the repertoire out otherwise', async () => {
+    expect((await evolve({ ...base, generations: 2 })).repertoire).toBeUndefined();
+  });
+});
+
+describe('evolution - termination', () => {
+  const base: EvolutionConfig = {
+    ...DEFAULT_EVOLUTION_CONFIG,
+    populationSize: 6,
+    generations: 10,
+    seed: 13,
+    clock: () => 0,
+    listeners: [],
+  };
+  
+  it('should report running all generations by default', async () => {
+    const result = await evolve({ ...base, generations: 3 });
+    
+    expect(result.stopReason).toEqual({ criterion: 'generations', message: 'Ran all 3 generations', generation: 2 });
+    expect(result.stats).toHaveLength(3);
+  });
+  
+  it('should stop on an evaluation budget and still evaluate the final population', async () => {
+    const result = await evolve({ ...base, stopping: { type: 'evaluation-budget', evaluations: 12 } });
+    
+    expect(result.stopReason.criterion).toBe('evaluation-budget');
+    expect(result.stopReason.generation).toBe(1);
+    expect(result.stats).toHaveLength(2);
+    expect(result.finalPopulation.length).toBeGreaterThan(0);
+  });
+  
+  it('should stop on a wall-clock budget', async () => {
+    let now = 0;
+    const result = await evolve({ ...base, clock: () => (now += 10), stopping: { type: 'time-budget', ms: 200 } });
+    
+    expect(result.stopReason.criterion).toBe('time-budget');
+    expect(result.stats.length).toBeLessThan(10);
+  });
+  
+  it('should stop on the first of composed criteria', async () => {
+    const result = await evolve({
+      ...base,
+      stopping: {
+        type: 'any',
+        criteria: [{ type: 'target', objective: 'gain', value: -Infinity }, { type: 'front-stability', generations: 1 }],
+      },
+    });
+    
+    expect(result.stopReason.criterion).toBe('target');
+    expect(result.stopReason.generation).toBe(0);
+  });
+  
+  it('should finish a stopped run from its checkpoint without more generations', async () => {
+    const store = createMemoryCheckpointStore();
+    const stopping = { type: 'evaluation-budget' as const, evaluations: 12 };
+    const stopped = await evolve({ ...base, stopping, checkpoint: { store, runId: 'budget' } });
+    const checkpoint = (await store.load('budget'))!;
+    
+    expect(checkpoint.generation).toBe(2);
+    expect(checkpoint.stopReason?.criterion).toBe('evaluation-budget');
+    const resumed = await resumeEvolution(checkpoint, { clock: () => 0, listeners: [] });
+    expect(JSON.stringify(resumed)).toBe(JSON.stringify(stopped));
+  });
+  
+  it('should measure hypervolume stagnation on fixed bounds across a resume', async () => {
+    const saved: string[] = [];
+    const store: CheckpointStore = {
+      ...createMemoryCheckpointStore(),
+      save: checkpoint => Promise.resolve(void saved.push(serializeCheckpoint(checkpoint))),
+    };
+    const stopping = { type: 'hypervolume-stagnation' as const, generations: 2 };
+    const uninterrupted = await evolve({ ...base, stopping, checkpoint: { store } });
+    
+    expect(uninterrupted.stats.every(s => s.fixedHypervolume !== undefined)).toBe(true);
+    expect(parseCheckpoint(saved[0]).hypervolumeBounds).toBeDefined();
+    const resumed = await resumeEvolution(parseCheckpoint(saved[0]), { clock: () => 0, listeners: [] });
+    expect(JSON.stringify(resumed)).toBe(JSON.stringify(uninterrupted));
+  });
+  
+  it('should reject an unknown target objective before the first generation', async () => {
+    await expect(evolve({ ...base, stopping: { type: 'target', objective: 'gains', value: 1 } }))
+      .rejects.toThrow('Unknown objective in stopping criterion: gains');
+  });
+});
+
+describe('evolution - reproducibility', () => {
+  const base: EvolutionConfig = {
+    ...DEFAULT_EVOLUTION_CONFIG,
+    populationSize: 8,
+    generations: 3,
+    mutationRate: 0.8,
+    clock: () => 0,
+  };
+  
+  it('should give identical results for the same seed', async () => {
+    const first = await evolve({ ...base, seed: 1234 });
+    const second = await evolve({ ...base, seed: 1234 });
+    
+    expect(second).toEqual(first);
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+    expect(first.seed).toBe(1234);
+  });
+  
+  it('should hash string seeds', async () => {
+    const first = await evolve({ ...base, seed: 'nightly' });
+    const second = await evolve({ ...base, seed: 'nightly' });
+    
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+    expect(typeof first.seed).toBe('number');
+  });
+  
+  it('should draw from an injected generator', async () => {
+    const first = await evolve({ ...base, rng: createRng(77) });
+    const second = await evolve({ ...base, seed: 77 });
+    
+    expect(first.seed).toBeUndefined();
+    expect(JSON.stringify(second.stats)).toBe(JSON.stringify(first.stats));
+  });
+  
+  it('should report a fresh seed when none is given', async () => {
+    const result = await evolve({ ...base, generations: 1 });
+    expect(Number.isInteger(result.seed)).toBe(true);
+  });
 });
 
 describe('evolution - multi-generation', () => {
@@ -178,6 +481,7 @@ describe('evolution - multi-generation', () => {
     for (const agent of result.finalPopulation) {
       expect(agent.proof).toBeDefined();
       expect(agent.proof?.verified).toBe(true);
+      expect(verifyProofBundle(agent).valid).toBe(true);
     }
   });
 
@@ -222,6 +526,511 @@ describe('evolution - multi-generation', () => {
   });
 });
 
+describe('evolution - custom objective sets', () => {
+  it('should evolve end-to-end over a reordered subset of objectives', async () => {
+    const objectives = [
+      { name: 'cost', sense: 'min' as const },
+      { name: 'latency', sense: 'min' as const },
+      { name: 'gain', sense: 'max' as const },
+    ];
+    const config: EvolutionConfig = {
+      ...DEFAULT_EVOLUTION_CONFIG,
+      objectives,
+      populationSize: 5,
+      generations: 2,
+    };
+    
+    const result = await evolve(config);
+    
+    expect(result.paretoFront.length).toBeGreaterThan(0);
+    for (const stat of result.stats) {
+      expect(stat.avgObjectives).toHaveLength(3);
+      // latency is in the tens of ms, gain in [0, 1]
+      expect(stat.avgObjectives[1]).toBeGreaterThanOrEqual(50);
+      expect(stat.avgObjectives[2]).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('evolution - normalization', () => {
+  it('should report normalized averages when normalization is configured', async () => {
+    const config: EvolutionConfig = {
+      ...DEFAULT_EVOLUTION_CONFIG,
+      populationSize: 6,
+      generations: 2,
+      normalization: { mode: 'min-max' },
+    };
+    
+    const result = await evolve(config);
+    
+    for (const stat of result.stats) {
+      expect(stat.normalizedAvgObjectives).toHaveLength(6);
+      for (const v of stat.normalizedAvgObjectives!) {
+        expect(v).toBeGreaterThanOrEqual(0);
+        expect(v).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it('should leave normalized averages unset by default', async () => {
+    const result = await evolve({ ...DEFAULT_EVOLUTION_CONFIG, populationSize: 4, generations: 1 });
+    expect(result.stats[0].normalizedAvgObjectives).toBeUndefined();
+  });
+});
+
+describe('evolution - selection algorithm', () => {
+  it('should use NSGA-III for the default six objectives', () => {
+    expect(resolveSelection(DEFAULT_EVOLUTION_CONFIG)).toBe('nsga3');
+  });
+
+  it('should keep NSGA-II for few objectives', () => {
+    const config: EvolutionConfig = {
+      ...DEFAULT_EVOLUTION_CONFIG,
+      objectives: DEFAULT_EVOLUTION_CONFIG.objectives.slice(0, 2),
+    };
+    expect(resolveSelection(config)).toBe('nsga2');
+  });
+
+  it('should honour an explicit choice', async () => {
+    const config: EvolutionConfig = {
+      ...DEFAULT_EVOLUTION_CONFIG,
+      populationSize: 6,
+      generations: 2,
+      selection: 'nsga2',
+    };
+    expect(resolveSelection(config)).toBe('nsga2');
+
+    const result = await evolve(config);
+    expect(result.stats).toHaveLength(2);
+  });
+});
+
+describe('evolution - checkpoint and resume', () => {
+  const base: EvolutionConfig = {
+    ...DEFAULT_EVOLUTION_CONFIG,
+    populationSize: 8,
+    generations: 4,
+    mutationRate: 0.8,
+    normalization: { mode: 'min-max' },
+    seed: 99,
+    clock: () => 0,
+  };
+  
+  // Keeps every checkpoint, not just the latest
+  function recordingStore(): CheckpointStore & { history: string[] } {
+    const history: string[] = [];
+    const store = createMemoryCheckpointStore();
+    return {
+      history,
+      save: async checkpoint => {
+        history.push(serializeCheckpoint(checkpoint));
+        await store.save(checkpoint);
+      },
+      load: runId => store.load(runId),
+      delete: runId => store.delete(runId),
+    };
+  }
+  
+  it('should save a checkpoint after every generation', async () => {
+    const store = recordingStore();
+    await evolve({ ...base, checkpoint: { store } });
+    
+    expect(store.history.map(json => parseCheckpoint(json).generation)).toEqual([1, 2, 3, 4]);
+    expect((await store.load('run-99'))?.generation).toBe(4);
+  });
+  
+  it('should honour the checkpoint interval and always save the last generation', async () => {
+    const store = recordingStore();
+    await evolve({ ...base, generations: 5, checkpoint: { store, every: 2, runId: 'sweep' } });
+    
+    expect(store.history.map(json => parseCheckpoint(json).generation)).toEqual([2, 4, 5]);
+    expect(parseCheckpoint(store.history[0]).runId).toBe('sweep');
+  });
+  
+  it('should resume to a bit-identical result', async () => {
+    const store = recordingStore();
+    const uninterrupted = await evolve({ ...base, checkpoint: { store } });
+    
+    for (const json of store.history) {
+      const resumed = await resumeEvolution(parseCheckpoint(json), { clock: () => 0 });
+      expect(JSON.stringify(resumed)).toBe(JSON.stringify(uninterrupted));
+    }
+  });
+  
+  it('should resume adaptive mutation, operator selection and novelty search bit-identically', async () => {
+    const store = recordingStore();
+    const config: EvolutionConfig = {
+      ...base,
+      listeners: [],
+      mutation: { operators: ['gaussian-state', 'uniform-state'], schedule: { type: 'one-fifth' } },
+      operatorSelection: {},
+      qualityDiversity: { mode: 'novelty' },
+      checkpoint: { store },
+    };
+    const uninterrupted = await evolve(config);
+    
+    const resumed = await resumeEvolution(parseCheckpoint(store.history[1]), { clock: () => 0, listeners: [] });
+    expect(JSON.stringify(resumed)).toBe(JSON.stringify(uninterrupted));
+  });
+  
+  it('should resume the parent gate bit-identically', async () => {
+    const store = recordingStore();
+    const config: EvolutionConfig = {
+      ...base,
+      seed: 5,
+      generations: 6,
+      populationSize: 10,
+      listeners: [],
+      proofGate: { ...base.proofGate, parents: { requireImprovement: true } },
+      checkpoint: { store },
+    };
+    const uninterrupted = await evolve(config);
+    
+    expect(parseCheckpoint(store.history[0]).ancestors?.length).toBeGreaterThan(0);
+    for (const json of store.history) {
+      const resumed = await resumeEvolution(parseCheckpoint(json), { clock: () => 0, listeners: [] });
+      expect(JSON.stringify(resumed)).toBe(JSON.stringify(uninterrupted));
+    }
+  });
+  
+  it('should require custom laws to be supplied again', async () => {
+    const laws = [objectiveLaw('gain-floor', 'gain', 'max', 0)];
+    const store = recordingStore();
+    const config: EvolutionConfig = { ...base, proofGate: { ...base.proofGate, laws }, checkpoint: { store } };
+    const uninterrupted = await evolve(config);
+    const checkpoint = parseCheckpoint(store.history[1]);
+    
+    await expect(resumeEvolution(checkpoint)).rejects.toThrow('gain-floor');
+    await expect(resumeEvolution(checkpoint, { proofGate: { ...base.proofGate } }))
+      .rejects.toThrow('do not match');
+    
+    const resumed = await resumeEvolution(checkpoint, { clock: () => 0, proofGate: { ...base.proofGate, laws } });
+    expect(JSON.stringify(resumed)).toBe(JSON.stringify(uninterrupted));
+  });
+});
+
+describe('evolution - evaluators', () => {
+  const base: EvolutionConfig = {
+    ...DEFAULT_EVOLUTION_CONFIG,
+    populationSize: 6,
+    generations: 3,
+    seed: 5,
+    clock: () => 0,
+  };
+  
+  it('should evaluate with the configured evaluator', async () => {
+    const flat: Evaluator = {
+      name: 'flat',
+      evaluate: () => Promise.resolve({
+        gain: 0.5, latency: 10, engagement: 0, fairness: 1, privacyLoss: 0, cost: 1,
+      }),
+    };
+    const result = await evolve({ ...base, evaluator: flat });
+    
+    expect(result.stats[0].avgObjectives).toEqual([0.5, 10, 0, 1, 0, 1]);
+  });
+  
+  it('should reject evaluators missing an objective', async () => {
+    const partial: Evaluator = { name: 'partial', evaluate: () => Promise.resolve({ gain: 1 }) };
+    await expect(evolve({ ...base, evaluator: partial })).rejects.toThrow('Missing value for objective');
+  });
+  
+  it('should reuse cached evaluations for unchanged agents', async () => {
+    const cached = cachedEvaluator(simulationEvaluator(0));
+    const uncached = await evolve(base);
+    const result = await evolve({ ...base, evaluator: cached });
+    
+    expect(cached.stats().hits).toBeGreaterThan(0);
+    expect(JSON.stringify(result.stats)).toBe(JSON.stringify(uncached.stats));
+  });
+  
+  it('should require a custom evaluator on resume', async () => {
+    const store = createMemoryCheckpointStore();
+    const cached = cachedEvaluator(simulationEvaluator(0));
+    await evolve({ ...base, evaluator: { ...cached, name: 'cached-sim' }, checkpoint: { store } });
+    const checkpoint = (await store.load('run-5'))!;
+    
+    expect(checkpoint.config.evaluator).toBe('cached-sim');
+    await expect(resumeEvolution(checkpoint)).rejects.toThrow('cached-sim');
+  });
+});
+
+describe('evolution - evaluation failures', () => {
+  const base: EvolutionConfig = {
+    ...DEFAULT_EVOLUTION_CONFIG,
+    populationSize: 6,
+    generations: 2,
+    seed: 9,
+    clock: () => 0,
+  };
+  const simulation = simulationEvaluator(0);
+  
+  /** Fails every evaluation of agents whose id ends in -0 */
+  const broken: Evaluator = {
+    name: 'broken',
+    evaluate: (agent, context) =>
+      agent.id.endsWith('-0') ? Promise.reject(new Error('backend down')) : simulation.evaluate(agent, context),
+  };
+  
+  it('should retry flaky evaluations without failing the run', async () => {
+    const seen = new Set<string>();
+    const flaky: Evaluator = {
+      name: 'flaky',
+      evaluate: (agent, context) => {
+        if (seen.has(agent.id)) return simulation.evaluate(agent, context);
+        seen.add(agent.id);
+        return Promise.reject(new Error('transient'));
+      },
+    };
+    const result = await evolve({ ...base, evaluator: flaky, evaluation: { retries: 1, backoffMs: 0 } });
+    
+    expect(result.stats[0].evaluation).toMatchObject({ evaluated: 6, failures: [], retries: 6 });
+  });
+  
+  it('should penalize failed agents and report them in stats', async () => {
+    const result = await evolve({ ...base, evaluator: broken });
+    const { evaluation } = result.stats[0];
+    
+    expect(evaluation.evaluated).toBe(5);
+    expect(evaluation.failures).toEqual([
+      { agentId: 'agent-gen0-0', attempts: 1, error: 'backend down', timedOut: false, outcome: 'penalized' },
+    ]);
+    expect(result.stats[0].failedProofGate).toBeGreaterThanOrEqual(1);
+    expect(result.paretoFront.some(a => a.id.endsWith('-0'))).toBe(false);
+  });
+  
+  it('should drop failed agents from the generation', async () => {
+    const result = await evolve({ ...base, evaluator: broken, evaluation: { onFailure: 'drop' } });
+    
+    expect(result.stats[0].evaluation.failures[0].outcome).toBe('dropped');
+    expect(result.finalEvaluation.failures.every(f => f.outcome === 'dropped')).toBe(true);
+  });
+  
+  it('should fail the run when every evaluation fails', async () => {
+    const down: Evaluator = { name: 'down', evaluate: () => Promise.reject(new Error('backend down')) };
+    await expect(evolve({ ...base, evaluator: down })).rejects.toThrow('All 6 evaluations failed at generation 0');
+  });
+});
+
+describe('evolution - events', () => {
+  const base: EvolutionConfig = {
+    ...DEFAULT_EVOLUTION_CONFIG,
+    populationSize: 6,
+    generations: 3,
+    seed: 11,
+    clock: () => 0,
+    listeners: [],
+  };
+  
+  async function collect(config: EvolutionConfig): Promise<EvolutionEvent[]> {
+    const events: EvolutionEvent[] = [];
+    for await (const event of startEvolution(config)) events.push(event);
+    return events;
+  }
+  
+  it('should emit the run lifecycle in order', async () => {
+    const events = await collect(base);
+    const lifecycle = events
+      .filter(e => e.type === 'run:start' || e.type === 'generation:start' || e.type === 'run:end')
+      .map(e => (e.type === 'generation:start' ? `${e.type}:${e.generation}` : e.type));
+    
+    expect(lifecycle).toEqual([
+      'run:start',
+      'generation:start:0',
+      'generation:start:1',
+      'generation:start:2',
+      'run:end',
+    ]);
+    expect(events.every(e => e.runId === 'run-11' && e.timestamp === 0)).toBe(true);
+  });
+  
+  it('should account for every agent through births and deaths', async () => {
+    const events = await collect(base);
+    const alive = new Set<string>();
+    for (const event of events) {
+      if (event.type === 'birth') alive.add(event.agentId);
+      if (event.type === 'death') alive.delete(event.agentId);
+    }
+    const result = await evolve(base);
+    
+    expect([...alive].sort()).toEqual(result.finalPopulation.map(a => a.id).sort());
+  });
+  
+  it('should report evaluations, gate outcomes and stats per generation', async () => {
+    const run = startEvolution(base);
+    const evaluations = new Map<number, number>();
+    const gates: number[] = [];
+    run.on('evaluation', e => evaluations.set(e.generation, (evaluations.get(e.generation) ?? 0) + 1));
+    run.on('gate', e => gates.push(e.passed.length + e.failed.length));
+    run.on('selection', e => expect(e.survivors).toHaveLength(3));
+    const stats: number[] = [];
+    run.on('generation:end', e => stats.push(e.stats.generation));
+    const result = await run.result;
+    
+    expect([0, 1, 2].map(g => evaluations.get(g))).toEqual([6, 6, 6]);
+    expect(gates.slice(0, 3)).toEqual([6, 6, 6]);
+    expect(stats).toEqual([0, 1, 2]);
+    expect(result.stats).toHaveLength(3);
+  });
+  
+  it('should not change the result', async () => {
+    const observed = await evolve({ ...base, listeners: [() => undefined] });
+    const silent = await evolve(base);
+    expect(JSON.stringify(observed)).toBe(JSON.stringify(silent));
+  });
+  
+  it('should emit checkpoint events and continue the stream on resume', async () => {
+    const store = createMemoryCheckpointStore();
+    const saved: number[] = [];
+    await evolve({
+      ...base,
+      checkpoint: { store },
+      listeners: [e => e.type === 'checkpoint' && saved.push(e.generation)],
+    });
+    expect(saved).toEqual([1, 2, 3]);
+    
+    const checkpoint = parseCheckpoint(serializeCheckpoint({ ...(await store.load('run-11'))!, generation: 2 }));
+    const resumed: EvolutionEvent[] = [];
+    await resumeEvolution(checkpoint, { clock: () => 0, listeners: [e => resumed.push(e)] });
+    
+    expect(resumed[0]).toMatchObject({ type: 'run:start', generation: 2, resumed: true });
+    expect(resumed.some(e => e.type === 'birth')).toBe(false);
+  });
+});
+
+describe('evolution - sessions', () => {
+  const base: EvolutionConfig = {
+    ...DEFAULT_EVOLUTION_CONFIG,
+    populationSize: 6,
+    generations: 4,
+    seed: 13,
+    clock: () => 0,
+    listeners: [],
+  };
+  
+  it('should match an uninterrupted run when advanced step by step', async () => {
+    const session = await createEvolutionSession(base);
+    await session.advance();
+    await session.advance(2);
+    expect(session.generation).toBe(3);
+    
+    expect(JSON.stringify(await session.finish())).toBe(JSON.stringify(await evolve(base)));
+  });
+  
+  it('should swap agents in and out of the population', async () => {
+    const session = await createEvolutionSession(base);
+    await session.advance();
+    const [outgoing] = session.population.slice(-1);
+    const incoming = createAgent('visitor', 'student', 8, undefined, 0);
+    session.replace([outgoing.id], [incoming]);
+    
+    expect(session.population.map(a => a.id)).not.toContain(outgoing.id);
+    expect(session.population.at(-1)).toBe(incoming);
+  });
+  
+  it('should use the configured id prefix and agent kind', async () => {
+    const session = await createEvolutionSession({ ...base, idPrefix: 'x-', agentKind: 'student' });
+    expect(session.population.every(a => a.id.startsWith('x-agent-gen0-') && a.kind === 'student')).toBe(true);
+  });
+});
+
+describe('evolution - constrained dominance', () => {
+  it('should keep evolving when no agent passes the gate', async () => {
+    const config: EvolutionConfig = {
+      ...DEFAULT_EVOLUTION_CONFIG,
+      populationSize: 6,
+      generations: 3,
+      proofGate: {
+        ...DEFAULT_EVOLUTION_CONFIG.proofGate,
+        // Fresh agents score gain 0.4, so generation 0 is entirely infeasible
+        laws: [objectiveLaw('min-gain', 'gain', 'max', 0.9)],
+      },
+    };
+    
+    const result = await evolve(config);
+    
+    expect(result.stats).toHaveLength(3);
+    expect(result.stats[0].passedProofGate).toBe(0);
+    expect(result.stats[0].minViolation).toBeGreaterThan(0);
+    expect(result.stats[0].paretoFrontSize).toBeGreaterThan(0);
+  });
+
+  it('should gate offspring against their parents, including ones that did not survive', async () => {
+    const compared = new Map<string, string[]>();
+    const spy: ProofCheck = {
+      ...parentGateCheck,
+      run: (agent, context) => {
+        // Survivors are gated again; keep the gate in the generation they were born
+        if (!compared.has(agent.id)) compared.set(agent.id, context.parents.map(p => p.id));
+        return parentGateCheck.run(agent, context);
+      },
+    };
+    const births: { agentId: string; parents: string[] }[] = [];
+
+    await evolve({
+      ...DEFAULT_EVOLUTION_CONFIG,
+      populationSize: 6,
+      generations: 3,
+      seed: 3,
+      clock: () => 0,
+      evaluator: repeatedEvaluator(simulationEvaluator(0), 2),
+      proofGate: {
+        ...DEFAULT_EVOLUTION_CONFIG.proofGate,
+        checks: [...DEFAULT_PROOF_CHECKS.filter(c => c !== parentGateCheck), spy],
+        parents: { maxRegression: { cost: 0.5 } },
+      },
+      listeners: [event => {
+        if (event.type === 'birth') births.push(event);
+      }],
+    });
+
+    expect(births.length).toBeGreaterThan(0);
+    for (const { agentId, parents } of births) {
+      expect(compared.get(agentId)).toEqual(parents);
+    }
+  });
+
+  it('should reject a misnamed gate objective before the first generation', async () => {
+    const proofGate = { ...DEFAULT_EVOLUTION_CONFIG.proofGate, costObjective: 'costs' };
+    await expect(evolve({ ...DEFAULT_EVOLUTION_CONFIG, populationSize: 4, generations: 1, proofGate }))
+      .rejects.toThrow('Unknown cost objective: costs');
+  });
+
+  it('should report zero violation once agents are feasible', async () => {
+    const result = await evolve({ ...DEFAULT_EVOLUTION_CONFIG, populationSize: 4, generations: 1 });
+    expect(result.stats[0].minViolation).toBe(0);
+  });
+});
+
+describe('evolution - quality indicators', () => {
+  it('should report front quality for every generation', async () => {
+    const config: EvolutionConfig = {
+      ...DEFAULT_EVOLUTION_CONFIG,
+      populationSize: 6,
+      generations: 3,
+    };
+    
+    const result = await evolve(config);
+    
+    for (const stat of result.stats) {
+      expect(stat.indicators!.hypervolume).toBeGreaterThanOrEqual(0);
+      expect(stat.indicators!.spacing).toBeGreaterThanOrEqual(0);
+      expect(stat.indicators!.spread).toBeGreaterThanOrEqual(0);
+    }
+    // Convergence indicators compare against the previous front
+    expect(result.stats[0].indicators!.igdPlus).toBeUndefined();
+    expect(result.stats[1].indicators!.igdPlus).toBeGreaterThanOrEqual(0);
+    expect(result.stats[2].indicators!.generationalDistance).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should skip the indicators when they are disabled', async () => {
+    const result = await evolve({ ...DEFAULT_EVOLUTION_CONFIG, populationSize: 6, generations: 2, indicators: false });
+    
+    expect(result.stats).toHaveLength(2);
+    expect(result.stats.every(stat => stat.indicators === undefined)).toBe(true);
+  });
+});
+
 describe('evolution - pareto frontier', () => {
   it('should maintain Pareto front', async () => {
     const config: EvolutionConfig = {
@@ -250,3 +1059,50 @@ describe('evolution - pareto frontier', () => {
     }
   });
 });
+
+describe('evolution - recommendation', () => {
+  function resultWith(front: Array<[number, number]>) {
+    const objectives = [
+      { name: 'gain', sense: 'max' as const },
+      { name: 'cost', sense: 'min' as const },
+    ];
+    const paretoFront = front.map(([gain, cost], i) => {
+      const agent = createAgent(`a${i}`, 'tutor', 2, objectives);
+      agent.objectives.values = [gain, cost];
+      return agent;
+    });
+    return {
+      finalPopulation: paretoFront,
+      paretoFront,
+      stats: [],
+      elapsedMs: 0,
+      finalEvaluation: { evaluated: paretoFront.length, failures: [], retries: 0, timeouts: 0, requeued: 0 },
+      stopReason: { criterion: 'generations' as const, message: '', generation: 0 },
+      objectives,
+    };
+  }
+
+  it('should pick the balanced trade-off by default', () => {
+    expect(recommendAgent(resultWith([[1.0, 100], [0.6, 40], [0.1, 0]]))?.id).toBe('a1');
+  });
+
+  it('should follow scalarization weights', () => {
+    const pick = recommendAgent(resultWith([[1.0, 100], [0.6, 40], [0.1, 0]]), {
+      method: 'weighted-sum',
+      weights: { gain: 10, cost: 1 },
+    });
+    expect(pick?.id).toBe('a0');
+  });
+
+  it('should return undefined for an empty front', () => {
+    expect(recommendAgent(resultWith([]))).toBeUndefined();
+  });
+
+  it('should recommend over the objective set of the run', async () => {
+    const objectives = DEFAULT_EVOLUTION_CONFIG.objectives.slice(0, 2);
+    const result = await evolve({ ...DEFAULT_EVOLUTION_CONFIG, objectives, populationSize: 4, generations: 1 });
+    
+    expect(result.objectives).toEqual(objectives);
+    expect(result.paretoFront).toContain(recommendAgent(result));
+  });
+});
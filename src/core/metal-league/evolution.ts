@@ -6,11 +6,92 @@
  * while maintaining the tri-layer architecture.
  */
 
-import { MetaAgent, createAgent, cloneAgent, updatePerception } from '../agents-runtime/agent';
-import { ObjectiveSpec, DEFAULT_OBJECTIVES } from '../laws-physics/objectives';
+import { MetaAgent, appendLineage, createAgent, cloneAgent, updatePerception, type AgentKind } from '../agents-runtime/agent';
+import {
+  ObjectiveSpec,
+  DEFAULT_OBJECTIVES,
+  createObjectiveRegistry,
+  createObjectiveNormalizer,
+  type NormalizationOptions,
+  type ObjectiveNormalizer,
+} from '../laws-physics/objectives';
+import { rankByScalarization, type ScalarizationConfig } from '../laws-physics/scalarization';
+import { createRng, restoreRng, randomSeed, seedFromString, type Rng } from '../laws-physics/random';
 import { fastNonDominatedSort, nsga2Select, tournamentSelect, type Genome } from './nsga2';
-import { applyProofGate, DEFAULT_PROOF_GATE, type ProofGateConfig } from './proof-gate';
-import { spectralSync, normalize } from '../laws-physics/hilbert';
+import { nsga3Select } from './nsga3';
+import { paretoIndicators, type ParetoIndicators } from './indicators';
+import {
+  applyProofGate,
+  constraintViolation,
+  validateProofGate,
+  DEFAULT_PROOF_GATE,
+  type ProofGateConfig,
+} from './proof-gate';
+import {
+  CHECKPOINT_VERSION,
+  type CheckpointConfig,
+  type CheckpointOptions,
+  type EvolutionCheckpoint,
+} from './checkpoint';
+import {
+  applyMutations,
+  collectMutationOutcomes,
+  DEFAULT_MUTATION_OPERATORS,
+  markMutated,
+  oneFifthUpdate,
+  scheduledStrength,
+  type MutationConfig,
+  type MutationOperatorName,
+} from './mutation';
+import { crossoverKnowledge, crossoverState, crossoverTools, type CrossoverOperators } from './crossover';
+import {
+  createOperatorBandit,
+  creditOperators,
+  markOffspring,
+  operatorPicker,
+  type OperatorCredit,
+  type OperatorSelectionConfig,
+  type VariationOperator,
+} from './operator-selection';
+import type { BanditState } from '../../router/evolution_router';
+import {
+  archiveCoverage,
+  archiveElites,
+  createArchive,
+  insertElite,
+  noveltyScores,
+  updateNoveltyArchive,
+  type MapElitesArchive,
+  type QualityDiversityConfig,
+  type QualityDiversityStats,
+} from './quality-diversity';
+import type { HilbertState } from '../laws-physics/hilbert';
+import {
+  checkTermination,
+  fixedHypervolume,
+  hypervolumeBounds,
+  usesCriterion,
+  validateStoppingCriterion,
+  type FixedHypervolume,
+  type HypervolumeBounds,
+  type StopReason,
+  type StoppingCriterion,
+} from './termination';
+import { simulationEvaluator, SIMULATION_EVALUATOR_NAME, type Evaluator } from './evaluators';
+import {
+  runEvaluationPool,
+  penaltyObjectives,
+  type EvaluationPoolOptions,
+  type EvaluationSummary,
+} from './evaluation-pool';
+import {
+  createEvolutionRun,
+  consoleReporter,
+  type EvolutionEvent,
+  type EvolutionEventPayload,
+  type EvolutionListener,
+  type EvolutionRun,
+} from './events';
 
 /**
  * Evolution configuration.
@@ -23,8 +104,64 @@ export interface EvolutionConfig {
   crossoverRate: number;
   mutationRate: number;
   stateDimension: number;
+  /** Optional objective normalization; bounds are tracked across generations */
+  normalization?: NormalizationOptions;
+  /** Survivor selection (default 'auto': NSGA-III from MANY_OBJECTIVE_THRESHOLD objectives up) */
+  selection?: SelectionAlgorithm;
+  /**
+   * Das-Dennis divisions for NSGA-III; defaults to enough directions for the
+   * survivor count, up to DEFAULT_MAX_DIRECTIONS
+   */
+  referenceDivisions?: number;
+  /** Run seed; strings are hashed with xxhash. Without seed or rng a fresh seed is drawn */
+  seed?: number | string;
+  /** Random generator to draw from (overrides seed) */
+  rng?: Rng;
+  /** Clock for timestamps and elapsed time (defaults to Date.now) */
+  clock?: () => number;
+  /** Save a checkpoint after generations so the run can be resumed */
+  checkpoint?: CheckpointOptions;
+  /** Fitness evaluator (defaults to the built-in simulation) */
+  evaluator?: Evaluator;
+  /** Evaluation concurrency, timeouts, retries and failure policy */
+  evaluation?: EvaluationPoolOptions;
+  /** Run event listeners (defaults to a console reporter; [] runs silently) */
+  listeners?: EvolutionListener[];
+  /** Crossover operator per genome layer (defaults reproduce the original crossover) */
+  crossover?: CrossoverOperators;
+  /** Mutation operators, catalog and strength schedule (defaults reproduce the original mutation) */
+  mutation?: MutationConfig;
+  /**
+   * Choose a variation operator per offspring with a UCB bandit rewarded by
+   * Pareto-front entry, instead of crossoverRate and mutationRate
+   */
+  operatorSelection?: OperatorSelectionConfig;
+  /** Keep a MAP-Elites repertoire and select for behavioral diversity (see quality-diversity.ts) */
+  qualityDiversity?: QualityDiversityConfig;
+  /** Stop before config.generations once this criterion fires (see termination.ts) */
+  stopping?: StoppingCriterion;
+  /**
+   * Per-generation front indicators (see indicators.ts). Spacing and spread are
+   * quadratic in the front size, so large runs can lower the Monte Carlo
+   * hypervolume samples (default 10000) or skip the indicators with false
+   */
+  indicators?: false | { samples?: number };
+  /** Kind of the initial agents (default 'tutor') */
+  agentKind?: AgentKind;
+  /** Prefix for agent ids, to keep ids unique across concurrent runs */
+  idPrefix?: string;
 }
 
+/**
+ * Survivor selection algorithm.
+ */
+export type SelectionAlgorithm = 'nsga2' | 'nsga3' | 'auto';
+
+/**
+ * Objective count from which 'auto' selection switches to NSGA-III.
+ */
+export const MANY_OBJECTIVE_THRESHOLD = 4;
+
 /**
  * Default evolution configuration.
  */
@@ -40,8 +177,18 @@ export const DEFAULT_EVOLUTION_CONFIG: EvolutionConfig = {
   crossoverRate: 0.7,
   mutationRate: 0.2,
   stateDimension: 8,
+  selection: 'auto',
 };
 
+/**
+ * Concrete selection algorithm for a config.
+ */
+export function resolveSelection(config: EvolutionConfig): 'nsga2' | 'nsga3' {
+  const selection = config.selection ?? 'auto';
+  if (selection !== 'auto') return selection;
+  return config.objectives.length >= MANY_OBJECTIVE_THRESHOLD ? 'nsga3' : 'nsga2';
+}
+
 /**
  * Generation statistics.
  */
@@ -51,11 +198,43 @@ export interface GenerationStats {
   paretoFrontSize: number;
   passedProofGate: number;
   failedProofGate: number;
+  /** Lowest aggregate constraint violation in the population; 0 once any agent is feasible */
+  minViolation: number;
+  /** Mean objective values, in the order of EvolutionConfig.objectives */
   avgObjectives: number[];
+  /** Objective values of a front-0 agent, in the order of EvolutionConfig.objectives */
   bestObjectives: number[];
+  /** Mean normalized objectives (lower is better); only set when normalization is configured */
+  normalizedAvgObjectives?: number[];
+  /**
+   * Front quality; distance-based indicators compare against the previous
+   * generation's front. Absent when EvolutionConfig.indicators is false
+   */
+  indicators?: ParetoIndicators;
+  /** Front hypervolume against the run's fixed bounds (hypervolume-stagnation stopping only) */
+  fixedHypervolume?: FixedHypervolume;
+  /** Evaluation failures, retries and timeouts */
+  evaluation: EvaluationSummary;
+  mutation: MutationStats;
+  /** Credit of each variation operator for the offspring evaluated this generation (operator selection only) */
+  operators?: Record<string, OperatorCredit>;
+  /** Archive coverage and novelty (quality diversity only) */
+  qualityDiversity?: QualityDiversityStats;
   timestamp: number;
 }
 
+/**
+ * Mutation strength and outcomes of a generation.
+ */
+export interface MutationStats {
+  /** Schedule strength used for this generation's offspring */
+  strength: number;
+  /** Mutated agents evaluated this generation */
+  evaluated: number;
+  /** Share of them that dominate their parent; unset when none were evaluated */
+  successRate?: number;
+}
+
 /**
  * Evolution result.
  */
@@ -64,201 +243,663 @@ export interface EvolutionResult {
   paretoFront: MetaAgent[];
   stats: GenerationStats[];
   elapsedMs: number;
+  /** Seed the run's generator was created from; unset when an rng was injected */
+  seed?: number;
+  /** Evaluation of the final population */
+  finalEvaluation: EvaluationSummary;
+  /** Elites of the MAP-Elites archive, one per behavior cell (quality diversity only) */
+  repertoire?: MetaAgent[];
+  /** Why the run stopped: all generations ran, or a stopping criterion fired */
+  stopReason: StopReason;
+  /** Objective set of the run, in the order of the agents' objective vectors */
+  objectives: ObjectiveSpec[];
 }
 
 /**
- * Evaluate an agent's objectives.
- * This is where we'd integrate with external systems (NASA, Alpaca, etc.)
- * For now, we simulate evaluation based on agent state.
+ * Objective appended in novelty search.
  */
-export async function evaluateAgent(agent: MetaAgent): Promise<void> {
-  // Simulate async evaluation (would call real APIs here)
-  await new Promise(resolve => setTimeout(resolve, 1));
-  
-  // Derive objectives from agent's current state
-  const stateNorm = Math.sqrt(
-    agent.perception.state.reduce((sum, z) => sum + z.re * z.re + z.im * z.im, 0)
-  );
-  
-  const toolCost = agent.coordination.tools.reduce((sum, t) => sum + t.cost, 0);
-  const knowledgeSize = agent.reasoning.knowledge.length;
-  
-  // Compute multi-objective fitness
-  agent.objectives.values = [
-    // gain: more knowledge + normalized state (baseline 0.2 to pass proof gate)
-    Math.min(1.0, 0.2 + knowledgeSize * 0.1 + Math.abs(1.0 - stateNorm) * 0.2),
-    // latency: inverse of complexity
-    50 + knowledgeSize * 10 + toolCost * 5,
-    // engagement: based on decision history
-    Math.min(1.0, agent.coordination.decisions.length * 0.1),
-    // fairness: balanced tool usage
-    toolCost > 0 ? Math.min(1.0, 1.0 / (1.0 + Math.abs(toolCost - 1.0))) : 0.5,
-    // privacy loss: uncertainty as proxy
-    agent.perception.uncertainty,
-    // cost: direct tool cost + knowledge maintenance
-    toolCost + knowledgeSize * 0.1,
-  ];
-  
-  agent.objectives.timestamp = Date.now();
+const NOVELTY_OBJECTIVE: ObjectiveSpec = { name: 'novelty', sense: 'max' };
+
+/**
+ * Default evaluator: the built-in simulation.
+ */
+const DEFAULT_EVALUATOR = simulationEvaluator();
+
+/**
+ * Evaluate an agent's objectives with an evaluator (the simulation by default).
+ *
+ * Evaluators report values by objective name, so any subset or reordering of
+ * DEFAULT_OBJECTIVES works; objectives the evaluator has no value for are rejected.
+ */
+export async function evaluateAgent(
+  agent: MetaAgent,
+  objectives: ObjectiveSpec[] = DEFAULT_OBJECTIVES,
+  timestamp = Date.now(),
+  evaluator: Evaluator = DEFAULT_EVALUATOR,
+  signal?: AbortSignal
+): Promise<void> {
+  const metrics = await evaluator.evaluate(agent, { objectives, signal });
+  // An abandoned (timed-out) attempt must not overwrite a later result
+  if (signal?.aborted) throw new Error(`Evaluation of ${agent.id} was aborted`);
+  agent.objectives = createObjectiveRegistry(objectives).fromRecord(metrics, timestamp);
 }
 
 /**
- * Crossover two agents to create offspring.
+ * Crossover two agents to create offspring, with an operator per layer
+ * (see crossover.ts). The default operators draw no randomness.
  */
 export function crossoverAgents(
   parent1: MetaAgent,
   parent2: MetaAgent,
-  childId: string
+  childId: string,
+  timestamp = Date.now(),
+  operators: CrossoverOperators = {},
+  random: () => number = Math.random
 ): MetaAgent {
   const child = cloneAgent(parent1, childId);
   child.generation = Math.max(parent1.generation, parent2.generation) + 1;
   
-  // Blend Hilbert states via spectral synchronization
-  const syncedState = spectralSync([parent1.perception.state, parent2.perception.state]);
-  updatePerception(child, syncedState, `crossover:${parent1.id}x${parent2.id}`);
+  // Blend Hilbert states (spectral synchronization by default)
+  const blended = crossoverState(parent1.perception.state, parent2.perception.state, operators, random);
+  updatePerception(child, blended, `crossover:${parent1.id}x${parent2.id}`, timestamp);
   
-  // Inherit knowledge from both parents (sample)
-  const combinedKnowledge = [
-    ...parent1.reasoning.knowledge.slice(0, 2),
-    ...parent2.reasoning.knowledge.slice(0, 2),
-  ];
-  child.reasoning.knowledge = combinedKnowledge;
+  // Inherit knowledge from both parents
+  child.reasoning.knowledge = crossoverKnowledge(
+    parent1.reasoning.knowledge,
+    parent2.reasoning.knowledge,
+    operators,
+    random
+  );
   
   // Inherit tools from both
-  child.coordination.tools = [
-    ...parent1.coordination.tools.slice(0, 1),
-    ...parent2.coordination.tools.slice(0, 1),
-  ];
+  child.coordination.tools = crossoverTools(parent1.coordination.tools, parent2.coordination.tools, operators);
   
-  child.lineage = [
-    ...child.lineage,
-    `crossover:gen${child.generation}`,
-  ];
+  child.lineage = appendLineage(child.lineage, `crossover:${parent1.id}+${parent2.id}:gen${child.generation}`);
+  child.parents = [parent1.id, parent2.id];
   
   return child;
 }
 
 /**
- * Mutate an agent.
+ * Mutate an agent with probability `rate`, drawing all randomness from `random`.
+ * Operators come from `config` (see mutation.ts); `strength` scales their
+ * perturbations. Returns the operators that changed the agent.
  */
-export function mutateAgent(agent: MetaAgent, rate: number): void {
-  if (Math.random() >= rate) return;
-  
-  // Mutate Hilbert state with random perturbation
-  const perturbedState = agent.perception.state.map(z => ({
-    re: z.re + (Math.random() - 0.5) * 0.2,
-    im: z.im + (Math.random() - 0.5) * 0.2,
-  }));
+export function mutateAgent(
+  agent: MetaAgent,
+  rate: number,
+  random: () => number = Math.random,
+  timestamp = Date.now(),
+  config: MutationConfig = {},
+  strength = 1
+): MutationOperatorName[] {
+  if (random() >= rate) return [];
+  return applyMutations(agent, config, random, timestamp, strength);
+}
+
+/**
+ * State of a run between generations.
+ */
+interface RunState {
+  /** Next generation to run */
+  generation: number;
+  population: MetaAgent[];
+  stats: GenerationStats[];
+  previousFront?: Genome[];
+  /** Run time accumulated before this session (resumed runs) */
+  elapsedMs: number;
+  /** Running strength of adaptive mutation schedules (default 1) */
+  mutationStrength?: number;
+  /** Operator bandit (operator selection only) */
+  bandit?: BanditState;
+  /** MAP-Elites archive (quality diversity only) */
+  archive?: MapElitesArchive;
+  /** States of past novel agents (novelty search only) */
+  noveltyArchive?: HilbertState[];
+  /** Consecutive generations front 0 kept the same ids */
+  stableFronts?: number;
+  /** Bounds of the hypervolume-stagnation criterion, frozen at the first generation */
+  hypervolumeBounds?: HypervolumeBounds;
+  /** Set once a stopping criterion fired; no further generations run */
+  stopReason?: StopReason;
+  /** Last generation's agents and parent elites, where the parent gate looks for parents */
+  ancestors?: MetaAgent[];
+}
+
+/**
+ * Per-run collaborators derived from the config.
+ */
+interface RunContext {
+  config: EvolutionConfig;
+  runId: string;
+  rng: Rng;
+  seed?: number;
+  clock: () => number;
+  proofGate: ProofGateConfig;
+  normalizer?: ObjectiveNormalizer;
+  indicatorNormalizer: ObjectiveNormalizer;
+  /** Emit an event stamped with the run id and the clock */
+  emit: (event: EvolutionEventPayload) => void;
+}
+
+function createRunContext(
+  config: EvolutionConfig,
+  listener: EvolutionListener,
+  rng: Rng,
+  seed?: number,
+  runId?: string
+): RunContext {
+  const clock = config.clock ?? Date.now;
+  const normalizer = config.normalization
+    ? createObjectiveNormalizer(config.objectives, config.normalization)
+    : undefined;
+  const id = config.checkpoint?.runId ?? runId ?? (seed !== undefined ? `run-${seed}` : 'run');
+  const proofGate: ProofGateConfig = {
+    ...config.proofGate,
+    objectives: config.proofGate.objectives ?? config.objectives,
+    random: config.proofGate.random ?? rng.next,
+    clock: config.proofGate.clock ?? clock,
+  };
+  validateProofGate(proofGate);
+  if (config.stopping) validateStoppingCriterion(config.stopping, config.objectives);
   
-  updatePerception(agent, normalize(perturbedState), 'mutation');
+  return {
+    config,
+    runId: id,
+    rng,
+    seed,
+    clock,
+    proofGate,
+    normalizer,
+    // Indicators always need a common scale; reuse the run's normalizer if there is one
+    indicatorNormalizer: normalizer ?? createObjectiveNormalizer(config.objectives),
+    emit: event => listener({ ...event, runId: id, timestamp: clock() } as EvolutionEvent),
+  };
+}
+
+/**
+ * Snapshot a run at the start of `state.generation`.
+ */
+function createCheckpoint(context: RunContext, state: RunState, elapsedMs: number): EvolutionCheckpoint {
+  return {
+    version: CHECKPOINT_VERSION,
+    runId: context.runId,
+    generation: state.generation,
+    config: toCheckpointConfig(context.config),
+    population: state.population,
+    stats: state.stats,
+    previousFront: state.previousFront?.map(g => ({ id: g.id, objectives: g.objectives })),
+    rngState: context.rng.state(),
+    seed: context.seed,
+    mutationStrength: state.mutationStrength,
+    bandit: state.bandit,
+    archive: state.archive,
+    noveltyArchive: state.noveltyArchive,
+    stableFronts: state.stableFronts,
+    hypervolumeBounds: state.hypervolumeBounds,
+    stopReason: state.stopReason,
+    // Only the parent gate reads them
+    ancestors: context.proofGate.parents ? state.ancestors : undefined,
+    normalizer: context.normalizer?.snapshot(),
+    indicatorNormalizer: context.indicatorNormalizer.snapshot(),
+    elapsedMs,
+    timestamp: context.clock(),
+  };
+}
+
+/**
+ * The serializable part of a config; the evaluator and laws are kept by name.
+ */
+export function toCheckpointConfig(config: EvolutionConfig): CheckpointConfig {
+  const { laws, random: _random, clock: _clock, ...proofGate } = config.proofGate;
+  const {
+    rng: _rng,
+    clock: _runClock,
+    checkpoint: _checkpoint,
+    listeners: _listeners,
+    evaluator,
+    ...serializable
+  } = config;
   
-  // Randomly add/remove knowledge
-  if (Math.random() < 0.3 && agent.reasoning.knowledge.length > 0) {
-    agent.reasoning.knowledge.pop();
+  return {
+    ...serializable,
+    evaluator: (evaluator ?? DEFAULT_EVALUATOR).name,
+    proofGate: { ...proofGate, laws: laws.map(law => law.name) },
+  };
+}
+
+/**
+ * Rebuild a config from its serializable part. `supplied` provides what
+ * cannot be serialized; the evaluator and laws default to the built-in ones
+ * when the stored names match them, and must match the stored names.
+ */
+export function fromCheckpointConfig(
+  stored: CheckpointConfig,
+  supplied: Partial<EvolutionConfig> = {}
+): EvolutionConfig {
+  const { laws: lawNames, ...proofGate } = stored.proofGate;
+  const laws = supplied.proofGate?.laws ??
+    (sameNames(DEFAULT_PROOF_GATE.laws, lawNames) ? DEFAULT_PROOF_GATE.laws : undefined);
+  if (!laws) {
+    throw new Error(`Checkpoint laws must be supplied on resume: ${lawNames.join(', ')}`);
+  }
+  if (!sameNames(laws, lawNames)) {
+    throw new Error(`Resumed laws do not match checkpoint: ${lawNames.join(', ')}`);
   }
   
-  if (Math.random() < 0.3) {
-    agent.reasoning.knowledge.push({
-      type: 'fact',
-      content: `learned-fact-gen${agent.generation}`,
-    });
+  const evaluator = supplied.evaluator ??
+    (stored.evaluator === SIMULATION_EVALUATOR_NAME ? DEFAULT_EVALUATOR : undefined);
+  if (!evaluator) {
+    throw new Error(`Checkpoint evaluator must be supplied on resume: ${stored.evaluator}`);
+  }
+  if (evaluator.name !== stored.evaluator) {
+    throw new Error(`Resumed evaluator does not match checkpoint: ${stored.evaluator}`);
   }
   
-  agent.lineage.push(`mutation:gen${agent.generation}`);
+  return {
+    ...stored,
+    rng: supplied.rng,
+    clock: supplied.clock,
+    checkpoint: supplied.checkpoint,
+    listeners: supplied.listeners,
+    evaluator,
+    proofGate: { ...proofGate, ...supplied.proofGate, laws },
+  };
 }
 
 /**
- * Run multi-generation evolution.
+ * Evaluate a population through the pool and apply the failure policy.
+ * Penalized agents get the worst evaluated objective values and skip the
+ * proof gate; dropped agents leave the population.
  */
-export async function evolve(config: EvolutionConfig = DEFAULT_EVOLUTION_CONFIG): Promise<EvolutionResult> {
-  const startTime = Date.now();
-  const stats: GenerationStats[] = [];
-  
-  // Initialize population
-  let population: MetaAgent[] = Array.from(
-    { length: config.populationSize },
-    (_, i) => createAgent(`agent-gen0-${i}`, 'tutor', config.stateDimension)
+async function evaluatePopulation(
+  context: RunContext,
+  evaluator: Evaluator,
+  population: MetaAgent[],
+  generation: number
+): Promise<{ population: MetaAgent[]; penalized: Set<MetaAgent>; summary: EvaluationSummary }> {
+  const { config, clock, emit } = context;
+  const { evaluated, failed, summary } = await runEvaluationPool(
+    population,
+    (agent, signal) => evaluateAgent(agent, config.objectives, clock(), evaluator, signal),
+    config.evaluation
   );
   
+  for (const agent of evaluated) {
+    emit({ type: 'evaluation', generation, agentId: agent.id, objectives: [...agent.objectives.values] });
+  }
+  for (const failure of summary.failures) {
+    emit({ type: 'evaluation:failure', generation, failure });
+  }
+  if (evaluated.length === 0 && population.length > 0) {
+    throw new Error(
+      `All ${population.length} evaluations failed at generation ${generation}: ${summary.failures[0].error}`
+    );
+  }
+  
+  if (config.evaluation?.onFailure === 'drop') {
+    const dropped = new Set(failed);
+    for (const agent of failed) emit({ type: 'death', generation, agentId: agent.id, reason: 'dropped' });
+    return { population: population.filter(a => !dropped.has(a)), penalized: new Set(), summary };
+  }
+  
+  if (failed.length > 0) {
+    const penalty = penaltyObjectives(evaluated.map(a => a.objectives), config.objectives, clock());
+    for (const agent of failed) {
+      agent.objectives = { ...penalty, values: [...penalty.values] };
+      agent.proof = undefined;
+    }
+  }
+  return { population, penalized: new Set(failed), summary };
+}
+
+/**
+ * Announce a run, and the initial population of a new one.
+ */
+function emitRunStart(context: RunContext, state: RunState): void {
+  const { config, emit } = context;
+  emit({
+    type: 'run:start',
+    generation: state.generation,
+    generations: config.generations,
+    populationSize: config.populationSize,
+    seed: context.seed,
+    resumed: state.generation > 0,
+  });
+  if (state.generation === 0) {
+    for (const agent of state.population) {
+      emit({ type: 'birth', generation: 0, agentId: agent.id, parents: [], operator: 'init' });
+    }
+  }
+}
+
+/**
+ * Run generations from `state.generation` up to (not including) `until`,
+ * never past the end of the run. `startTime` is when this session started.
+ */
+async function runGenerations(
+  context: RunContext,
+  state: RunState,
+  until: number,
+  startTime: number
+): Promise<RunState> {
+  const { config, clock, proofGate, normalizer, indicatorNormalizer, emit } = context;
+  const evaluator = config.evaluator ?? DEFAULT_EVALUATOR;
+  const random = context.rng.next;
+  const checkpointEvery = Math.max(1, config.checkpoint?.every ?? 1);
+  const idPrefix = config.idPrefix ?? '';
+  const end = Math.min(until, config.generations);
+  const schedule = config.mutation?.schedule;
+  const { stats } = state;
+  let { population, previousFront, noveltyArchive } = state;
+  const qd = config.qualityDiversity;
+  const archive = state.archive ?? (qd && createArchive(qd));
+  let mutationStrength = state.mutationStrength ?? 1;
+  let stableFronts = state.stableFronts ?? 0;
+  let bounds = state.hypervolumeBounds;
+  let stopReason = state.stopReason;
+  let ancestors = state.ancestors ?? [];
+  const bandit = state.bandit ?? (config.operatorSelection && createOperatorBandit(
+    config.operatorSelection.operators ?? ['crossover', ...(config.mutation?.operators ?? DEFAULT_MUTATION_OPERATORS)],
+    config.operatorSelection.explorationRate
+  ));
+  
   // Evolution loop
-  for (let gen = 0; gen < config.generations; gen++) {
-    console.log(`\n🎵 Generation ${gen}/${config.generations}`);
+  for (let gen = state.generation; gen < end && !stopReason; gen++) {
+    emit({
+      type: 'generation:start',
+      generation: gen,
+      generations: config.generations,
+      populationSize: population.length,
+    });
     
     // Step 1: Evaluate all agents
-    await Promise.all(population.map(agent => evaluateAgent(agent)));
-    
-    // Step 2: Apply proof gate
-    const { passed, failed, results } = applyProofGate(population, config.proofGate);
-    console.log(`   Proof gate: ${passed.length} passed, ${failed.length} failed`);
+    const evaluation = await evaluatePopulation(context, evaluator, population, gen);
+    population = evaluation.population;
+    const { penalized } = evaluation;
     
-    if (passed.length === 0) {
-      console.warn(`   ⚠️  No agents passed proof gate at generation ${gen}`);
-      break;
+    // Score last generation's mutations; adaptive schedules update their strength
+    const outcomes = collectMutationOutcomes(population, config.objectives, penalized);
+    const successRate = outcomes.evaluated > 0 ? outcomes.successes / outcomes.evaluated : undefined;
+    if (schedule?.type === 'one-fifth') {
+      if (successRate !== undefined) mutationStrength = oneFifthUpdate(mutationStrength, successRate, schedule);
+    } else {
+      mutationStrength = scheduledStrength(schedule, gen, config.generations);
     }
     
-    // Step 3: Pareto sorting
-    const genomes: Genome[] = passed.map(agent => ({
+    // Step 2: Apply proof gate (agents whose evaluation failed fail it outright)
+    const gate = applyProofGate(population.filter(a => !penalized.has(a)), proofGate, [...population, ...ancestors]);
+    const { passed, results } = gate;
+    const failed = [...gate.failed, ...penalized];
+    emit({ type: 'gate', generation: gen, passed: passed.map(a => a.id), failed: failed.map(a => a.id) });
+    
+    // Step 3: Pareto sorting under constrained domination.
+    // Failed agents stay in the pool so near-feasible ones can still guide the search.
+    const genomes: Genome[] = population.map(agent => ({
       id: agent.id,
       objectives: agent.objectives,
+      violation: penalized.has(agent) ? Infinity : constraintViolation(results.get(agent.id)!),
       agent,
     }));
     
     const fronts = fastNonDominatedSort(genomes, config.objectives);
     const paretoFront = fronts[0] || [];
     
-    console.log(`   Pareto front: ${paretoFront.length} agents`);
+    // Reward the operators of last generation's offspring for entering the front
+    const operators = bandit && creditOperators(
+      bandit,
+      population,
+      new Set(paretoFront.map(g => g.agent as MetaAgent)),
+      penalized
+    );
+    
+    // Offer feasible agents to the archive and score novelty in Hilbert space
+    let novelty: number[] | undefined;
+    let qualityDiversity: QualityDiversityStats | undefined;
+    if (qd && archive) {
+      for (const agent of passed) insertElite(archive, agent, config.objectives, qd);
+      qualityDiversity = { archiveSize: Object.keys(archive.cells).length, coverage: archiveCoverage(archive) };
+      if (qd.mode === 'novelty') {
+        const states = population.map(a => a.perception.state);
+        novelty = noveltyScores(states, noveltyArchive, qd.neighbours);
+        noveltyArchive = updateNoveltyArchive(
+          noveltyArchive ?? [],
+          states,
+          novelty,
+          qd.noveltyThreshold,
+          qd.noveltyArchiveLimit
+        );
+        qualityDiversity.meanNovelty = novelty.reduce((s, v) => s + v, 0) / novelty.length;
+        qualityDiversity.noveltyArchiveSize = noveltyArchive.length;
+      }
+    }
     
-    // Step 4: Collect stats
+    // Step 4: Collect stats (over feasible agents while there are any)
+    const scored = passed.length > 0 ? passed : population;
     const avgObjectives = config.objectives.map((_, i) => {
-      const sum = passed.reduce((s, a) => s + a.objectives.values[i], 0);
-      return sum / passed.length;
+      const sum = scored.reduce((s, a) => s + a.objectives.values[i], 0);
+      return sum / scored.length;
     });
     
-    const bestAgent = paretoFront[0]?.agent || passed[0];
+    const bestAgent = (paretoFront[0]?.agent as MetaAgent | undefined) ?? scored[0];
+    
+    // Front 0 is the non-dominated set of `scored` whenever any agent is feasible
+    const front = paretoFront.map(g => g.objectives);
+    if (!normalizer) indicatorNormalizer.observe(scored.map(a => a.objectives), front);
+    
+    let normalizedAvgObjectives: number[] | undefined;
+    if (normalizer) {
+      normalizer.observe(scored.map(a => a.objectives), front);
+      const normalized = scored.map(a => normalizer.normalize(a.objectives));
+      normalizedAvgObjectives = config.objectives.map((_, i) =>
+        normalized.reduce((s, v) => s + v[i], 0) / normalized.length
+      );
+    }
+    
+    const indicators = config.indicators === false ? undefined : paretoIndicators(
+      paretoFront,
+      config.objectives,
+      { normalizer: indicatorNormalizer, random, samples: config.indicators?.samples },
+      previousFront
+    );
+    let fixed: FixedHypervolume | undefined;
+    if (config.stopping && usesCriterion(config.stopping, 'hypervolume-stagnation')) {
+      bounds ??= hypervolumeBounds(scored.map(a => a.objectives), config.objectives);
+      fixed = fixedHypervolume(front, config.objectives, bounds);
+    }
+    const frontIds = new Set(paretoFront.map(g => g.id));
+    const sameFront = previousFront?.length === frontIds.size && previousFront.every(g => frontIds.has(g.id));
+    stableFronts = sameFront ? stableFronts + 1 : 0;
+    previousFront = paretoFront.map(g => ({
+      id: g.id,
+      objectives: { ...g.objectives, values: [...g.objectives.values] },
+    }));
     
-    stats.push({
+    const generationStats: GenerationStats = {
       generation: gen,
       populationSize: population.length,
       paretoFrontSize: paretoFront.length,
       passedProofGate: passed.length,
       failedProofGate: failed.length,
+      minViolation: Math.min(...genomes.map(g => g.violation ?? 0)),
       avgObjectives,
       bestObjectives: bestAgent.objectives.values,
-      timestamp: Date.now(),
-    });
+      normalizedAvgObjectives,
+      indicators,
+      fixedHypervolume: fixed,
+      evaluation: evaluation.summary,
+      mutation: { strength: mutationStrength, evaluated: outcomes.evaluated, successRate },
+      operators,
+      qualityDiversity,
+      timestamp: clock(),
+    };
+    stats.push(generationStats);
+    emit({ type: 'generation:end', generation: gen, stats: generationStats });
+    
+    if (config.stopping && gen < config.generations - 1) {
+      const reason = checkTermination(config.stopping, {
+        generation: gen,
+        stats,
+        feasible: passed,
+        objectives: config.objectives,
+        elapsedMs: state.elapsedMs + clock() - startTime,
+        stableFronts,
+      });
+      if (reason) stopReason = { ...reason, generation: gen };
+    }
     
-    // Step 5: Selection and reproduction
-    if (gen < config.generations - 1) {
-      const survivors = nsga2Select(genomes, config.objectives, Math.floor(config.populationSize * 0.5));
+    // Step 5: Selection and reproduction (the last generation keeps the feasible agents)
+    if (gen < config.generations - 1 && !stopReason) {
+      const survivorCount = Math.floor(config.populationSize * 0.5);
+      const algorithm = resolveSelection(config);
+      
+      // Novelty search selects on novelty as an extra (or the only) objective
+      let candidates = genomes;
+      let specs = config.objectives;
+      if (novelty) {
+        const scores = novelty;
+        candidates = genomes.map((g, i) => ({
+          ...g,
+          objectives: { ...g.objectives, values: qd?.noveltyOnly ? [scores[i]] : [...g.objectives.values, scores[i]] },
+        }));
+        specs = qd?.noveltyOnly ? [NOVELTY_OBJECTIVE] : [...config.objectives, NOVELTY_OBJECTIVE];
+      }
+      const survivors = algorithm === 'nsga3'
+        ? nsga3Select(candidates, specs, survivorCount, { divisions: config.referenceDivisions, random })
+        : nsga2Select(candidates, specs, survivorCount, novelty ? undefined : normalizer);
+      
+      const survivorIds = new Set(survivors.map(g => g.id));
+      emit({ type: 'selection', generation: gen, algorithm, survivors: [...survivorIds] });
+      for (const genome of genomes) {
+        if (!survivorIds.has(genome.id)) {
+          emit({ type: 'death', generation: gen, agentId: genome.id, reason: 'selection' });
+        }
+      }
       
       const nextGen: MetaAgent[] = [...survivors.map(g => g.agent as MetaAgent)];
+      const pick = bandit && operatorPicker(bandit, random);
+      
+      // MAP-Elites draws parents uniformly from the archive's elites
+      const elites = qd?.mode === 'map-elites' && archive ? archiveElites(archive) : [];
+      const selectParent = () => elites.length > 0
+        ? elites[Math.floor(random() * elites.length)]
+        : tournamentSelect(candidates, random).agent as MetaAgent;
       
       // Create offspring via crossover and mutation
       while (nextGen.length < config.populationSize) {
-        const parent1 = tournamentSelect(genomes).agent as MetaAgent;
-        const parent2 = tournamentSelect(genomes).agent as MetaAgent;
+        const parent1 = selectParent();
+        const parent2 = selectParent();
+        const operator: VariationOperator | undefined = pick?.();
         
         let child: MetaAgent;
-        if (Math.random() < config.crossoverRate) {
-          child = crossoverAgents(parent1, parent2, `agent-gen${gen + 1}-${nextGen.length}`);
+        const crossed = operator ? operator === 'crossover' : random() < config.crossoverRate;
+        if (crossed) {
+          child = crossoverAgents(
+            parent1,
+            parent2,
+            `${idPrefix}agent-gen${gen + 1}-${nextGen.length}`,
+            clock(),
+            config.crossover,
+            random
+          );
         } else {
-          child = cloneAgent(parent1, `agent-gen${gen + 1}-${nextGen.length}`);
+          child = cloneAgent(parent1, `${idPrefix}agent-gen${gen + 1}-${nextGen.length}`);
           child.generation = gen + 1;
         }
         
-        mutateAgent(child, config.mutationRate);
+        let applied: MutationOperatorName[] = [];
+        if (!operator) {
+          applied = mutateAgent(child, config.mutationRate, random, clock(), config.mutation, mutationStrength);
+        } else if (operator !== 'crossover') {
+          // A selected mutation operator always applies
+          const only: MutationConfig = { ...config.mutation, operators: [operator], probabilities: {} };
+          applied = applyMutations(child, only, random, clock(), mutationStrength);
+        }
+        if (applied.length > 0) markMutated(child, parent1.objectives.values);
+        if (operator) markOffspring(child, operator);
+        emit({
+          type: 'birth',
+          generation: gen + 1,
+          agentId: child.id,
+          parents: child.parents,
+          operator: crossed ? 'crossover' : 'clone',
+          mutations: applied,
+        });
         nextGen.push(child);
       }
       
+      // Parents that did not survive stay reachable for the parent gate
+      ancestors = [...population, ...elites];
       population = nextGen;
     } else {
+      for (const agent of failed) emit({ type: 'death', generation: gen, agentId: agent.id, reason: 'gate' });
       population = passed;
     }
+    
+    // Step 6: Checkpoint the state entering the next generation
+    const last = gen === config.generations - 1 || stopReason !== undefined;
+    if (config.checkpoint && ((gen + 1) % checkpointEvery === 0 || last)) {
+      const next: RunState = {
+        generation: gen + 1,
+        population,
+        stats,
+        previousFront,
+        elapsedMs: state.elapsedMs,
+        mutationStrength,
+        bandit,
+        archive,
+        noveltyArchive,
+        stableFronts,
+        hypervolumeBounds: bounds,
+        stopReason,
+        ancestors,
+      };
+      await config.checkpoint.store.save(
+        createCheckpoint(context, next, state.elapsedMs + clock() - startTime)
+      );
+      emit({ type: 'checkpoint', generation: gen + 1 });
+    }
   }
   
+  return {
+    generation: stopReason ? stopReason.generation + 1 : Math.max(state.generation, end),
+    population,
+    stats,
+    previousFront,
+    elapsedMs: state.elapsedMs,
+    mutationStrength,
+    bandit,
+    archive,
+    noveltyArchive,
+    stableFronts,
+    hypervolumeBounds: bounds,
+    stopReason,
+    ancestors,
+  };
+}
+
+/**
+ * Evaluate the final population and assemble the result.
+ */
+async function finishRun(context: RunContext, state: RunState, startTime: number): Promise<EvolutionResult> {
+  const { config, clock, proofGate, emit } = context;
+  const evaluator = config.evaluator ?? DEFAULT_EVALUATOR;
+  const { population, stats } = state;
+  
   // Final evaluation and sorting
-  await Promise.all(population.map(agent => evaluateAgent(agent)));
-  const { passed: finalPassed } = applyProofGate(population, config.proofGate);
+  const finalEvaluation = await evaluatePopulation(context, evaluator, population, config.generations);
+  const finalGate = applyProofGate(
+    finalEvaluation.population.filter(a => !finalEvaluation.penalized.has(a)),
+    proofGate,
+    [...finalEvaluation.population, ...(state.ancestors ?? [])]
+  );
+  const finalPassed = finalGate.passed;
+  emit({
+    type: 'gate',
+    generation: config.generations,
+    passed: finalPassed.map(a => a.id),
+    failed: [...finalGate.failed, ...finalEvaluation.penalized].map(a => a.id),
+  });
   
   const finalGenomes: Genome[] = finalPassed.map(agent => ({
     id: agent.id,
@@ -269,15 +910,254 @@ export async function evolve(config: EvolutionConfig = DEFAULT_EVOLUTION_CONFIG)
   const finalFronts = fastNonDominatedSort(finalGenomes, config.objectives);
   const finalParetoFront = (finalFronts[0] || []).map(g => g.agent as MetaAgent);
   
-  const elapsedMs = Date.now() - startTime;
+  if (state.archive) {
+    for (const agent of finalPassed) insertElite(state.archive, agent, config.objectives, config.qualityDiversity);
+  }
+  
+  const elapsedMs = state.elapsedMs + clock() - startTime;
+  const stopReason: StopReason = state.stopReason ?? {
+    criterion: 'generations',
+    message: `Ran all ${config.generations} generations`,
+    generation: config.generations - 1,
+  };
   
-  console.log(`\n✅ Evolution complete in ${elapsedMs}ms`);
-  console.log(`   Final Pareto front: ${finalParetoFront.length} agents`);
+  emit({
+    type: 'run:end',
+    elapsedMs,
+    finalPopulationSize: finalPassed.length,
+    paretoFrontSize: finalParetoFront.length,
+    stopReason,
+  });
   
   return {
     finalPopulation: finalPassed,
     paretoFront: finalParetoFront,
     stats,
     elapsedMs,
+    seed: context.seed,
+    finalEvaluation: finalEvaluation.summary,
+    repertoire: state.archive && archiveElites(state.archive),
+    stopReason,
+    objectives: context.config.objectives,
   };
 }
+
+/**
+ * Run generations from `state` to the end of the run, then evaluate the final population.
+ */
+async function runEvolution(context: RunContext, state: RunState): Promise<EvolutionResult> {
+  const startTime = context.clock();
+  emitRunStart(context, state);
+  const finalState = await runGenerations(context, state, context.config.generations, startTime);
+  return finishRun(context, finalState, startTime);
+}
+
+/**
+ * Run multi-generation evolution.
+ * All randomness comes from one generator, so with a fixed clock the same
+ * seed gives a bit-identical result.
+ */
+export function evolve(config: EvolutionConfig = DEFAULT_EVOLUTION_CONFIG): Promise<EvolutionResult> {
+  return startEvolution(config).result;
+}
+
+/**
+ * Start an observable run: hook into its events or iterate them while it runs.
+ * `config.listeners` (default: a console reporter) are attached from the start.
+ */
+export function startEvolution(config: EvolutionConfig = DEFAULT_EVOLUTION_CONFIG): EvolutionRun {
+  return createEvolutionRun(emit => runNew(config, emit), config.listeners ?? [consoleReporter()]);
+}
+
+async function runNew(config: EvolutionConfig, listener: EvolutionListener): Promise<EvolutionResult> {
+  const { context, state } = await initRun(config, listener);
+  return runEvolution(context, state);
+}
+
+/**
+ * Seed a new run and create its initial population.
+ */
+async function initRun(
+  config: EvolutionConfig,
+  listener: EvolutionListener
+): Promise<{ context: RunContext; state: RunState }> {
+  let rng = config.rng;
+  let seed: number | undefined;
+  if (!rng) {
+    seed = typeof config.seed === 'string' ? await seedFromString(config.seed) : config.seed ?? randomSeed();
+    rng = createRng(seed);
+  }
+  const context = createRunContext(config, listener, rng, seed);
+  
+  // Initialize population
+  const population: MetaAgent[] = Array.from(
+    { length: config.populationSize },
+    (_, i) => createAgent(
+      `${config.idPrefix ?? ''}agent-gen0-${i}`,
+      config.agentKind ?? 'tutor',
+      config.stateDimension,
+      config.objectives,
+      context.clock()
+    )
+  );
+  
+  return { context, state: { generation: 0, population, stats: [], elapsedMs: 0 } };
+}
+
+/**
+ * Continue a run from a checkpoint. The result is bit-identical to the
+ * uninterrupted run (given the same clock).
+ *
+ * The checkpoint's config is used as-is; `config` supplies what cannot be
+ * serialized (clock, checkpoint store, and the evaluator and proof-gate laws
+ * unless they are the defaults). The RNG always resumes from the checkpoint's state.
+ */
+export function resumeEvolution(
+  checkpoint: EvolutionCheckpoint,
+  config: Partial<EvolutionConfig> = {}
+): Promise<EvolutionResult> {
+  return createEvolutionRun(
+    emit => runResumed(checkpoint, config, emit),
+    config.listeners ?? [consoleReporter()]
+  ).result;
+}
+
+async function runResumed(
+  checkpoint: EvolutionCheckpoint,
+  config: Partial<EvolutionConfig>,
+  listener: EvolutionListener
+): Promise<EvolutionResult> {
+  // The RNG always resumes from the checkpoint's state
+  const resumed = fromCheckpointConfig(checkpoint.config, { ...config, rng: undefined });
+  const context = createRunContext(
+    resumed,
+    listener,
+    restoreRng(checkpoint.rngState),
+    checkpoint.seed,
+    checkpoint.runId
+  );
+  if (context.normalizer && checkpoint.normalizer) context.normalizer.restore(checkpoint.normalizer);
+  context.indicatorNormalizer.restore(checkpoint.indicatorNormalizer);
+  
+  return runEvolution(context, {
+    generation: checkpoint.generation,
+    population: checkpoint.population,
+    stats: checkpoint.stats,
+    previousFront: checkpoint.previousFront,
+    elapsedMs: checkpoint.elapsedMs,
+    mutationStrength: checkpoint.mutationStrength,
+    bandit: checkpoint.bandit,
+    archive: checkpoint.archive,
+    noveltyArchive: checkpoint.noveltyArchive,
+    stableFronts: checkpoint.stableFronts,
+    hypervolumeBounds: checkpoint.hypervolumeBounds,
+    stopReason: checkpoint.stopReason,
+    ancestors: checkpoint.ancestors,
+  });
+}
+
+/**
+ * A run driven step by step, e.g. by the island model between migrations.
+ */
+export interface EvolutionSession {
+  readonly runId: string;
+
+  /** Next generation to run */
+  readonly generation: number;
+
+  /** Population entering the next generation, selected survivors first */
+  readonly population: MetaAgent[];
+
+  /** Set once a stopping criterion fired; advance makes no further progress */
+  readonly stopReason?: StopReason;
+
+  /** Run up to `count` more generations, never past config.generations */
+  advance(count?: number): Promise<void>;
+
+  /**
+   * Swap agents out of the population for incoming ones (e.g. migrants).
+   * `sources` are the ids the incoming agents derive from, in order.
+   */
+  replace(outgoing: string[], incoming: MetaAgent[], sources?: string[]): void;
+
+  /** Run any remaining generations, evaluate the final population and end the run */
+  finish(): Promise<EvolutionResult>;
+}
+
+/**
+ * Start a run that advances only when asked. Events go to `config.listeners`
+ * (default: a console reporter); the run id defaults to `run-<seed>`.
+ */
+export async function createEvolutionSession(
+  config: EvolutionConfig = DEFAULT_EVOLUTION_CONFIG
+): Promise<EvolutionSession> {
+  const listeners = config.listeners ?? [consoleReporter()];
+  const { context, state: initial } = await initRun(config, event => listeners.forEach(l => l(event)));
+  const startTime = context.clock();
+  let state = initial;
+  emitRunStart(context, state);
+
+  return {
+    runId: context.runId,
+    get generation() {
+      return state.generation;
+    },
+    get population() {
+      return state.population;
+    },
+    get stopReason() {
+      return state.stopReason;
+    },
+    advance: async (count = 1) => {
+      state = await runGenerations(context, state, state.generation + count, startTime);
+    },
+    replace: (outgoing, incoming, sources = []) => {
+      const leaving = new Set(outgoing);
+      for (const id of leaving) {
+        context.emit({ type: 'death', generation: state.generation, agentId: id, reason: 'migration' });
+      }
+      incoming.forEach((agent, i) => {
+        context.emit({
+          type: 'birth',
+          generation: state.generation,
+          agentId: agent.id,
+          parents: sources[i] === undefined ? [] : [sources[i]],
+          operator: 'migration',
+        });
+      });
+      state = { ...state, population: [...state.population.filter(a => !leaving.has(a.id)), ...incoming] };
+    },
+    finish: async () => {
+      state = await runGenerations(context, state, context.config.generations, startTime);
+      return finishRun(context, state, startTime);
+    },
+  };
+}
+
+function sameNames(laws: { name: string }[], names: string[]): boolean {
+  return laws.length === names.length && laws.every((law, i) => law.name === names[i]);
+}
+
+/**
+ * Pick a single agent from the Pareto front under a scalarization, over the
+ * run's objective set. Without a normalizer in the config, objectives are
+ * min-max normalized over the front itself so that mixed units weigh in comparably.
+ */
+export function recommendAgent(
+  result: EvolutionResult,
+  scalarization: ScalarizationConfig = { method: 'augmented-tchebycheff' }
+): MetaAgent | undefined {
+  const { objectives } = result;
+  const front = result.paretoFront;
+  if (front.length === 0) return undefined;
+  
+  const vectors = front.map(a => a.objectives);
+  let config = scalarization;
+  if (!config.normalizer) {
+    const normalizer = createObjectiveNormalizer(objectives, { mode: 'min-max' });
+    normalizer.observe(vectors);
+    config = { ...config, normalizer };
+  }
+  
+  return front[rankByScalarization(vectors, objectives, config)[0]];
+}
@@ -0,0 +1,160 @@
+/**
+ * SPEC TEST: genealogy.spec.ts
+ * Paired with genealogy.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createGenealogy, type Genealogy } from './genealogy';
+import { DEFAULT_EVOLUTION_CONFIG, evolve } from './evolution';
+import type { EvolutionEvent } from './events';
+import type { ObjectiveSpec } from '../laws-physics/objectives';
+
+const objectives: ObjectiveSpec[] = [
+  { name: 'gain', sense: 'max' },
+  { name: 'cost', sense: 'min' },
+];
+
+const base = { runId: 'run', timestamp: 0 };
+
+function birth(
+  agentId: string,
+  generation: number,
+  parents: string[] = [],
+  operator: 'init' | 'crossover' | 'clone' = 'init',
+  mutations: string[] = []
+): EvolutionEvent {
+  return { ...base, type: 'birth', agentId, generation, parents, operator, mutations };
+}
+
+function evaluation(agentId: string, generation: number, values: number[]): EvolutionEvent {
+  return { ...base, type: 'evaluation', agentId, generation, objectives: values };
+}
+
+/**
+ * a, b (gen 0) -> c = a x b, d = clone(a) + gaussian-state (gen 1) -> e = c x d (gen 2)
+ */
+function family(): Genealogy {
+  const genealogy = createGenealogy(objectives);
+  const events: EvolutionEvent[] = [
+    birth('a', 0),
+    birth('b', 0),
+    evaluation('a', 0, [1, 5]),
+    evaluation('b', 0, [2, 4]),
+    birth('c', 1, ['a', 'b'], 'crossover'),
+    birth('d', 1, ['a'], 'clone', ['gaussian-state']),
+    { ...base, type: 'death', agentId: 'b', generation: 0, reason: 'selection' },
+    evaluation('a', 1, [1, 5]),
+    evaluation('c', 1, [3, 4]),
+    evaluation('d', 1, [4, 2]),
+    birth('e', 2, ['c', 'd'], 'crossover'),
+    evaluation('e', 2, [3, 3]),
+  ];
+  events.forEach(genealogy.listener);
+  return genealogy;
+}
+
+describe('genealogy - graph', () => {
+  it('should record nodes, parent edges and objective deltas', () => {
+    const genealogy = family();
+
+    expect(genealogy.nodes().map(n => n.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(genealogy.node('d')).toMatchObject({ generation: 1, operator: 'clone', mutations: ['gaussian-state'] });
+    expect(genealogy.node('b')?.death).toEqual({ generation: 0, reason: 'selection' });
+    expect(genealogy.edges()).toContainEqual({ parent: 'a', child: 'd', delta: [3, -3] });
+    expect(genealogy.edges()).toContainEqual({ parent: 'd', child: 'e', delta: [-1, 1] });
+  });
+
+  it('should keep the delta of the first evaluation', () => {
+    const genealogy = family();
+    genealogy.listener(evaluation('d', 2, [0, 9]));
+
+    expect(genealogy.node('d')?.objectives).toEqual([0, 9]);
+    expect(genealogy.edges()).toContainEqual({ parent: 'a', child: 'd', delta: [3, -3] });
+  });
+
+  it('should list ancestors and descendants nearest first', () => {
+    const genealogy = family();
+
+    expect(genealogy.ancestors('e')).toEqual(['c', 'd', 'a', 'b']);
+    expect(genealogy.descendants('a')).toEqual(['c', 'd', 'e']);
+    expect(genealogy.ancestors('a')).toEqual([]);
+  });
+
+  it('should find the most recent common ancestor', () => {
+    const genealogy = family();
+
+    expect(genealogy.mostRecentCommonAncestor('c', 'd')).toBe('a');
+    expect(genealogy.mostRecentCommonAncestor('e', 'c')).toBe('c');
+    expect(genealogy.mostRecentCommonAncestor('a', 'b')).toBeUndefined();
+  });
+});
+
+describe('genealogy - operator gains', () => {
+  it('should credit birth operators and mutations, signed by sense', () => {
+    const gains = family().operatorGains('cost');
+
+    expect(gains[0]).toEqual({ operator: 'clone', edges: 1, meanGain: 3, maxGain: 3 });
+    expect(gains.find(g => g.operator === 'gaussian-state')?.meanGain).toBe(3);
+    expect(gains.find(g => g.operator === 'crossover')?.edges).toBe(4);
+  });
+
+  it('should report the single biggest gain', () => {
+    expect(family().biggestGain('gain')).toEqual({
+      operator: 'clone+gaussian-state',
+      edge: { parent: 'a', child: 'd', delta: [3, -3] },
+      gain: 3,
+    });
+  });
+
+  it('should reject unknown objectives', () => {
+    expect(() => family().biggestGain('latency')).toThrow('Unknown objective: latency');
+  });
+});
+
+describe('genealogy - export', () => {
+  it('should export JSON', () => {
+    const json = family().toJSON();
+
+    expect(json.objectives).toEqual(['gain', 'cost']);
+    expect(json.nodes).toHaveLength(5);
+    expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+  });
+
+  it('should export DOT with generations ranked together', () => {
+    const dot = family().toDOT();
+
+    expect(dot.startsWith('digraph genealogy {')).toBe(true);
+    expect(dot).toContain('{ rank=same; "c"; "d"; }');
+    expect(dot).toContain('"b" [label="b\\ngen 0\\ninit", style=dashed];');
+    expect(dot).toContain('"a" -> "d" [label="3.000, -3.000"];');
+  });
+
+  it('should escape quotes in ids', () => {
+    const genealogy = createGenealogy(objectives);
+    genealogy.listener(birth('say "hi"', 0));
+
+    expect(genealogy.toDOT()).toContain('"say \\"hi\\"" [label="say \\"hi\\"\\ngen 0\\ninit"];');
+  });
+});
+
+describe('genealogy - evolution runs', () => {
+  it('should trace every agent of a run back to the initial population', async () => {
+    const genealogy = createGenealogy(DEFAULT_EVOLUTION_CONFIG.objectives);
+    const result = await evolve({
+      ...DEFAULT_EVOLUTION_CONFIG,
+      populationSize: 6,
+      generations: 3,
+      mutationRate: 1,
+      seed: 5,
+      clock: () => 0,
+      listeners: [genealogy.listener],
+    });
+
+    for (const agent of result.finalPopulation) {
+      const roots = [agent.id, ...genealogy.ancestors(agent.id)].filter(id => genealogy.node(id)?.generation === 0);
+      expect(roots.length).toBeGreaterThan(0);
+    }
+    expect(genealogy.edges().every(edge => edge.delta !== undefined)).toBe(true);
+    expect(genealogy.nodes().some(node => node.mutations.length > 0)).toBe(true);
+  });
+});
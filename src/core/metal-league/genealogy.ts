@@ -0,0 +1,268 @@
+/**
+ * Genealogy
+ *
+ * A DAG of every agent a run produced, built from its birth, evaluation and
+ * death events. Each agent is a node carrying the operator that made it and
+ * the mutations applied to it; each parent edge carries the objective delta
+ * (child - parent) once the child is evaluated. Unlike MetaAgent.lineage, which
+ * only keeps recent entries, the genealogy keeps the whole history and answers
+ * queries: ancestors, descendants, most recent common ancestor, and which
+ * operator produced the biggest gain. Exports to JSON and Graphviz DOT.
+ *
+ * Attach it as a listener:
+ *   const genealogy = createGenealogy(config.objectives);
+ *   await evolve({ ...config, listeners: [consoleReporter(), genealogy.listener] });
+ */
+
+import { DEFAULT_OBJECTIVES, type ObjectiveSpec } from '../laws-physics/objectives';
+import type { BirthEvent, DeathEvent, EvolutionListener } from './events';
+
+export interface GenealogyNode {
+  id: string;
+
+  /** Generation the agent entered */
+  generation: number;
+
+  parents: string[];
+  operator: BirthEvent['operator'];
+
+  /** Mutation operators applied at birth */
+  mutations: string[];
+
+  /** Latest evaluated objectives */
+  objectives?: number[];
+
+  death?: { generation: number; reason: DeathEvent['reason'] };
+}
+
+export interface GenealogyEdge {
+  parent: string;
+  child: string;
+
+  /** Child objectives minus the parent's at the child's first evaluation */
+  delta?: number[];
+}
+
+/**
+ * Gains of one operator on one objective, signed so that positive is better.
+ */
+export interface OperatorGain {
+  operator: string;
+  edges: number;
+  meanGain: number;
+  maxGain: number;
+}
+
+export interface GenealogyJSON {
+  objectives: string[];
+  nodes: GenealogyNode[];
+  edges: GenealogyEdge[];
+}
+
+export interface Genealogy {
+  /** Feeds the genealogy; add it to EvolutionConfig.listeners */
+  listener: EvolutionListener;
+
+  node(id: string): GenealogyNode | undefined;
+  nodes(): GenealogyNode[];
+  edges(): GenealogyEdge[];
+
+  /** Ancestor ids, nearest first */
+  ancestors(id: string): string[];
+
+  /** Descendant ids, nearest first */
+  descendants(id: string): string[];
+
+  /**
+   * The common ancestor of `a` and `b` (either may be the other's ancestor)
+   * from the latest generation, or undefined if they share none
+   */
+  mostRecentCommonAncestor(a: string, b: string): string | undefined;
+
+  /**
+   * Gains on `objective` per operator, best mean first. An edge credits the
+   * child's birth operator and every mutation applied to it.
+   */
+  operatorGains(objective: string): OperatorGain[];
+
+  /** The single parent-to-child step with the largest gain on `objective` */
+  biggestGain(objective: string): { operator: string; edge: GenealogyEdge; gain: number } | undefined;
+
+  toJSON(): GenealogyJSON;
+  toDOT(): string;
+}
+
+/**
+ * Operators credited for a node: its birth operator and its mutations.
+ */
+function nodeOperators(node: GenealogyNode): string[] {
+  return [node.operator, ...node.mutations];
+}
+
+/**
+ * Create an empty genealogy for runs over `objectives`.
+ */
+export function createGenealogy(objectives: ObjectiveSpec[] = DEFAULT_OBJECTIVES): Genealogy {
+  const nodes = new Map<string, GenealogyNode>();
+  const edges: GenealogyEdge[] = [];
+  const children = new Map<string, string[]>();
+  const parentEdges = new Map<string, GenealogyEdge[]>();
+
+  const objectiveIndex = (name: string) => {
+    const index = objectives.findIndex(o => o.name === name);
+    if (index < 0) {
+      throw new Error(`Unknown objective: ${name}`);
+    }
+    return index;
+  };
+
+  // Gain of each evaluated edge on the objective, positive = better
+  const gains = (objective: string) => {
+    const index = objectiveIndex(objective);
+    const sign = objectives[index].sense === 'max' ? 1 : -1;
+    return edges.flatMap(edge => (edge.delta ? [{ edge, gain: sign * edge.delta[index] }] : []));
+  };
+
+  // Breadth-first walk, nearest first
+  const walk = (start: string, next: (id: string) => string[]) => {
+    const seen = new Set<string>([start]);
+    const order: string[] = [];
+    const queue = [start];
+    while (queue.length > 0) {
+      for (const id of next(queue.shift()!)) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+        order.push(id);
+        queue.push(id);
+      }
+    }
+    return order;
+  };
+
+  const ancestors = (id: string) => walk(id, current => nodes.get(current)?.parents ?? []);
+  const descendants = (id: string) => walk(id, current => children.get(current) ?? []);
+
+  const listener: EvolutionListener = event => {
+    switch (event.type) {
+      case 'birth': {
+        nodes.set(event.agentId, {
+          id: event.agentId,
+          generation: event.generation,
+          parents: event.parents,
+          operator: event.operator,
+          mutations: event.mutations ?? [],
+        });
+        const incoming = event.parents.map(parent => ({ parent, child: event.agentId }));
+        edges.push(...incoming);
+        parentEdges.set(event.agentId, incoming);
+        for (const parent of event.parents) {
+          const siblings = children.get(parent);
+          if (siblings) siblings.push(event.agentId);
+          else children.set(parent, [event.agentId]);
+        }
+        break;
+      }
+      case 'evaluation': {
+        const node = nodes.get(event.agentId);
+        if (!node) break;
+        if (node.objectives === undefined) {
+          for (const edge of parentEdges.get(node.id) ?? []) {
+            const parent = nodes.get(edge.parent)?.objectives;
+            if (parent) edge.delta = event.objectives.map((value, i) => value - parent[i]);
+          }
+        }
+        node.objectives = event.objectives;
+        break;
+      }
+      case 'death': {
+        const node = nodes.get(event.agentId);
+        if (node) node.death = { generation: event.generation, reason: event.reason };
+        break;
+      }
+    }
+  };
+
+  return {
+    listener,
+    node: id => nodes.get(id),
+    nodes: () => [...nodes.values()],
+    edges: () => [...edges],
+    ancestors,
+    descendants,
+
+    mostRecentCommonAncestor: (a, b) => {
+      const lineA = [a, ...ancestors(a)];
+      const lineB = new Set([b, ...ancestors(b)]);
+      let best: GenealogyNode | undefined;
+      for (const id of lineA) {
+        const node = nodes.get(id);
+        if (node && lineB.has(id) && (!best || node.generation > best.generation)) best = node;
+      }
+      return best?.id;
+    },
+
+    operatorGains: objective => {
+      const byOperator = new Map<string, number[]>();
+      for (const { edge, gain } of gains(objective)) {
+        const child = nodes.get(edge.child);
+        if (!child) continue;
+        for (const operator of nodeOperators(child)) {
+          const values = byOperator.get(operator);
+          if (values) values.push(gain);
+          else byOperator.set(operator, [gain]);
+        }
+      }
+      return [...byOperator].map(([operator, values]) => ({
+        operator,
+        edges: values.length,
+        meanGain: values.reduce((s, v) => s + v, 0) / values.length,
+        maxGain: values.reduce((m, v) => Math.max(m, v), -Infinity),
+      })).sort((x, y) => y.meanGain - x.meanGain);
+    },
+
+    biggestGain: objective => {
+      let best: { operator: string; edge: GenealogyEdge; gain: number } | undefined;
+      for (const { edge, gain } of gains(objective)) {
+        const child = nodes.get(edge.child);
+        if (child && (!best || gain > best.gain)) {
+          best = { operator: nodeOperators(child).join('+'), edge, gain };
+        }
+      }
+      return best;
+    },
+
+    toJSON: () => ({
+      objectives: objectives.map(o => o.name),
+      nodes: [...nodes.values()],
+      edges: [...edges],
+    }),
+
+    toDOT: () => {
+      const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+      const quote = (text: string) => `"${escape(text)}"`;
+      const lines = ['digraph genealogy {', '  rankdir=TB;', '  node [shape=box];'];
+
+      const generations = new Map<number, GenealogyNode[]>();
+      for (const node of nodes.values()) {
+        const members = generations.get(node.generation);
+        if (members) members.push(node);
+        else generations.set(node.generation, [node]);
+      }
+      for (const [, members] of [...generations].sort(([a], [b]) => a - b)) {
+        lines.push(`  { rank=same; ${members.map(n => quote(n.id)).join('; ')}; }`);
+      }
+
+      for (const node of nodes.values()) {
+        const label = [node.id, `gen ${node.generation}`, nodeOperators(node).join('+')].map(escape).join('\\n');
+        const style = node.death ? ', style=dashed' : '';
+        lines.push(`  ${quote(node.id)} [label="${label}"${style}];`);
+      }
+      for (const edge of edges) {
+        const delta = edge.delta ? ` [label=${quote(edge.delta.map(d => d.toFixed(3)).join(', '))}]` : '';
+        lines.push(`  ${quote(edge.parent)} -> ${quote(edge.child)}${delta};`);
+      }
+      lines.push('}');
+      return lines.join('\n');
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * PROPERTY TEST: indicators.prop.ts
+ * Property-based tests for Pareto quality indicators
+ */
+
+import { describe, it } from 'vitest';
+import { hypervolumeExact, hypervolumeMonteCarlo, igdPlus, additiveEpsilon } from './indicators';
+import { type Genome } from './nsga2';
+import { type ObjectiveSpec } from '../laws-physics/objectives';
+
+function forAll<T>(generator: () => T, property: (value: T) => boolean, iterations = 30): void {
+  for (let i = 0; i < iterations; i++) {
+    const value = generator();
+    if (!property(value)) {
+      throw new Error(`Property violated with value: ${JSON.stringify(value)}`);
+    }
+  }
+}
+
+function randomPoints(n: number, d: number): number[][] {
+  return Array.from({ length: n }, () => Array.from({ length: d }, () => Math.random()));
+}
+
+const specs3: ObjectiveSpec[] = [
+  { name: 'f1', sense: 'min' },
+  { name: 'f2', sense: 'min' },
+  { name: 'f3', sense: 'min' },
+];
+
+function toGenomes(points: number[][]): Genome[] {
+  return points.map((values, i) => ({ id: `g${i}`, objectives: { values, timestamp: 0 } }));
+}
+
+describe('indicators - properties', () => {
+  it('should never shrink hypervolume when a point is added', () => {
+    forAll(
+      () => ({ points: randomPoints(6, 3), extra: randomPoints(1, 3)[0] }),
+      ({ points, extra }) => {
+        const reference = [1.1, 1.1, 1.1];
+        return hypervolumeExact([...points, extra], reference) >= hypervolumeExact(points, reference) - 1e-12;
+      }
+    );
+  });
+
+  it('should bound hypervolume by the reference box', () => {
+    forAll(
+      () => randomPoints(8, 3),
+      points => {
+        const hv = hypervolumeExact(points, [1, 1, 1]);
+        return hv >= 0 && hv <= 1 + 1e-12;
+      }
+    );
+  });
+
+  it('should agree with Monte Carlo within sampling error', () => {
+    forAll(
+      () => randomPoints(5, 3),
+      points => {
+        const reference = [1.1, 1.1, 1.1];
+        const exact = hypervolumeExact(points, reference);
+        const estimate = hypervolumeMonteCarlo(points, reference, 20000);
+        return Math.abs(exact - estimate) < 0.05;
+      },
+      10
+    );
+  });
+
+  it('should give zero IGD+ and non-positive epsilon for a superset front', () => {
+    forAll(
+      () => ({ reference: randomPoints(5, 3), extra: randomPoints(3, 3) }),
+      ({ reference, extra }) => {
+        const front = toGenomes([...reference, ...extra]);
+        const ref = toGenomes(reference);
+        return igdPlus(front, ref, specs3) === 0 && additiveEpsilon(front, ref, specs3) <= 0;
+      }
+    );
+  });
+});
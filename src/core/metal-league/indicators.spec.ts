@@ -0,0 +1,149 @@
+/**
+ * SPEC TEST: indicators.spec.ts
+ * Paired with indicators.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  hypervolume,
+  hypervolumeExact,
+  hypervolumeMonteCarlo,
+  generationalDistance,
+  igdPlus,
+  additiveEpsilon,
+  spacing,
+  spread,
+  paretoIndicators,
+} from './indicators';
+import { type Genome } from './nsga2';
+import { createObjectiveNormalizer, type ObjectiveSpec } from '../laws-physics/objectives';
+
+const minSpecs: ObjectiveSpec[] = [
+  { name: 'f1', sense: 'min' },
+  { name: 'f2', sense: 'min' },
+];
+
+function makeGenome(id: string, values: number[]): Genome {
+  return { id, objectives: { values, timestamp: 0 } };
+}
+
+const front = [
+  makeGenome('a', [1, 3]),
+  makeGenome('b', [2, 2]),
+  makeGenome('c', [3, 1]),
+];
+
+describe('indicators - hypervolume', () => {
+  it('should compute the 2-D staircase area exactly', () => {
+    // Reference (4, 4): 3x1 + 2x1 + 1x1 = 6
+    expect(hypervolume(front, minSpecs, { reference: { f1: 4, f2: 4 } })).toBe(6);
+  });
+
+  it('should negate max objectives', () => {
+    const specs: ObjectiveSpec[] = [
+      { name: 'gain', sense: 'max' },
+      { name: 'cost', sense: 'min' },
+    ];
+    const g = [makeGenome('a', [3, 1])];
+    // Oriented point (-3, 1) vs reference (-1, 2): 2 x 1
+    expect(hypervolume(g, specs, { reference: { gain: 1, cost: 2 } })).toBe(2);
+  });
+
+  it('should ignore points beyond the reference', () => {
+    expect(hypervolumeExact([[5, 5]], [4, 4])).toBe(0);
+  });
+
+  it('should compute 3-D volumes by slicing', () => {
+    // Each point dominates a 2x1x1 box under reference (2, 2, 2)
+    const volume = hypervolumeExact([[0, 1, 1], [1, 0, 1], [1, 1, 0]], [2, 2, 2]);
+    // Inclusion-exclusion: 3 * 2 - 3 * 1 + 1 = 4
+    expect(volume).toBeCloseTo(4);
+  });
+
+  it('should estimate high-dimensional volumes by Monte Carlo', () => {
+    const points = [[0, 0, 0, 0, 0, 0]];
+    const reference = [1, 1, 1, 1, 1, 1];
+    // A single point at the origin dominates the whole unit box
+    expect(hypervolumeMonteCarlo(points, reference, 2000)).toBeCloseTo(1);
+  });
+
+  it('should return 0 for an empty front', () => {
+    expect(hypervolume([], minSpecs)).toBe(0);
+  });
+
+  it('should handle fronts too large to spread into Math.min', () => {
+    const points = Array.from({ length: 200000 }, (_, i) => [i / 200000]);
+    expect(hypervolumeExact(points, [1])).toBe(1);
+    expect(hypervolumeMonteCarlo(points.map(p => [...p, 0, 0, 0, 0, 0]), [1, 1, 1, 1, 1, 1], 10)).toBeCloseTo(1);
+  });
+});
+
+describe('indicators - distance to a reference front', () => {
+  const reference = [
+    makeGenome('r1', [0, 2]),
+    makeGenome('r2', [1, 1]),
+    makeGenome('r3', [2, 0]),
+  ];
+
+  it('should be zero on the reference front', () => {
+    expect(generationalDistance(reference, reference, minSpecs)).toBe(0);
+    expect(igdPlus(reference, reference, minSpecs)).toBe(0);
+    expect(additiveEpsilon(reference, reference, minSpecs)).toBe(0);
+  });
+
+  it('should measure the gap to a worse front', () => {
+    const shifted = reference.map(g => makeGenome(g.id, g.objectives.values.map(v => v + 1)));
+
+    expect(generationalDistance(shifted, reference, minSpecs)).toBeCloseTo(Math.SQRT2);
+    expect(igdPlus(shifted, reference, minSpecs)).toBeCloseTo(Math.SQRT2);
+    expect(additiveEpsilon(shifted, reference, minSpecs)).toBeCloseTo(1);
+  });
+
+  it('should not penalize a front that dominates the reference under IGD+', () => {
+    const better = reference.map(g => makeGenome(g.id, g.objectives.values.map(v => v - 0.5)));
+
+    expect(igdPlus(better, reference, minSpecs)).toBe(0);
+    expect(additiveEpsilon(better, reference, minSpecs)).toBeCloseTo(-0.5);
+  });
+});
+
+describe('indicators - distribution', () => {
+  it('should give zero spacing and spread to evenly spaced fronts', () => {
+    expect(spacing(front, minSpecs)).toBe(0);
+    expect(spread(front, minSpecs)).toBe(0);
+  });
+
+  it('should penalize clustered fronts', () => {
+    const clustered = [
+      makeGenome('a', [1, 3]),
+      makeGenome('b', [1.1, 2.9]),
+      makeGenome('c', [3, 1]),
+    ];
+    expect(spacing(clustered, minSpecs)).toBeGreaterThan(0);
+    expect(spread(clustered, minSpecs)).toBeGreaterThan(0);
+  });
+
+  it('should penalize missing extremes of a reference front', () => {
+    const reference = [makeGenome('r1', [0, 4]), ...front, makeGenome('r2', [4, 0])];
+    expect(spread(front, minSpecs, {}, reference)).toBeGreaterThan(0);
+  });
+});
+
+describe('indicators - snapshot', () => {
+  it('should omit distance indicators without a reference front', () => {
+    const indicators = paretoIndicators(front, minSpecs);
+
+    expect(indicators.hypervolume).toBeGreaterThan(0);
+    expect(indicators.generationalDistance).toBeUndefined();
+  });
+
+  it('should measure in normalized units when given a normalizer', () => {
+    const normalizer = createObjectiveNormalizer(minSpecs);
+    normalizer.observe(front.map(g => g.objectives));
+
+    // Points (0, 1), (0.5, 0.5), (1, 0) under reference (1.1, 1.1): 0.11 + 0.3 + 0.05
+    const indicators = paretoIndicators(front, minSpecs, { normalizer }, front);
+    expect(indicators.hypervolume).toBeCloseTo(0.46);
+    expect(indicators.igdPlus).toBe(0);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Pareto Quality Indicators
+ *
+ * Measures of how good a front is, so a run can be judged by more than its size:
+ * - hypervolume: volume dominated by the front up to a reference point (exact
+ *   for low dimensions, Monte Carlo above)
+ * - generational distance / IGD+ / additive epsilon: closeness to a reference front
+ * - spacing / spread: how evenly the front is distributed
+ *
+ * All indicators work in minimization form (max objectives are negated),
+ * optionally normalized so that mixed units weigh in comparably.
+ */
+
+import { ObjectiveSpec, ObjectiveNormalizer, createObjectiveRegistry } from '../laws-physics/objectives';
+import type { Genome } from './nsga2';
+
+/**
+ * Largest objective count for which hypervolume is computed exactly.
+ * Slicing is O(n^(d-1)), so above this we switch to Monte Carlo.
+ */
+export const EXACT_HYPERVOLUME_MAX_DIMS = 4;
+
+export interface IndicatorOptions {
+  /** Normalize objectives before measuring */
+  normalizer?: ObjectiveNormalizer;
+
+  /** Hypervolume reference point by objective name, in raw units */
+  reference?: Record<string, number>;
+
+  /** Monte Carlo sample count for high-dimensional hypervolume (default 10000) */
+  samples?: number;
+
+  /** Uniform [0, 1) source for Monte Carlo sampling */
+  random?: () => number;
+}
+
+/**
+ * Indicator snapshot for one front.
+ * Distance-based indicators are only present when a reference front is known.
+ */
+export interface ParetoIndicators {
+  hypervolume: number;
+  spacing: number;
+  spread: number;
+  generationalDistance?: number;
+  igdPlus?: number;
+  epsilon?: number;
+}
+
+/**
+ * Objective vectors of a front in minimization form.
+ */
+function toPoints(front: Genome[], specs: ObjectiveSpec[], normalizer?: ObjectiveNormalizer): number[][] {
+  return front.map(g => {
+    if (g.objectives.values.length !== specs.length) {
+      throw new Error('Objective vector length must match specs');
+    }
+    if (normalizer) return normalizer.normalize(g.objectives);
+    return g.objectives.values.map((v, i) => (specs[i].sense === 'max' ? -v : v));
+  });
+}
+
+function euclidean(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((s, v, i) => s + (v - b[i]) ** 2, 0));
+}
+
+function nearest(point: number[], others: number[][]): number {
+  return others.reduce((best, o) => Math.min(best, euclidean(point, o)), Infinity);
+}
+
+// Loops rather than Math.min(...column), which overflows the stack on very large fronts
+function columnMin(points: number[][], i: number): number {
+  return points.reduce((best, p) => Math.min(best, p[i]), Infinity);
+}
+
+/**
+ * Resolve the hypervolume reference point in minimization space.
+ * Defaults: 1.1 per objective when normalized, otherwise 10% beyond the front's worst values.
+ */
+function referencePoint(points: number[][], specs: ObjectiveSpec[], options: IndicatorOptions): number[] {
+  if (options.reference) {
+    const raw = createObjectiveRegistry(specs).fromRecord(options.reference, 0);
+    return toPoints([{ id: 'reference', objectives: raw }], specs, options.normalizer)[0];
+  }
+  if (options.normalizer) return specs.map(() => 1.1);
+
+  return specs.map((_, i) => {
+    const best = columnMin(points, i);
+    const worst = points.reduce((w, p) => Math.max(w, p[i]), -Infinity);
+    const range = worst - best;
+    return worst + (range > 0 ? 0.1 * range : 1);
+  });
+}
+
+/**
+ * Exact hypervolume of minimization points w.r.t. a reference point
+ * (hypervolume by slicing objectives).
+ */
+export function hypervolumeExact(points: number[][], reference: number[]): number {
+  const inside = points.filter(p => p.every((v, i) => v < reference[i]));
+  if (inside.length === 0) return 0;
+
+  const d = reference.length;
+  if (d === 1) {
+    return reference[0] - columnMin(inside, 0);
+  }
+
+  if (d === 2) {
+    const sorted = [...inside].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+    let volume = 0;
+    let bestY = reference[1];
+    for (const [x, y] of sorted) {
+      if (y < bestY) {
+        volume += (reference[0] - x) * (bestY - y);
+        bestY = y;
+      }
+    }
+    return volume;
+  }
+
+  // Slice along the last objective; each slab is a (d-1)-dimensional problem
+  const sorted = [...inside].sort((a, b) => a[d - 1] - b[d - 1]);
+  const subReference = reference.slice(0, d - 1);
+  let volume = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    const upper = i + 1 < sorted.length ? sorted[i + 1][d - 1] : reference[d - 1];
+    const depth = upper - sorted[i][d - 1];
+    if (depth <= 0) continue;
+    const slab = sorted.slice(0, i + 1).map(p => p.slice(0, d - 1));
+    volume += hypervolumeExact(slab, subReference) * depth;
+  }
+  return volume;
+}
+
+/**
+ * Monte Carlo hypervolume estimate of minimization points w.r.t. a reference point.
+ * Samples uniformly in the box spanned by the points' minima and the reference.
+ */
+export function hypervolumeMonteCarlo(
+  points: number[][],
+  reference: number[],
+  samples = 10000,
+  random: () => number = Math.random
+): number {
+  const inside = points.filter(p => p.every((v, i) => v < reference[i]));
+  if (inside.length === 0) return 0;
+
+  const lower = reference.map((_, i) => columnMin(inside, i));
+  const boxVolume = reference.reduce((v, r, i) => v * (r - lower[i]), 1);
+
+  let hits = 0;
+  const sample = new Array<number>(reference.length);
+  for (let s = 0; s < samples; s++) {
+    for (let i = 0; i < reference.length; i++) {
+      sample[i] = lower[i] + random() * (reference[i] - lower[i]);
+    }
+    if (inside.some(p => p.every((v, i) => v <= sample[i]))) hits++;
+  }
+
+  return (hits / samples) * boxVolume;
+}
+
+/**
+ * Hypervolume of a front: exact up to EXACT_HYPERVOLUME_MAX_DIMS objectives, Monte Carlo above.
+ */
+export function hypervolume(front: Genome[], specs: ObjectiveSpec[], options: IndicatorOptions = {}): number {
+  if (front.length === 0) return 0;
+
+  const points = toPoints(front, specs, options.normalizer);
+  const reference = referencePoint(points, specs, options);
+
+  return specs.length <= EXACT_HYPERVOLUME_MAX_DIMS
+    ? hypervolumeExact(points, reference)
+    : hypervolumeMonteCarlo(points, reference, options.samples, options.random);
+}
+
+/**
+ * Generational distance: mean distance from each front point to the nearest reference point.
+ * 0 means the front lies on the reference front.
+ */
+export function generationalDistance(
+  front: Genome[],
+  referenceFront: Genome[],
+  specs: ObjectiveSpec[],
+  options: IndicatorOptions = {}
+): number {
+  if (front.length === 0 || referenceFront.length === 0) return Infinity;
+
+  const points = toPoints(front, specs, options.normalizer);
+  const reference = toPoints(referenceFront, specs, options.normalizer);
+  return points.reduce((s, p) => s + nearest(p, reference), 0) / points.length;
+}
+
+/**
+ * IGD+: mean over reference points of the dominance-aware distance to the nearest front point.
+ * Only the parts of the gap where the front is worse count, so IGD+ is Pareto-compliant.
+ */
+export function igdPlus(
+  front: Genome[],
+  referenceFront: Genome[],
+  specs: ObjectiveSpec[],
+  options: IndicatorOptions = {}
+): number {
+  if (front.length === 0 || referenceFront.length === 0) return Infinity;
+
+  const points = toPoints(front, specs, options.normalizer);
+  const reference = toPoints(referenceFront, specs, options.normalizer);
+
+  const dPlus = (a: number[], r: number[]) =>
+    Math.sqrt(a.reduce((s, v, i) => s + Math.max(v - r[i], 0) ** 2, 0));
+
+  return reference.reduce(
+    (s, r) => s + points.reduce((best, a) => Math.min(best, dPlus(a, r)), Infinity),
+    0
+  ) / reference.length;
+}
+
+/**
+ * Additive epsilon indicator: the smallest shift that makes the front
+ * weakly dominate every reference point. <= 0 means it already does.
+ */
+export function additiveEpsilon(
+  front: Genome[],
+  referenceFront: Genome[],
+  specs: ObjectiveSpec[],
+  options: IndicatorOptions = {}
+): number {
+  if (front.length === 0 || referenceFront.length === 0) return Infinity;
+
+  const points = toPoints(front, specs, options.normalizer);
+  const reference = toPoints(referenceFront, specs, options.normalizer);
+
+  return reference.reduce(
+    (worst, r) => Math.max(worst, points.reduce(
+      (best, a) => Math.min(best, a.reduce((shift, v, i) => Math.max(shift, v - r[i]), -Infinity)),
+      Infinity
+    )),
+    -Infinity
+  );
+}
+
+/**
+ * Schott's spacing: standard deviation of nearest-neighbour (L1) distances.
+ * 0 means the points are evenly spaced.
+ */
+export function spacing(front: Genome[], specs: ObjectiveSpec[], options: IndicatorOptions = {}): number {
+  if (front.length < 2) return 0;
+
+  const points = toPoints(front, specs, options.normalizer);
+  const d = points.map((p, i) =>
+    points.reduce(
+      (best, q, j) => (i === j ? best : Math.min(best, p.reduce((s, v, k) => s + Math.abs(v - q[k]), 0))),
+      Infinity
+    )
+  );
+  const mean = d.reduce((s, v) => s + v, 0) / d.length;
+
+  return Math.sqrt(d.reduce((s, v) => s + (v - mean) ** 2, 0) / (d.length - 1));
+}
+
+/**
+ * Generalized spread (Δ): uniformity of the front plus, when a reference front
+ * is given, how well its extremes are covered. 0 is ideal.
+ */
+export function spread(
+  front: Genome[],
+  specs: ObjectiveSpec[],
+  options: IndicatorOptions = {},
+  referenceFront?: Genome[]
+): number {
+  if (front.length < 2) return 0;
+
+  const points = toPoints(front, specs, options.normalizer);
+  const d = points.map((p, i) => nearest(p, points.filter((_, j) => j !== i)));
+  const mean = d.reduce((s, v) => s + v, 0) / d.length;
+
+  // Distance from each extreme of the reference front to the front
+  let extremes = 0;
+  if (referenceFront && referenceFront.length > 0) {
+    const reference = toPoints(referenceFront, specs, options.normalizer);
+    for (let m = 0; m < specs.length; m++) {
+      const extreme = reference.reduce((best, r) => (r[m] < best[m] ? r : best));
+      extremes += nearest(extreme, points);
+    }
+  }
+
+  const denominator = extremes + points.length * mean;
+  if (denominator < 1e-12) return 0;
+  return (extremes + d.reduce((s, v) => s + Math.abs(v - mean), 0)) / denominator;
+}
+
+/**
+ * All indicators for a front; distance-based ones need a reference front
+ * (e.g. the previous generation's front, to track convergence).
+ */
+export function paretoIndicators(
+  front: Genome[],
+  specs: ObjectiveSpec[],
+  options: IndicatorOptions = {},
+  referenceFront?: Genome[]
+): ParetoIndicators {
+  const indicators: ParetoIndicators = {
+    hypervolume: hypervolume(front, specs, options),
+    spacing: spacing(front, specs, options),
+    spread: spread(front, specs, options, referenceFront),
+  };
+
+  if (referenceFront && referenceFront.length > 0) {
+    indicators.generationalDistance = generationalDistance(front, referenceFront, specs, options);
+    indicators.igdPlus = igdPlus(front, referenceFront, specs, options);
+    indicators.epsilon = additiveEpsilon(front, referenceFront, specs, options);
+  }
+
+  return indicators;
+}
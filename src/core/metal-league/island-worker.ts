@@ -0,0 +1,51 @@
+/**
+ * Island Worker
+ *
+ * Hosts one island's EvolutionSession in a worker thread and answers the
+ * requests of evolveIslands (see islands.ts). Events are forwarded to the
+ * main thread, where the island's listeners run.
+ */
+
+import { parentPort } from 'node:worker_threads';
+import { createEvolutionSession, fromCheckpointConfig, type EvolutionSession } from './evolution';
+import type { IslandReply, IslandRequest } from './islands';
+
+const port = parentPort;
+if (!port) {
+  throw new Error('Island worker must run in a worker thread');
+}
+
+const post = (reply: IslandReply) => port.postMessage(reply);
+let session: EvolutionSession | undefined;
+
+async function handle(request: IslandRequest): Promise<IslandReply> {
+  if (request.type === 'init') {
+    const config = fromCheckpointConfig(request.config, { listeners: [event => post({ type: 'event', event })] });
+    session = await createEvolutionSession(config);
+    return { type: 'ready' };
+  }
+  if (!session) {
+    throw new Error(`Island worker is not initialized: ${request.type}`);
+  }
+  switch (request.type) {
+    case 'advance':
+      await session.advance(request.count);
+      return {
+        type: 'advanced',
+        generation: session.generation,
+        population: session.population,
+        stopped: session.stopReason !== undefined,
+      };
+    case 'replace':
+      session.replace(request.outgoing, request.incoming, request.sources);
+      return { type: 'replaced' };
+    case 'finish':
+      return { type: 'result', result: await session.finish() };
+  }
+}
+
+port.on('message', (request: IslandRequest) => {
+  handle(request).then(post, (error: unknown) => {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Island worker failed' });
+  });
+});
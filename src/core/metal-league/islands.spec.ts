@@ -0,0 +1,169 @@
+/**
+ * SPEC TEST: islands.spec.ts
+ * Paired with islands.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evolveIslands, migrationSources, type IslandModelConfig } from './islands';
+import { DEFAULT_EVOLUTION_CONFIG } from './evolution';
+import { simulationEvaluator } from './evaluators';
+import { createRng } from '../laws-physics/random';
+import type { EvolutionEvent } from './events';
+
+const model: IslandModelConfig = {
+  base: {
+    ...DEFAULT_EVOLUTION_CONFIG,
+    populationSize: 6,
+    generations: 4,
+    seed: 3,
+    clock: () => 0,
+    listeners: [],
+  },
+  islands: [{}, { mutationRate: 0.5 }, { agentKind: 'student' }],
+  migrationInterval: 2,
+  migrationSize: 2,
+};
+
+describe('islands - topology', () => {
+  it('should connect each island to its predecessor on a ring', () => {
+    expect(migrationSources('ring', 3)).toEqual([[2], [0], [1]]);
+  });
+
+  it('should connect every pair when fully connected', () => {
+    expect(migrationSources('fully-connected', 3)).toEqual([[1, 2], [0, 2], [0, 1]]);
+  });
+
+  it('should draw one other island at random', () => {
+    const random = createRng(1).next;
+    for (let i = 0; i < 20; i++) {
+      migrationSources('random', 4, random).forEach((sources, island) => {
+        expect(sources).toHaveLength(1);
+        expect(sources[0]).not.toBe(island);
+      });
+    }
+  });
+
+  it('should not migrate with a single island', () => {
+    expect(migrationSources('ring', 1)).toEqual([[]]);
+  });
+});
+
+describe('islands - evolution', () => {
+  it('should evolve each island with its overrides', async () => {
+    // Without migration, so that no tutor reaches the student island
+    const result = await evolveIslands({ ...model, migrationSize: 0 });
+
+    expect(result.islands).toHaveLength(3);
+    expect(result.islands.every(r => r.stats.length === 4)).toBe(true);
+    expect(result.islands[2].finalPopulation.every(a => a.kind === 'student')).toBe(true);
+    expect(result.islands[0].finalPopulation.every(a => a.kind === 'tutor')).toBe(true);
+  });
+
+  it('should keep agent ids unique across islands', async () => {
+    const result = await evolveIslands(model);
+    const ids = result.islands.flatMap(r => r.finalPopulation.map(a => a.id));
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should migrate top survivors between generations', async () => {
+    const result = await evolveIslands(model);
+
+    // Generation 2 is the only migration point before the end of a 4-generation run
+    expect(result.migrations.map(m => [m.generation, m.to, m.from])).toEqual([
+      [2, 0, [2]],
+      [2, 1, [0]],
+      [2, 2, [1]],
+    ]);
+    expect(result.migrations.every(m => m.agentIds.length === 2)).toBe(true);
+    expect(result.migrations[0].sourceIds.every(id => id.startsWith('island2-'))).toBe(true);
+  });
+
+  it('should not hold migrants to parents on another island', async () => {
+    const proofGate = { ...model.base.proofGate, parents: { maxRegression: {} } };
+    const result = await evolveIslands({ ...model, base: { ...model.base, generations: 3, proofGate } });
+    const migrants = result.islands.flatMap(r => r.finalPopulation).filter(a => a.id.includes('migrant'));
+
+    expect(migrants.length).toBeGreaterThan(0);
+    expect(migrants.every(a => a.parents.length === 0 && !a.proof?.proof.includes('parents-missing'))).toBe(true);
+  });
+
+  it('should report migrants as births and replaced agents as deaths', async () => {
+    const events: EvolutionEvent[] = [];
+    await evolveIslands({ ...model, base: { ...model.base, listeners: [e => events.push(e)] } });
+
+    const migrants = events.filter(e => e.type === 'birth' && e.operator === 'migration');
+    const result = await evolveIslands(model);
+
+    expect(migrants).toHaveLength(6);
+    expect(events.filter(e => e.type === 'death' && e.reason === 'migration')).toHaveLength(6);
+    expect(migrants.flatMap(e => (e.type === 'birth' ? e.parents : [])))
+      .toEqual(result.migrations.flatMap(m => m.sourceIds));
+  });
+
+  it('should be reproducible from the seed', async () => {
+    const random: IslandModelConfig = { ...model, topology: 'random' };
+    const a = await evolveIslands(random);
+    const b = await evolveIslands(random);
+
+    expect(JSON.stringify(a)).toBe(JSON.stringify(b));
+  });
+
+  it('should return the non-dominated agents over all islands', async () => {
+    const result = await evolveIslands(model);
+    const fronts = result.islands.flatMap(r => r.paretoFront.map(a => a.id));
+
+    expect(result.paretoFront.length).toBeGreaterThan(0);
+    expect(result.paretoFront.every(a => fronts.includes(a.id))).toBe(true);
+  });
+
+  it('should end once every island has stopped', async () => {
+    const stopping = { type: 'evaluation-budget' as const, evaluations: 10 };
+    const result = await evolveIslands({
+      ...model,
+      base: { ...model.base, generations: 20, stopping },
+      islands: [{}, {}],
+      migrationInterval: 1,
+    });
+
+    expect(result.islands.map(r => r.stopReason.criterion)).toEqual(['evaluation-budget', 'evaluation-budget']);
+    expect(result.islands.every(r => r.stats.length < 20)).toBe(true);
+  });
+
+  it('should not migrate into or out of a stopped island', async () => {
+    const result = await evolveIslands({
+      ...model,
+      base: { ...model.base, generations: 6 },
+      islands: [{ stopping: { type: 'evaluation-budget', evaluations: 10 } }, {}],
+      migrationInterval: 1,
+    });
+    const stoppedAfter = result.islands[0].stopReason.generation;
+
+    expect(result.islands[1].stats).toHaveLength(6);
+    expect(result.migrations.length).toBeGreaterThan(0);
+    expect(result.migrations.every(m => m.generation <= stoppedAfter)).toBe(true);
+  });
+
+  it('should require islands', async () => {
+    await expect(evolveIslands({ ...model, islands: [] })).rejects.toThrow('at least one island');
+  });
+});
+
+describe('islands - workers', () => {
+  const summarize = (agents: { id: string; objectives: { values: number[] } }[]) =>
+    agents.map(a => [a.id, a.objectives.values]);
+
+  it('should evolve the same agents in worker threads', async () => {
+    const local = await evolveIslands(model);
+    const workers = await evolveIslands({ ...model, workers: true });
+
+    expect(summarize(workers.paretoFront)).toEqual(summarize(local.paretoFront));
+    expect(workers.migrations).toEqual(local.migrations);
+  }, 60000);
+
+  it('should reject configs that cannot cross to a worker', async () => {
+    const custom = { ...simulationEvaluator(0), name: 'custom' };
+    await expect(evolveIslands({ ...model, islands: [{ evaluator: custom }], workers: true }))
+      .rejects.toThrow('Checkpoint evaluator must be supplied');
+  }, 60000);
+});
@@ -0,0 +1,327 @@
+/**
+ * Island Model
+ *
+ * Several sub-populations ("islands") evolve side by side, each with its own
+ * config overrides (mutation rate, agent kind, evaluator, ...).
+ * Every `migrationInterval` generations each island receives copies of the
+ * top survivors of its source islands, which replace its newest offspring.
+ * An island whose stopping criterion fired neither sends nor receives
+ * migrants; the model ends once every island has stopped or run all its
+ * generations.
+ * Isolation keeps the islands diverse; migration spreads good solutions.
+ *
+ * Topologies (sources of island i among n):
+ * - ring: island i - 1
+ * - fully-connected: every other island
+ * - random: one other island, drawn anew at each migration
+ *
+ * Islands run concurrently in-process, or each in its own worker thread.
+ * Worker islands need a serializable config (see toCheckpointConfig): the
+ * built-in evaluator and laws, and no checkpoint store.
+ */
+
+import { Worker } from 'node:worker_threads';
+import { extname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { cloneAgent, type MetaAgent } from '../agents-runtime/agent';
+import { createRng, randomSeed, seedFromString, type Rng } from '../laws-physics/random';
+import { fastNonDominatedSort, type Genome } from './nsga2';
+import {
+  createEvolutionSession,
+  toCheckpointConfig,
+  type EvolutionConfig,
+  type EvolutionResult,
+} from './evolution';
+import { consoleReporter, type EvolutionEvent } from './events';
+import type { CheckpointConfig } from './checkpoint';
+
+export type MigrationTopology = 'ring' | 'fully-connected' | 'random';
+
+export interface IslandModelConfig {
+  /** Shared settings; each island's overrides are merged on top */
+  base: EvolutionConfig;
+
+  /** Overrides per island; one entry per island */
+  islands: Partial<EvolutionConfig>[];
+
+  /** Migration topology (default 'ring') */
+  topology?: MigrationTopology;
+
+  /** Generations between migrations (default 5) */
+  migrationInterval?: number;
+
+  /** Migrants each island receives per migration (default 2) */
+  migrationSize?: number;
+
+  /** Run each island in its own worker thread (default false) */
+  workers?: boolean;
+}
+
+/**
+ * Migrants received by one island.
+ */
+export interface Migration {
+  /** Generation the migrants enter */
+  generation: number;
+  to: number;
+  from: number[];
+
+  /** Ids of the migrants' originals */
+  sourceIds: string[];
+
+  /** Ids of the migrant copies on the target island */
+  agentIds: string[];
+}
+
+export interface IslandModelResult {
+  /** Result of each island, in config order */
+  islands: EvolutionResult[];
+
+  /** Non-dominated agents over all islands' final fronts */
+  paretoFront: MetaAgent[];
+
+  migrations: Migration[];
+  elapsedMs: number;
+
+  /** Seed the island seeds were drawn from; unset when an rng was injected */
+  seed?: number;
+}
+
+/**
+ * Source islands of each island for one migration.
+ */
+export function migrationSources(
+  topology: MigrationTopology,
+  islandCount: number,
+  random: () => number = Math.random
+): number[][] {
+  return Array.from({ length: islandCount }, (_, i) => {
+    if (islandCount < 2) return [];
+    switch (topology) {
+      case 'ring':
+        return [(i - 1 + islandCount) % islandCount];
+      case 'fully-connected':
+        return Array.from({ length: islandCount }, (_, j) => j).filter(j => j !== i);
+      case 'random': {
+        const j = Math.floor(random() * (islandCount - 1));
+        return [j >= i ? j + 1 : j];
+      }
+    }
+  });
+}
+
+/**
+ * Messages to an island worker; each gets exactly one reply besides events.
+ */
+export type IslandRequest =
+  | { type: 'init'; config: CheckpointConfig }
+  | { type: 'advance'; count: number }
+  | { type: 'replace'; outgoing: string[]; incoming: MetaAgent[]; sources: string[] }
+  | { type: 'finish' };
+
+export type IslandReply =
+  | { type: 'ready' }
+  | { type: 'advanced'; generation: number; population: MetaAgent[]; stopped: boolean }
+  | { type: 'replaced' }
+  | { type: 'result'; result: EvolutionResult }
+  | { type: 'event'; event: EvolutionEvent }
+  | { type: 'error'; message: string };
+
+/**
+ * One island as seen by the model, in-process or in a worker.
+ */
+interface Island {
+  /** `stopped` once the island's stopping criterion fired */
+  advance(count: number): Promise<{ generation: number; population: MetaAgent[]; stopped: boolean }>;
+  replace(outgoing: string[], incoming: MetaAgent[], sources: string[]): Promise<void>;
+  finish(): Promise<EvolutionResult>;
+  close(): Promise<void>;
+}
+
+async function createLocalIsland(config: EvolutionConfig): Promise<Island> {
+  const session = await createEvolutionSession(config);
+
+  return {
+    advance: async count => {
+      await session.advance(count);
+      return {
+        generation: session.generation,
+        population: session.population,
+        stopped: session.stopReason !== undefined,
+      };
+    },
+    replace: (outgoing, incoming, sources) => {
+      session.replace(outgoing, incoming, sources);
+      return Promise.resolve();
+    },
+    finish: () => session.finish(),
+    close: () => Promise.resolve(),
+  };
+}
+
+const WORKER_URL = new URL(`./island-worker${extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+
+function spawnWorker(): Worker {
+  if (WORKER_URL.pathname.endsWith('.ts')) {
+    // Running from sources (tests, tsx): the worker needs the TypeScript loader too
+    return new Worker(
+      `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); });`,
+      { eval: true }
+    );
+  }
+  return new Worker(WORKER_URL);
+}
+
+async function createWorkerIsland(config: EvolutionConfig): Promise<Island> {
+  if (config.checkpoint) {
+    throw new Error('Worker islands cannot checkpoint');
+  }
+  const listeners = config.listeners ?? [consoleReporter()];
+  const stored = toCheckpointConfig(config);
+  const worker = spawnWorker();
+  let pending: { resolve: (reply: IslandReply) => void; reject: (error: Error) => void } | undefined;
+
+  worker.on('message', (reply: IslandReply) => {
+    if (reply.type === 'event') {
+      listeners.forEach(l => l(reply.event));
+    } else if (reply.type === 'error') {
+      pending?.reject(new Error(reply.message));
+    } else {
+      pending?.resolve(reply);
+    }
+  });
+  worker.on('error', error => pending?.reject(error));
+
+  const request = (message: IslandRequest) => new Promise<IslandReply>((resolve, reject) => {
+    pending = { resolve, reject };
+    worker.postMessage(message);
+  });
+  const call = async <T extends IslandReply['type']>(message: IslandRequest, type: T) => {
+    const reply = await request(message);
+    if (reply.type !== type) throw new Error(`Island worker replied ${reply.type} to ${message.type}`);
+    return reply as Extract<IslandReply, { type: T }>;
+  };
+
+  try {
+    await call({ type: 'init', config: stored }, 'ready');
+  } catch (error) {
+    await worker.terminate();
+    throw error;
+  }
+
+  return {
+    advance: async count => {
+      const { generation, population, stopped } = await call({ type: 'advance', count }, 'advanced');
+      return { generation, population, stopped };
+    },
+    replace: async (outgoing, incoming, sources) => {
+      await call({ type: 'replace', outgoing, incoming, sources }, 'replaced');
+    },
+    finish: async () => (await call({ type: 'finish' }, 'result')).result,
+    close: async () => {
+      await worker.terminate();
+    },
+  };
+}
+
+/**
+ * Evolve islands with periodic migration. With a seed (or an injected rng) and
+ * a fixed clock the result is bit-identical. Worker islands evolve the same
+ * agents, but stamp them with the worker's own clock.
+ */
+export async function evolveIslands(model: IslandModelConfig): Promise<IslandModelResult> {
+  const { base } = model;
+  if (model.islands.length === 0) {
+    throw new Error('Island model requires at least one island');
+  }
+  const topology = model.topology ?? 'ring';
+  const interval = Math.max(1, model.migrationInterval ?? 5);
+  const migrationSize = Math.max(0, model.migrationSize ?? 2);
+  const clock = base.clock ?? Date.now;
+  const startTime = clock();
+
+  // One generator seeds the islands and draws random topologies
+  let rng: Rng | undefined = base.rng;
+  let seed: number | undefined;
+  if (!rng) {
+    seed = typeof base.seed === 'string' ? await seedFromString(base.seed) : base.seed ?? randomSeed();
+    rng = createRng(seed);
+  }
+  const configs: EvolutionConfig[] = model.islands.map((overrides, i) => ({
+    ...base,
+    rng: undefined,
+    seed: rng.int(2 ** 32),
+    idPrefix: `island${i}-`,
+    ...overrides,
+  }));
+
+  const islands: Island[] = [];
+  try {
+    for (const config of configs) {
+      islands.push(await (model.workers ? createWorkerIsland(config) : createLocalIsland(config)));
+    }
+
+    const migrations: Migration[] = [];
+    for (let running = true; running;) {
+      const states = await Promise.all(islands.map(island => island.advance(interval)));
+      const done = states.map((s, i) => s.stopped || s.generation >= configs[i].generations);
+      running = done.some(d => !d);
+      if (!running || migrationSize === 0) continue;
+      const generation = Math.max(...states.map(s => s.generation));
+
+      // Pick every island's migrants before any island changes; stopped islands take no part
+      const sources = migrationSources(topology, islands.length, rng.next).map(from => from.filter(j => !done[j]));
+      const planned = sources.map((from, to) => {
+        const target = states[to];
+        if (from.length === 0 || done[to]) return undefined;
+        const count = Math.min(migrationSize, Math.floor(target.population.length / 2));
+        const pool: MetaAgent[] = [];
+        for (let rank = 0; pool.length < count && from.some(j => rank < states[j].population.length); rank++) {
+          for (const j of from) {
+            const agent = states[j].population[rank];
+            if (agent && pool.length < count) pool.push(agent);
+          }
+        }
+        return { to, from, pool, outgoing: target.population.slice(target.population.length - pool.length) };
+      });
+
+      await Promise.all(planned.map(async plan => {
+        if (!plan || plan.pool.length === 0) return;
+        const incoming = plan.pool.map((agent, j) => {
+          const migrant = cloneAgent(agent, `${configs[plan.to].idPrefix}migrant-gen${generation}-${j}`);
+          migrant.generation = generation;
+          // Migrants arrive rather than being bred; their source stays on its own island
+          migrant.parents = [];
+          return migrant;
+        });
+        await islands[plan.to].replace(plan.outgoing.map(a => a.id), incoming, plan.pool.map(a => a.id));
+        migrations.push({
+          generation,
+          to: plan.to,
+          from: plan.from,
+          sourceIds: plan.pool.map(a => a.id),
+          agentIds: incoming.map(a => a.id),
+        });
+      }));
+      migrations.sort((a, b) => a.generation - b.generation || a.to - b.to);
+    }
+
+    const results = await Promise.all(islands.map(island => island.finish()));
+    const genomes: Genome[] = results.flatMap(r => r.paretoFront.map(agent => ({
+      id: agent.id,
+      objectives: agent.objectives,
+      agent,
+    })));
+    const front = fastNonDominatedSort(genomes, base.objectives)[0] ?? [];
+
+    return {
+      islands: results,
+      paretoFront: front.map(g => g.agent as MetaAgent),
+      migrations,
+      elapsedMs: clock() - startTime,
+      seed,
+    };
+  } finally {
+    await Promise.all(islands.map(island => island.close()));
+  }
+}
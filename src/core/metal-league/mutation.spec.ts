@@ -0,0 +1,164 @@
+/**
+ * SPEC TEST: mutation.spec.ts
+ * Paired with mutation.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyMutations,
+  collectMutationOutcomes,
+  gaussian,
+  isMutationSuccess,
+  markMutated,
+  oneFifthUpdate,
+  scheduledStrength,
+  MUTATION_PARENT_KEY,
+  SIGMA_KEY,
+} from './mutation';
+import { createAgent, cloneAgent } from '../agents-runtime/agent';
+import { norm } from '../laws-physics/hilbert';
+import type { ObjectiveSpec } from '../laws-physics/objectives';
+import { createRng } from '../laws-physics/random';
+
+const rule = { condition: 'confused', action: 'simplify' };
+
+describe('mutation - operators', () => {
+  it('should draw standard normal values', () => {
+    const random = createRng(11).next;
+    const samples = Array.from({ length: 2000 }, () => gaussian(random));
+    const mean = samples.reduce((a, b) => a + b, 0) / samples.length;
+    const variance = samples.reduce((a, b) => a + (b - mean) ** 2, 0) / samples.length;
+
+    expect(Math.abs(mean)).toBeLessThan(0.1);
+    expect(variance).toBeCloseTo(1, 0);
+  });
+
+  it('should adapt sigma on the agent and keep the state normalized', () => {
+    const agent = createAgent('a', 'tutor', 4, undefined, 0);
+    const before = agent.perception.state;
+
+    applyMutations(agent, { operators: ['gaussian-state'], initialSigma: 0.2 }, createRng(1).next, 0);
+
+    expect(agent.metadata[SIGMA_KEY]).toBeTypeOf('number');
+    expect(agent.metadata[SIGMA_KEY]).not.toBe(0.2);
+    expect(agent.perception.state).not.toEqual(before);
+    expect(norm(agent.perception.state)).toBeCloseTo(1);
+  });
+
+  it('should not write sigma through to the clone source', () => {
+    const parent = createAgent('p', 'tutor', 4, undefined, 0);
+    const child = cloneAgent(parent, 'c');
+
+    applyMutations(child, { operators: ['gaussian-state'] }, createRng(2).next, 0);
+
+    expect(child.metadata[SIGMA_KEY]).toBeTypeOf('number');
+    expect(parent.metadata[SIGMA_KEY]).toBeUndefined();
+  });
+
+  it('should insert catalog rules once and delete rules', () => {
+    const agent = createAgent('a', 'tutor', 4, undefined, 0);
+    const config = { operators: ['rule-insert' as const], catalog: { rules: [rule] } };
+
+    expect(applyMutations(agent, config, createRng(3).next, 0)).toEqual(['rule-insert']);
+    expect(applyMutations(agent, config, createRng(3).next, 0)).toEqual([]);
+    expect(agent.reasoning.knowledge).toContainEqual({ type: 'rule', ...rule });
+
+    expect(applyMutations(agent, { operators: ['rule-delete'] }, createRng(3).next, 0)).toEqual(['rule-delete']);
+    expect(agent.reasoning.knowledge.some(item => item.type === 'rule')).toBe(false);
+  });
+
+  it('should swap in tools the agent lacks', () => {
+    const agent = createAgent('a', 'tutor', 4, undefined, 0);
+    agent.coordination.tools = [{ name: 'calc', cost: 2 }];
+
+    applyMutations(agent, { operators: ['tool-swap'], catalog: { tools: [{ name: 'search', cost: 1 }] } });
+
+    expect(agent.coordination.tools).toEqual([{ name: 'search', cost: 1 }]);
+  });
+
+  it('should add goals from the catalog to a goal-less agent', () => {
+    const agent = createAgent('a', 'tutor', 4, undefined, 0);
+    agent.reasoning.goals = [];
+
+    applyMutations(agent, { operators: ['goal-edit'], catalog: { goals: ['explain'] } }, createRng(4).next, 0);
+
+    expect(agent.reasoning.goals).toEqual(['explain']);
+  });
+
+  it('should skip operators without a catalog and leave lineage untouched', () => {
+    const agent = createAgent('a', 'tutor', 4, undefined, 0);
+    const lineage = [...agent.lineage];
+
+    expect(applyMutations(agent, { operators: ['rule-insert', 'tool-swap'] })).toEqual([]);
+    expect(agent.lineage).toEqual(lineage);
+  });
+
+  it('should record each applied operator in lineage', () => {
+    const agent = createAgent('a', 'tutor', 4, undefined, 0);
+
+    applyMutations(agent, { operators: ['uniform-state', 'rule-insert'], catalog: { rules: [rule] } });
+
+    expect(agent.lineage.slice(-2)).toEqual(['mutation:uniform-state:gen0', 'mutation:rule-insert:gen0']);
+  });
+
+  it('should honour per-operator probabilities', () => {
+    const agent = createAgent('a', 'tutor', 4, undefined, 0);
+
+    expect(applyMutations(agent, { operators: ['uniform-state'], probabilities: { 'uniform-state': 0 } })).toEqual([]);
+  });
+});
+
+describe('mutation - schedules', () => {
+  it('should keep a fixed strength', () => {
+    expect(scheduledStrength(undefined, 5, 10)).toBe(1);
+    expect(scheduledStrength({ type: 'fixed' }, 5, 10, 3)).toBe(1);
+  });
+
+  it('should anneal a cosine schedule from max to min', () => {
+    const schedule = { type: 'cosine' as const, min: 0.2, max: 1 };
+
+    expect(scheduledStrength(schedule, 0, 11)).toBeCloseTo(1);
+    expect(scheduledStrength(schedule, 5, 11)).toBeCloseTo(0.6);
+    expect(scheduledStrength(schedule, 10, 11)).toBeCloseTo(0.2);
+  });
+
+  it('should grow, shrink or hold strength by the 1/5th rule', () => {
+    const schedule = { type: 'one-fifth' as const, factor: 0.5, min: 0.1, max: 4 };
+
+    expect(oneFifthUpdate(1, 0.5, schedule)).toBe(2);
+    expect(oneFifthUpdate(1, 0.1, schedule)).toBe(0.5);
+    expect(oneFifthUpdate(1, 0.2, schedule)).toBe(1);
+    expect(oneFifthUpdate(4, 1, schedule)).toBe(4);
+    expect(oneFifthUpdate(0.1, 0, schedule)).toBe(0.1);
+    expect(scheduledStrength(schedule, 3, 10, 0.7)).toBe(0.7);
+  });
+});
+
+describe('mutation - success', () => {
+  const specs: ObjectiveSpec[] = [
+    { name: 'gain', sense: 'max' },
+    { name: 'latency', sense: 'min' },
+  ];
+
+  it('should count Pareto-dominating children as successes', () => {
+    expect(isMutationSuccess([2, 1], [1, 1], specs)).toBe(true);
+    expect(isMutationSuccess([1, 0], [1, 1], specs)).toBe(true);
+    expect(isMutationSuccess([1, 1], [1, 1], specs)).toBe(false);
+    expect(isMutationSuccess([2, 2], [1, 1], specs)).toBe(false);
+  });
+
+  it('should score marked agents and clear their marks', () => {
+    const improved = createAgent('a', 'tutor', 4, undefined, 0);
+    const worse = createAgent('b', 'tutor', 4, undefined, 0);
+    const unmarked = createAgent('c', 'tutor', 4, undefined, 0);
+    markMutated(improved, [1, 1]);
+    markMutated(worse, [1, 1]);
+    improved.objectives.values = [2, 1];
+    worse.objectives.values = [0, 1];
+
+    expect(collectMutationOutcomes([improved, worse, unmarked], specs, new Set([worse])))
+      .toEqual({ evaluated: 1, successes: 1 });
+    expect(MUTATION_PARENT_KEY in improved.metadata).toBe(false);
+    expect(MUTATION_PARENT_KEY in worse.metadata).toBe(false);
+  });
+});
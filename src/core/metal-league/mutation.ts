@@ -0,0 +1,329 @@
+/**
+ * Mutation Operators
+ *
+ * Typed operators over the tri-layer genome, each recorded in the agent's
+ * lineage as `mutation:<operator>:gen<n>` so improvements can be attributed:
+ * - uniform-state: uniform perturbation of the Hilbert state (the original mutation)
+ * - fact-churn: drop the last fact and learn a placeholder one (the original mutation)
+ * - gaussian-state: Gaussian state noise with a self-adaptive sigma carried on the agent
+ * - rule-insert / rule-delete: add a catalog rule or remove one
+ * - tool-swap: replace a tool with one from the catalog
+ * - goal-edit: add, replace or drop a goal from the catalog
+ *
+ * A schedule scales mutation strength over the run: fixed, cosine annealing,
+ * or Rechenberg's 1/5th success rule.
+ */
+
+import { appendLineage, updatePerception, type MetaAgent, type SymbolicItem, type Tool } from '../agents-runtime/agent';
+import { normalize } from '../laws-physics/hilbert';
+import type { ObjectiveSpec } from '../laws-physics/objectives';
+
+export type MutationOperatorName =
+  | 'uniform-state'
+  | 'fact-churn'
+  | 'gaussian-state'
+  | 'rule-insert'
+  | 'rule-delete'
+  | 'tool-swap'
+  | 'goal-edit';
+
+type Rule = Extract<SymbolicItem, { type: 'rule' }>;
+
+/**
+ * What rule, tool and goal edits draw from. Operators without a catalog do nothing.
+ */
+export interface MutationCatalog {
+  rules?: Omit<Rule, 'type'>[];
+  tools?: Tool[];
+  goals?: string[];
+}
+
+export type MutationSchedule =
+  | { type: 'fixed' }
+  /** Anneal from `max` to `min` over the run (default 1 to 0.1) */
+  | { type: 'cosine'; min?: number; max?: number }
+  /**
+   * Grow strength by 1/`factor` while more than 1/5 of mutations succeed,
+   * shrink it by `factor` while fewer do (default 0.85, bounds 0.01 to 10)
+   */
+  | { type: 'one-fifth'; factor?: number; min?: number; max?: number };
+
+export interface MutationConfig {
+  /** Operators applied to a mutated agent, in order (default: uniform-state, fact-churn) */
+  operators?: MutationOperatorName[];
+
+  /** Chance that each operator applies to a mutated agent (default 1) */
+  probabilities?: Partial<Record<MutationOperatorName, number>>;
+
+  catalog?: MutationCatalog;
+
+  /** Strength schedule (default fixed) */
+  schedule?: MutationSchedule;
+
+  /** Initial sigma of gaussian-state (default 0.1) */
+  initialSigma?: number;
+}
+
+export const DEFAULT_MUTATION_OPERATORS: MutationOperatorName[] = ['uniform-state', 'fact-churn'];
+
+/**
+ * Per-call inputs of an operator.
+ */
+export interface MutationContext {
+  random: () => number;
+  timestamp: number;
+
+  /** Schedule multiplier on perturbation sizes (1 = unscaled) */
+  strength: number;
+
+  catalog: MutationCatalog;
+  initialSigma: number;
+}
+
+/**
+ * Mutate `agent` in place; returns whether anything changed.
+ */
+export type MutationOperator = (agent: MetaAgent, context: MutationContext) => boolean;
+
+/**
+ * Metadata key of the self-adaptive sigma.
+ */
+export const SIGMA_KEY = 'mutationSigma';
+
+const MIN_SIGMA = 1e-4;
+const MAX_SIGMA = 1;
+
+/**
+ * Standard normal draw (Box-Muller).
+ */
+export function gaussian(random: () => number = Math.random): number {
+  const u = 1 - random(); // (0, 1], keeps the log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const uniformState: MutationOperator = (agent, { random, strength, timestamp }) => {
+  const perturbed = agent.perception.state.map(z => ({
+    re: z.re + (random() - 0.5) * 0.2 * strength,
+    im: z.im + (random() - 0.5) * 0.2 * strength,
+  }));
+  updatePerception(agent, normalize(perturbed), 'mutation', timestamp);
+  return true;
+};
+
+const factChurn: MutationOperator = (agent, { random }) => {
+  let changed = false;
+  if (random() < 0.3 && agent.reasoning.knowledge.length > 0) {
+    agent.reasoning.knowledge.pop();
+    changed = true;
+  }
+  if (random() < 0.3) {
+    agent.reasoning.knowledge.push({ type: 'fact', content: `learned-fact-gen${agent.generation}` });
+    changed = true;
+  }
+  return changed;
+};
+
+/**
+ * Log-normal self-adaptation (Schwefel): the agent's sigma is perturbed first,
+ * then used for the state noise, so good step sizes are inherited with good states.
+ */
+const gaussianState: MutationOperator = (agent, { random, strength, timestamp, initialSigma }) => {
+  const components = 2 * agent.perception.state.length;
+  const tau = 1 / Math.sqrt(2 * Math.max(1, components));
+  const current = agent.metadata[SIGMA_KEY];
+  const sigma = Math.min(
+    MAX_SIGMA,
+    Math.max(MIN_SIGMA, (typeof current === 'number' ? current : initialSigma) * Math.exp(tau * gaussian(random)))
+  );
+  // Metadata is shared with the clone source, so replace it rather than write through
+  agent.metadata = { ...agent.metadata, [SIGMA_KEY]: sigma };
+
+  const step = sigma * strength;
+  const perturbed = agent.perception.state.map(z => ({
+    re: z.re + step * gaussian(random),
+    im: z.im + step * gaussian(random),
+  }));
+  updatePerception(agent, normalize(perturbed), 'mutation', timestamp);
+  return true;
+};
+
+const ruleInsert: MutationOperator = (agent, { random, catalog }) => {
+  const has = (rule: Omit<Rule, 'type'>) => agent.reasoning.knowledge.some(
+    item => item.type === 'rule' && item.condition === rule.condition && item.action === rule.action
+  );
+  const candidates = (catalog.rules ?? []).filter(rule => !has(rule));
+  if (candidates.length === 0) return false;
+  agent.reasoning.knowledge.push({ type: 'rule', ...pick(candidates, random) });
+  return true;
+};
+
+const ruleDelete: MutationOperator = (agent, { random }) => {
+  const rules = agent.reasoning.knowledge.flatMap((item, i) => (item.type === 'rule' ? [i] : []));
+  if (rules.length === 0) return false;
+  agent.reasoning.knowledge.splice(pick(rules, random), 1);
+  return true;
+};
+
+const toolSwap: MutationOperator = (agent, { random, catalog }) => {
+  const owned = new Set(agent.coordination.tools.map(t => t.name));
+  const candidates = (catalog.tools ?? []).filter(t => !owned.has(t.name));
+  if (candidates.length === 0) return false;
+  const incoming = pick(candidates, random);
+  const tools = agent.coordination.tools;
+  if (tools.length === 0) {
+    tools.push(incoming);
+  } else {
+    tools[Math.floor(random() * tools.length)] = incoming;
+  }
+  return true;
+};
+
+const goalEdit: MutationOperator = (agent, { random, catalog }) => {
+  const goals = agent.reasoning.goals;
+  const candidates = (catalog.goals ?? []).filter(g => !goals.includes(g));
+  const edit = goals.length === 0 ? 0 : Math.floor(random() * 3);
+
+  if (edit === 2) {
+    goals.splice(Math.floor(random() * goals.length), 1);
+    return true;
+  }
+  if (candidates.length === 0) return false;
+  const goal = pick(candidates, random);
+  if (edit === 0) {
+    goals.push(goal);
+  } else {
+    goals[Math.floor(random() * goals.length)] = goal;
+  }
+  return true;
+};
+
+export const MUTATION_OPERATORS: Record<MutationOperatorName, MutationOperator> = {
+  'uniform-state': uniformState,
+  'fact-churn': factChurn,
+  'gaussian-state': gaussianState,
+  'rule-insert': ruleInsert,
+  'rule-delete': ruleDelete,
+  'tool-swap': toolSwap,
+  'goal-edit': goalEdit,
+};
+
+/**
+ * Apply the configured operators to `agent` and record each one that changed
+ * it in the lineage. Returns the names of the applied operators.
+ */
+export function applyMutations(
+  agent: MetaAgent,
+  config: MutationConfig = {},
+  random: () => number = Math.random,
+  timestamp = Date.now(),
+  strength = 1
+): MutationOperatorName[] {
+  const context: MutationContext = {
+    random,
+    timestamp,
+    strength,
+    catalog: config.catalog ?? {},
+    initialSigma: config.initialSigma ?? 0.1,
+  };
+
+  const applied: MutationOperatorName[] = [];
+  for (const name of config.operators ?? DEFAULT_MUTATION_OPERATORS) {
+    const probability = config.probabilities?.[name] ?? 1;
+    // Draw only for partial probabilities, so the default operators keep their random stream
+    if (probability < 1 && random() >= probability) continue;
+    if (MUTATION_OPERATORS[name](agent, context)) {
+      applied.push(name);
+      agent.lineage = appendLineage(agent.lineage, `mutation:${name}:gen${agent.generation}`);
+    }
+  }
+  return applied;
+}
+
+/**
+ * Strength of a schedule at `generation` of a `generations`-long run.
+ * Adaptive schedules (one-fifth) keep their running strength, `current`.
+ */
+export function scheduledStrength(
+  schedule: MutationSchedule | undefined,
+  generation: number,
+  generations: number,
+  current = 1
+): number {
+  switch (schedule?.type ?? 'fixed') {
+    case 'fixed':
+      return 1;
+    case 'cosine': {
+      const { min = 0.1, max = 1 } = schedule as Extract<MutationSchedule, { type: 'cosine' }>;
+      const progress = generations > 1 ? Math.min(1, generation / (generations - 1)) : 1;
+      return min + (max - min) * 0.5 * (1 + Math.cos(Math.PI * progress));
+    }
+    case 'one-fifth':
+      return current;
+  }
+}
+
+/**
+ * 1/5th success rule: grow strength while more than a fifth of mutations
+ * succeed, shrink it while fewer do.
+ */
+export function oneFifthUpdate(
+  strength: number,
+  successRate: number,
+  schedule: Extract<MutationSchedule, { type: 'one-fifth' }>
+): number {
+  const { factor = 0.85, min = 0.01, max = 10 } = schedule;
+  let next = strength;
+  if (successRate > 0.2) next = strength / factor;
+  if (successRate < 0.2) next = strength * factor;
+  return Math.min(max, Math.max(min, next));
+}
+
+/**
+ * A mutation succeeded if the child is at least as good as its parent in
+ * every objective and better in one (it Pareto-dominates the parent).
+ */
+export function isMutationSuccess(child: number[], parent: number[], specs: ObjectiveSpec[]): boolean {
+  let better = false;
+  for (let i = 0; i < specs.length; i++) {
+    const diff = specs[i].sense === 'max' ? child[i] - parent[i] : parent[i] - child[i];
+    if (diff < 0) return false;
+    if (diff > 0) better = true;
+  }
+  return better;
+}
+
+/**
+ * Metadata key holding a mutated child's parent objectives until the child is evaluated.
+ */
+export const MUTATION_PARENT_KEY = 'mutationParent';
+
+/**
+ * Remember the parent's objectives on a mutated child, to score the mutation later.
+ */
+export function markMutated(child: MetaAgent, parentObjectives: number[]): void {
+  child.metadata = { ...child.metadata, [MUTATION_PARENT_KEY]: [...parentObjectives] };
+}
+
+/**
+ * Score the marked agents among freshly evaluated `agents` and clear all marks.
+ * Marks of `unscored` agents (e.g. failed evaluations) are cleared without scoring.
+ */
+export function collectMutationOutcomes(
+  agents: MetaAgent[],
+  specs: ObjectiveSpec[],
+  unscored: ReadonlySet<MetaAgent> = new Set()
+): { evaluated: number; successes: number } {
+  let evaluated = 0;
+  let successes = 0;
+  for (const agent of agents) {
+    const { [MUTATION_PARENT_KEY]: parent, ...metadata } = agent.metadata;
+    if (!Array.isArray(parent)) continue;
+    agent.metadata = metadata;
+    if (unscored.has(agent)) continue;
+    evaluated++;
+    if (isMutationSuccess(agent.objectives.values, parent as number[], specs)) successes++;
+  }
+  return { evaluated, successes };
+}
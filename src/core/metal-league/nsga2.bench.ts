@@ -0,0 +1,60 @@
+/**
+ * BENCHMARK: nsga2.bench.ts
+ * Pairwise vs efficient non-dominated sorting (run with `npm run bench`)
+ */
+
+import { bench, describe } from 'vitest';
+import { pairwiseNonDominatedSort, efficientNonDominatedSort, type Genome } from './nsga2';
+import { ObjectiveSpec, DEFAULT_OBJECTIVES } from '../laws-physics/objectives';
+import { createRng } from '../laws-physics/random';
+
+const twoObjectives: ObjectiveSpec[] = [
+  { name: 'gain', sense: 'max' },
+  { name: 'cost', sense: 'min' },
+];
+
+function population(size: number, specs: ObjectiveSpec[], seed = 1): Genome[] {
+  const rng = createRng(seed);
+  return Array.from({ length: size }, (_, i) => ({
+    id: `g${i}`,
+    objectives: { values: specs.map(() => rng.next()), timestamp: 0 },
+    violation: rng.next() < 0.1 ? rng.next() : 0,
+  }));
+}
+
+// The pairwise sort is quadratic, so it is only measured where it finishes in seconds
+for (const size of [500, 2000]) {
+  describe(`sort ${size} genomes, 2 objectives`, () => {
+    const pop = population(size, twoObjectives);
+
+    bench('pairwise', () => {
+      pairwiseNonDominatedSort(pop, twoObjectives);
+    }, { iterations: 3 });
+
+    bench('efficient', () => {
+      efficientNonDominatedSort(pop, twoObjectives);
+    }, { iterations: 3 });
+  });
+}
+
+describe('sort 2000 genomes, 6 objectives', () => {
+  const pop = population(2000, DEFAULT_OBJECTIVES);
+
+  bench('pairwise', () => {
+    pairwiseNonDominatedSort(pop, DEFAULT_OBJECTIVES);
+  }, { iterations: 3 });
+
+  bench('efficient', () => {
+    efficientNonDominatedSort(pop, DEFAULT_OBJECTIVES);
+  }, { iterations: 3 });
+});
+
+for (const size of [5000, 50000]) {
+  describe(`efficient sort ${size} genomes, 2 objectives`, () => {
+    const pop = population(size, twoObjectives);
+
+    bench('efficient', () => {
+      efficientNonDominatedSort(pop, twoObjectives);
+    }, { iterations: 3 });
+  });
+}
@@ -7,6 +7,8 @@ import { describe, it, expect } from 'vitest';
 import {
   dominates,
   fastNonDominatedSort,
+  pairwiseNonDominatedSort,
+  efficientNonDominatedSort,
   crowdingDistance,
   type Genome,
 } from './nsga2';
@@ -163,6 +165,50 @@ describe('nsga2 - properties', () => {
     });
   });
 
+  describe('efficient sort properties', () => {
+    const frontIds = (fronts: Genome[][]) => fronts.map(f => f.map(g => g.id).sort());
+
+    // Coarse integer grid so ties and duplicates are common
+    function gridPopulation(size: number, dims: number, infeasibleRate: number): Genome[] {
+      return Array.from({ length: size }, (_, i) => ({
+        id: `g${i}`,
+        objectives: {
+          values: Array.from({ length: dims }, () => Math.floor(Math.random() * 5)),
+          timestamp: 0,
+        },
+        violation: Math.random() < infeasibleRate ? Math.floor(Math.random() * 3) + 1 : 0,
+      }));
+    }
+
+    it('should produce the same fronts as the pairwise sort', () => {
+      const specs: ObjectiveSpec[] = [
+        { name: 'a', sense: 'max' },
+        { name: 'b', sense: 'min' },
+        { name: 'c', sense: 'min' },
+      ];
+      forAll(
+        () => gridPopulation(40, 3, 0.2),
+        (pop) => {
+          const expected = frontIds(pairwiseNonDominatedSort(pop, specs));
+          return JSON.stringify(frontIds(efficientNonDominatedSort(pop, specs))) === JSON.stringify(expected);
+        }
+      );
+    });
+
+    it('should agree with the pairwise ranks on continuous objectives', () => {
+      forAll(
+        () => randomPopulation(60),
+        (pop) => {
+          const ranks = new Map(pop.map(g => [g.id, 0]));
+          pairwiseNonDominatedSort(pop, testSpecs).forEach((f, r) => f.forEach(g => ranks.set(g.id, r)));
+          return efficientNonDominatedSort(pop, testSpecs).every((f, r) =>
+            f.every(g => g.rank === r && ranks.get(g.id) === r)
+          );
+        }
+      );
+    });
+  });
+
   describe('crowding distance properties', () => {
     it('should be non-negative', () => {
       forAll(
@@ -5,13 +5,21 @@
  * Implements fast non-dominated sorting and crowding distance.
  */
 
-import { ObjectiveSpec, ObjectiveVector, noWorse, strictlyBetter } from '../laws-physics/objectives';
+import {
+  ObjectiveSpec,
+  ObjectiveVector,
+  ObjectiveNormalizer,
+  noWorse,
+  strictlyBetter,
+} from '../laws-physics/objectives';
 
 export interface Genome {
   id: string;
   objectives: ObjectiveVector;
   rank?: number;
   crowding?: number;
+  /** Aggregate constraint violation; 0 or undefined means feasible */
+  violation?: number;
   [key: string]: unknown;
 }
 
@@ -49,12 +57,54 @@ export function dominates(
 }
 
 /**
- * Fast non-dominated sorting (NSGA-II).
- * Returns array of fronts where front[0] is Pareto-optimal.
+ * Deb's constrained-domination rule:
+ * - a feasible genome beats an infeasible one
+ * - between infeasible genomes, lower aggregate violation wins
+ * - between feasible genomes, plain Pareto dominance decides
+ */
+export function constrainedDominates(
+  a: Genome,
+  b: Genome,
+  specs: ObjectiveSpec[]
+): boolean {
+  const va = a.violation ?? 0;
+  const vb = b.violation ?? 0;
+  
+  if (va <= 0 && vb <= 0) return dominates(a, b, specs);
+  if (va <= 0) return true;
+  if (vb <= 0) return false;
+  return va < vb;
+}
+
+/**
+ * Population size above which fastNonDominatedSort switches to the
+ * efficient sorter. Below it the pairwise sort is cheap enough and keeps
+ * each front in population order.
+ */
+export const EFFICIENT_SORT_THRESHOLD = 200;
+
+/**
+ * Non-dominated sorting.
+ * Returns array of fronts where front[0] is Pareto-optimal, and sets each genome's rank.
+ * Uses constrained domination, so infeasible genomes rank behind feasible ones.
+ * Populations above EFFICIENT_SORT_THRESHOLD use efficientNonDominatedSort;
+ * both produce the same fronts (order within a front may differ).
  */
 export function fastNonDominatedSort(
   population: Genome[],
   specs: ObjectiveSpec[]
+): Genome[][] {
+  return population.length > EFFICIENT_SORT_THRESHOLD
+    ? efficientNonDominatedSort(population, specs)
+    : pairwiseNonDominatedSort(population, specs);
+}
+
+/**
+ * Pairwise non-dominated sorting (Deb et al., NSGA-II). O(M·N²).
+ */
+export function pairwiseNonDominatedSort(
+  population: Genome[],
+  specs: ObjectiveSpec[]
 ): Genome[][] {
   const fronts: Genome[][] = [];
   const S = new Map<string, Genome[]>(); // solutions each genome dominates
@@ -71,9 +121,9 @@ export function fastNonDominatedSort(
     for (const q of population) {
       if (p.id === q.id) continue;
       
-      if (dominates(p, q, specs)) {
+      if (constrainedDominates(p, q, specs)) {
         S.get(p.id)!.push(q);
-      } else if (dominates(q, p, specs)) {
+      } else if (constrainedDominates(q, p, specs)) {
         n.set(p.id, (n.get(p.id) ?? 0) + 1);
       }
     }
@@ -110,13 +160,107 @@ export function fastNonDominatedSort(
   return fronts.filter(f => f.length > 0);
 }
 
+/**
+ * Efficient non-dominated sorting with binary search (ENS-BS, Zhang et al. 2015).
+ *
+ * Feasible genomes are sorted lexicographically in minimization form, so no
+ * genome can be dominated by one after it. Each genome is then placed into
+ * the first front with no member dominating it, found by binary search over
+ * the fronts. Infeasible genomes form one front per distinct violation,
+ * matching constrainedDominates. O(N log N) when there are many fronts,
+ * O(M·N²) in the worst case (everything on one front).
+ */
+export function efficientNonDominatedSort(
+  population: Genome[],
+  specs: ObjectiveSpec[]
+): Genome[][] {
+  const feasible: { genome: Genome; point: number[] }[] = [];
+  const infeasible: Genome[] = [];
+
+  for (const genome of population) {
+    if (genome.objectives.values.length !== specs.length) {
+      throw new Error('Objective vector length must match specs');
+    }
+    if ((genome.violation ?? 0) <= 0) {
+      const point = genome.objectives.values.map((v, i) => (specs[i].sense === 'max' ? -v : v));
+      feasible.push({ genome, point });
+    } else {
+      infeasible.push(genome);
+    }
+  }
+
+  feasible.sort((a, b) => {
+    for (let i = 0; i < a.point.length; i++) {
+      if (a.point[i] !== b.point[i]) return a.point[i] - b.point[i];
+    }
+    return 0;
+  });
+
+  const dominatesPoint = (a: number[], b: number[]) => {
+    let strictly = false;
+    for (let i = 0; i < a.length; i++) {
+      if (!(a[i] <= b[i])) return false;
+      if (a[i] < b[i]) strictly = true;
+    }
+    return strictly;
+  };
+
+  // Scan newest members first: they are closest in sort order and likeliest to dominate
+  const dominatedBy = (front: number[][], point: number[]) => {
+    for (let j = front.length - 1; j >= 0; j--) {
+      if (dominatesPoint(front[j], point)) return true;
+    }
+    return false;
+  };
+
+  const fronts: Genome[][] = [];
+  const frontPoints: number[][][] = [];
+
+  for (const { genome, point } of feasible) {
+    let lo = 0;
+    let hi = fronts.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (dominatedBy(frontPoints[mid], point)) lo = mid + 1;
+      else hi = mid;
+    }
+
+    if (lo === fronts.length) {
+      fronts.push([]);
+      frontPoints.push([]);
+    }
+    genome.rank = lo;
+    fronts[lo].push(genome);
+    frontPoints[lo].push(point);
+  }
+
+  // Infeasible genomes: lower violation dominates, equal violations tie
+  infeasible.sort((a, b) => (a.violation ?? 0) - (b.violation ?? 0));
+  let previous: number | undefined;
+  for (const genome of infeasible) {
+    if (genome.violation !== previous) {
+      fronts.push([]);
+      previous = genome.violation;
+    }
+    genome.rank = fronts.length - 1;
+    fronts[fronts.length - 1].push(genome);
+  }
+
+  return fronts;
+}
+
 /**
  * Calculate crowding distance for diversity within a front.
  * Higher crowding distance = more isolated = more valuable for diversity.
+ *
+ * Without a normalizer each objective is scaled by its range within the front.
+ * With one, gaps are measured in the normalizer's units, so distances are
+ * comparable across fronts and generations.
  */
 export function crowdingDistance(
   front: Genome[],
-  specs: ObjectiveSpec[]
+  specs: ObjectiveSpec[],
+  normalizer?: ObjectiveNormalizer
 ): Map<string, number> {
   const distances = new Map<string, number>();
   
@@ -136,14 +280,24 @@ export function crowdingDistance(
     return distances;
   }
   
+  // Normalized values are already oriented (lower is better)
+  const normalized = new Map<string, number[]>();
+  if (normalizer) {
+    for (const g of front) {
+      normalized.set(g.id, normalizer.normalize(g.objectives));
+    }
+  }
+  const valueOf = (g: Genome, m: number) =>
+    normalizer ? normalized.get(g.id)![m] : g.objectives.values[m];
+  
   // For each objective
   for (let m = 0; m < specs.length; m++) {
-    const sense = specs[m].sense;
+    const sense = normalizer ? 'min' : specs[m].sense;
     
     // Sort by this objective
     const sorted = [...front].sort((a, b) => {
-      const av = a.objectives.values[m];
-      const bv = b.objectives.values[m];
+      const av = valueOf(a, m);
+      const bv = valueOf(b, m);
       return sense === 'max' ? bv - av : av - bv;
     });
     
@@ -152,16 +306,16 @@ export function crowdingDistance(
     distances.set(sorted[sorted.length - 1].id, Infinity);
     
     // Calculate range
-    const minVal = sorted[sorted.length - 1].objectives.values[m];
-    const maxVal = sorted[0].objectives.values[m];
-    const range = maxVal - minVal;
+    const spread = Math.abs(valueOf(sorted[sorted.length - 1], m) - valueOf(sorted[0], m));
+    
+    if (spread < 1e-10) continue; // avoid division by zero
     
-    if (range < 1e-10) continue; // avoid division by zero
+    const range = normalizer ? 1 : spread;
     
     // Calculate distances for middle points
     for (let i = 1; i < sorted.length - 1; i++) {
-      const prev = sorted[i - 1].objectives.values[m];
-      const next = sorted[i + 1].objectives.values[m];
+      const prev = valueOf(sorted[i - 1], m);
+      const next = valueOf(sorted[i + 1], m);
       const dist = distances.get(sorted[i].id) ?? 0;
       distances.set(sorted[i].id, dist + Math.abs(next - prev) / range);
     }
@@ -179,9 +333,9 @@ export function crowdingDistance(
  * Binary tournament selection by rank and crowding.
  * Lower rank wins; if tied, higher crowding wins.
  */
-export function tournamentSelect(population: Genome[]): Genome {
-  const a = population[Math.floor(Math.random() * population.length)];
-  const b = population[Math.floor(Math.random() * population.length)];
+export function tournamentSelect(population: Genome[], random: () => number = Math.random): Genome {
+  const a = population[Math.floor(random() * population.length)];
+  const b = population[Math.floor(random() * population.length)];
   
   const rankA = a.rank ?? Infinity;
   const rankB = b.rank ?? Infinity;
@@ -198,17 +352,19 @@ export function tournamentSelect(population: Genome[]): Genome {
 
 /**
  * Select next generation using elitism + crowding.
+ * An optional normalizer puts crowding on a common scale (see crowdingDistance).
  */
 export function nsga2Select(
   population: Genome[],
   specs: ObjectiveSpec[],
-  targetSize: number
+  targetSize: number,
+  normalizer?: ObjectiveNormalizer
 ): Genome[] {
   const fronts = fastNonDominatedSort(population, specs);
   
   // Calculate crowding for each front
   for (const front of fronts) {
-    crowdingDistance(front, specs);
+    crowdingDistance(front, specs, normalizer);
   }
   
   const selected: Genome[] = [];
@@ -0,0 +1,115 @@
+/**
+ * SPEC TEST: nsga3.spec.ts
+ * Paired with nsga3.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { dasDennisCount, dasDennisDirections, divisionsFor, nsga3Select } from './nsga3';
+import type { Genome } from './nsga2';
+import { DEFAULT_OBJECTIVES, ObjectiveSpec } from '../laws-physics/objectives';
+import { createRng } from '../laws-physics/random';
+
+const minSpecs: ObjectiveSpec[] = [
+  { name: 'latency', sense: 'min' },
+  { name: 'cost', sense: 'min' },
+];
+
+function makeGenome(id: string, values: number[]): Genome {
+  return { id, objectives: { values, timestamp: Date.now() } };
+}
+
+describe('nsga3 - reference directions', () => {
+  it('should generate C(m + p - 1, p) directions', () => {
+    expect(dasDennisDirections(3, 4)).toHaveLength(15);
+    expect(dasDennisDirections(6, 2)).toHaveLength(21);
+  });
+
+  it('should place every direction on the unit simplex', () => {
+    for (const d of dasDennisDirections(4, 3)) {
+      expect(d.reduce((s, v) => s + v, 0)).toBeCloseTo(1);
+      for (const v of d) expect(v).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('should include the axes', () => {
+    const directions = dasDennisDirections(2, 2);
+    expect(directions).toContainEqual([0, 1]);
+    expect(directions).toContainEqual([0.5, 0.5]);
+    expect(directions).toContainEqual([1, 0]);
+  });
+
+  it('should count directions without generating them', () => {
+    for (const [m, p] of [[1, 3], [2, 4], [3, 4], [6, 2], [6, 5]]) {
+      expect(dasDennisCount(m, p)).toBe(dasDennisDirections(m, p).length);
+    }
+    expect(dasDennisCount(6, 30)).toBe(324632);
+  });
+
+  it('should pick the fewest divisions covering a count', () => {
+    expect(divisionsFor(6, 10)).toBe(2);
+    expect(divisionsFor(2, 5)).toBe(4);
+    expect(divisionsFor(1, 5)).toBe(1);
+  });
+});
+
+describe('nsga3 - selection', () => {
+  it('should select from a large many-objective population with capped directions', () => {
+    const rng = createRng(4);
+    const population = Array.from({ length: 5000 }, (_, i) =>
+      makeGenome(`g${i}`, DEFAULT_OBJECTIVES.map(() => rng.next())));
+
+    const selected = nsga3Select(population, DEFAULT_OBJECTIVES, 2500, { random: rng.next });
+    expect(selected).toHaveLength(2500);
+    expect(new Set(selected.map(g => g.id)).size).toBe(2500);
+  });
+
+  it('should return exactly the target size', () => {
+    const population = Array.from({ length: 12 }, (_, i) => makeGenome(`g${i}`, [i, 12 - i]));
+    expect(nsga3Select(population, minSpecs, 5)).toHaveLength(5);
+  });
+
+  it('should keep whole better fronts before splitting', () => {
+    const population = [
+      makeGenome('a', [0, 4]),
+      makeGenome('b', [4, 0]),
+      makeGenome('dominated', [5, 5]),
+    ];
+    const ids = nsga3Select(population, minSpecs, 2).map(g => g.id);
+    expect(ids.sort()).toEqual(['a', 'b']);
+  });
+
+  it('should spread survivors across niches', () => {
+    // A tight cluster near one extreme plus one point at each end of the front
+    const population = [
+      makeGenome('left', [0, 10]),
+      makeGenome('c1', [9, 1.02]),
+      makeGenome('c2', [9.01, 1.01]),
+      makeGenome('c3', [9.02, 1]),
+      makeGenome('right', [10, 0]),
+    ];
+    const ids = nsga3Select(population, minSpecs, 3, { divisions: 2, random: () => 0 }).map(g => g.id);
+
+    expect(ids).toContain('left');
+    expect(ids).toContain('right');
+  });
+
+  it('should orient max objectives', () => {
+    const specs: ObjectiveSpec[] = [
+      { name: 'gain', sense: 'max' },
+      { name: 'cost', sense: 'min' },
+    ];
+    const population = [
+      makeGenome('good', [1, 0]),
+      makeGenome('bad', [0, 1]),
+    ];
+    expect(nsga3Select(population, specs, 1)[0].id).toBe('good');
+  });
+
+  it('should prefer feasible genomes', () => {
+    const population = [
+      { ...makeGenome('infeasible', [0, 0]), violation: 1 },
+      makeGenome('feasible', [5, 5]),
+    ];
+    expect(nsga3Select(population, minSpecs, 1)[0].id).toBe('feasible');
+  });
+});
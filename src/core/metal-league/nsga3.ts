@@ -0,0 +1,252 @@
+/**
+ * NSGA-III Reference-Direction Selection
+ *
+ * With many objectives (the default physics has six) almost every agent is
+ * non-dominated, so NSGA-II's crowding distance is left to do all the work
+ * and degrades. NSGA-III instead spreads survivors across a fixed set of
+ * reference directions on the unit simplex (Das-Dennis), filling the
+ * least-crowded niches first.
+ *
+ * Associating candidates with directions costs O(N·H·M), so by default the
+ * direction count H is capped (DEFAULT_MAX_DIRECTIONS) and large populations
+ * share niches instead of making selection quadratic.
+ */
+
+import { ObjectiveSpec } from '../laws-physics/objectives';
+import { fastNonDominatedSort, type Genome } from './nsga2';
+
+/**
+ * Default cap on the number of reference directions chosen for a target size.
+ */
+export const DEFAULT_MAX_DIRECTIONS = 256;
+
+export interface Nsga3Options {
+  /**
+   * Das-Dennis divisions per objective; defaults to the smallest giving
+   * >= min(targetSize, maxDirections) directions
+   */
+  divisions?: number;
+
+  /** Cap on the default direction count (default DEFAULT_MAX_DIRECTIONS); ignored with divisions */
+  maxDirections?: number;
+
+  /** Explicit reference directions (overrides divisions) */
+  directions?: number[][];
+
+  /** Uniform [0, 1) source for niche tie-breaking */
+  random?: () => number;
+}
+
+/**
+ * Das-Dennis structured reference directions: all points on the unit simplex
+ * whose coordinates are multiples of 1/divisions.
+ * Yields C(objectives + divisions - 1, divisions) directions.
+ */
+export function dasDennisDirections(objectives: number, divisions: number): number[][] {
+  if (objectives < 1) return [];
+  if (divisions < 1) return [new Array<number>(objectives).fill(1 / objectives)];
+
+  const directions: number[][] = [];
+  const current = new Array<number>(objectives).fill(0);
+
+  const fill = (index: number, remaining: number) => {
+    if (index === objectives - 1) {
+      current[index] = remaining / divisions;
+      directions.push([...current]);
+      return;
+    }
+    for (let k = 0; k <= remaining; k++) {
+      current[index] = k / divisions;
+      fill(index + 1, remaining - k);
+    }
+  };
+
+  fill(0, divisions);
+  return directions;
+}
+
+/**
+ * Number of Das-Dennis directions, C(objectives + divisions - 1, divisions),
+ * without generating them.
+ */
+export function dasDennisCount(objectives: number, divisions: number): number {
+  if (objectives < 1) return 0;
+  if (divisions < 1) return 1;
+  let count = 1;
+  for (let k = 1; k <= divisions; k++) {
+    count = (count * (objectives - 1 + k)) / k;
+  }
+  return Math.round(count);
+}
+
+/**
+ * Smallest division count giving at least `count` directions.
+ */
+export function divisionsFor(objectives: number, count: number): number {
+  if (objectives <= 1) return 1;
+  let divisions = 1;
+  while (dasDennisCount(objectives, divisions) < count) {
+    divisions++;
+  }
+  return divisions;
+}
+
+/**
+ * Solve a small dense linear system by Gaussian elimination with partial pivoting.
+ * Returns undefined if the system is singular.
+ */
+function solveLinear(matrix: number[][], rhs: number[]): number[] | undefined {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return undefined;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  return a.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Normalize minimization points: translate by the ideal point, then scale by
+ * the intercepts of the hyperplane through the extreme points. Falls back to
+ * the per-objective maxima when the hyperplane is degenerate.
+ */
+function normalizePoints(points: number[][]): number[][] {
+  const m = points[0].length;
+  const ideal = Array.from({ length: m }, (_, i) => Math.min(...points.map(p => p[i])));
+  const translated = points.map(p => p.map((v, i) => v - ideal[i]));
+
+  // Extreme point per axis: minimizes the achievement scalarizing function
+  const extremes = Array.from({ length: m }, (_, axis) => {
+    const weights = Array.from({ length: m }, (_, i) => (i === axis ? 1 : 1e-6));
+    let best = translated[0];
+    let bestScore = Infinity;
+    for (const p of translated) {
+      const score = Math.max(...p.map((v, i) => v / weights[i]));
+      if (score < bestScore) {
+        bestScore = score;
+        best = p;
+      }
+    }
+    return best;
+  });
+
+  const maxima = Array.from({ length: m }, (_, i) => Math.max(...translated.map(p => p[i])));
+  const plane = solveLinear(extremes, new Array<number>(m).fill(1));
+  const fromPlane = plane?.map(c => 1 / c);
+  const intercepts = fromPlane && fromPlane.every(a => isFinite(a) && a > 1e-6) ? fromPlane : maxima;
+
+  return translated.map(p => p.map((v, i) => (intercepts[i] > 1e-12 ? v / intercepts[i] : v)));
+}
+
+/**
+ * Perpendicular distance from a point to the line through the origin along a direction.
+ */
+function perpendicularDistance(point: number[], direction: number[]): number {
+  const dirNormSq = direction.reduce((s, d) => s + d * d, 0);
+  const projection = point.reduce((s, v, i) => s + v * direction[i], 0) / dirNormSq;
+  return Math.sqrt(point.reduce((s, v, i) => s + (v - projection * direction[i]) ** 2, 0));
+}
+
+/**
+ * Select next generation using NSGA-III: whole fronts while they fit,
+ * then niche-preserving selection from the splitting front.
+ */
+export function nsga3Select(
+  population: Genome[],
+  specs: ObjectiveSpec[],
+  targetSize: number,
+  options: Nsga3Options = {}
+): Genome[] {
+  const random = options.random ?? Math.random;
+  const fronts = fastNonDominatedSort(population, specs);
+
+  const selected: Genome[] = [];
+  let splitting: Genome[] = [];
+  for (const front of fronts) {
+    if (selected.length + front.length <= targetSize) {
+      selected.push(...front);
+    } else {
+      splitting = front;
+      break;
+    }
+  }
+
+  const remaining = targetSize - selected.length;
+  if (remaining <= 0 || splitting.length === 0) return selected;
+
+  const directionCount = Math.min(targetSize, options.maxDirections ?? DEFAULT_MAX_DIRECTIONS);
+  const directions = options.directions ??
+    dasDennisDirections(specs.length, options.divisions ?? divisionsFor(specs.length, directionCount));
+
+  // Associate every candidate with its nearest reference direction
+  const candidates = [...selected, ...splitting];
+  const points = normalizePoints(
+    candidates.map(g => g.objectives.values.map((v, i) => (specs[i].sense === 'max' ? -v : v)))
+  );
+  const niche: number[] = [];
+  const distance: number[] = [];
+  points.forEach(p => {
+    let best = 0;
+    let bestDistance = Infinity;
+    directions.forEach((d, j) => {
+      const dist = perpendicularDistance(p, d);
+      if (dist < bestDistance) {
+        bestDistance = dist;
+        best = j;
+      }
+    });
+    niche.push(best);
+    distance.push(bestDistance);
+  });
+
+  // Niche counts from the already-selected members
+  const counts = new Array<number>(directions.length).fill(0);
+  for (let i = 0; i < selected.length; i++) {
+    counts[niche[i]]++;
+  }
+
+  // Pool of splitting-front members per niche (indices into candidates)
+  const pool = new Map<number, number[]>();
+  for (let i = selected.length; i < candidates.length; i++) {
+    const members = pool.get(niche[i]) ?? [];
+    members.push(i);
+    pool.set(niche[i], members);
+  }
+
+  for (let k = 0; k < remaining && pool.size > 0; k++) {
+    // Least crowded niche that still has candidates; ties broken at random
+    const minCount = Math.min(...[...pool.keys()].map(j => counts[j]));
+    const tied = [...pool.keys()].filter(j => counts[j] === minCount);
+    const j = tied[Math.floor(random() * tied.length)];
+    const members = pool.get(j)!;
+
+    // Empty niche: take the closest member; otherwise any member
+    let pick: number;
+    if (counts[j] === 0) {
+      pick = members.reduce((best, i) => (distance[i] < distance[best] ? i : best));
+    } else {
+      pick = members[Math.floor(random() * members.length)];
+    }
+
+    selected.push(candidates[pick]);
+    counts[j]++;
+    members.splice(members.indexOf(pick), 1);
+    if (members.length === 0) pool.delete(j);
+  }
+
+  return selected;
+}
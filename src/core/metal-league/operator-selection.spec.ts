@@ -0,0 +1,78 @@
+/**
+ * SPEC TEST: operator-selection.spec.ts
+ * Paired with operator-selection.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createOperatorBandit,
+  creditOperators,
+  markOffspring,
+  operatorPicker,
+  VARIATION_OPERATOR_KEY,
+} from './operator-selection';
+import { createAgent } from '../agents-runtime/agent';
+
+describe('operator selection - picking', () => {
+  it('should try every arm before exploiting', () => {
+    const bandit = createOperatorBandit(['crossover', 'gaussian-state', 'tool-swap'], 0);
+    const pick = operatorPicker(bandit, () => 0.5);
+
+    expect([pick(), pick(), pick()].sort()).toEqual(['crossover', 'gaussian-state', 'tool-swap']);
+  });
+
+  it('should favour the arm with the best mean reward', () => {
+    const bandit = createOperatorBandit(['crossover', 'gaussian-state'], 0);
+    bandit.arms['crossover'] = { agentId: 'crossover', pulls: 50, meanReward: 0.1 };
+    bandit.arms['gaussian-state'] = { agentId: 'gaussian-state', pulls: 50, meanReward: 0.9 };
+    const pick = operatorPicker(bandit, () => 0.5);
+
+    expect(pick()).toBe('gaussian-state');
+  });
+
+  it('should pick uniformly when exploring', () => {
+    const bandit = createOperatorBandit(['crossover', 'gaussian-state'], 1);
+    bandit.arms['gaussian-state'] = { agentId: 'gaussian-state', pulls: 50, meanReward: 1 };
+    const draws = [0, 0.1];
+    const pick = operatorPicker(bandit, () => draws.shift() ?? 0);
+
+    expect(pick()).toBe('crossover');
+  });
+
+  it('should reject an empty operator set', () => {
+    expect(() => operatorPicker(createOperatorBandit([]))).toThrow('at least one operator');
+  });
+});
+
+describe('operator selection - credit', () => {
+  it('should reward offspring that entered the front and clear marks', () => {
+    const bandit = createOperatorBandit(['crossover', 'rule-insert']);
+    const inFront = createAgent('a', 'tutor');
+    const behind = createAgent('b', 'tutor');
+    const failed = createAgent('c', 'tutor');
+    const survivor = createAgent('d', 'tutor');
+    markOffspring(inFront, 'crossover');
+    markOffspring(behind, 'crossover');
+    markOffspring(failed, 'rule-insert');
+
+    const credit = creditOperators(
+      bandit,
+      [inFront, behind, failed, survivor],
+      new Set([inFront, failed, survivor]),
+      new Set([failed])
+    );
+
+    expect(credit['crossover']).toEqual({ offspring: 2, frontEntries: 1, pulls: 2, meanReward: 0.5 });
+    expect(credit['rule-insert']).toEqual({ offspring: 1, frontEntries: 0, pulls: 1, meanReward: 0 });
+    expect(VARIATION_OPERATOR_KEY in inFront.metadata).toBe(false);
+    expect(VARIATION_OPERATOR_KEY in failed.metadata).toBe(false);
+  });
+
+  it('should report idle arms with their running totals', () => {
+    const bandit = createOperatorBandit(['crossover', 'goal-edit']);
+    bandit.arms['goal-edit'] = { agentId: 'goal-edit', pulls: 4, meanReward: 0.25 };
+
+    expect(creditOperators(bandit, [], new Set())['goal-edit'])
+      .toEqual({ offspring: 0, frontEntries: 0, pulls: 4, meanReward: 0.25 });
+  });
+});
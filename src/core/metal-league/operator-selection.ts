@@ -0,0 +1,130 @@
+/**
+ * Adaptive Operator Selection
+ *
+ * Treats each variation operator (crossover, or one mutation operator applied
+ * to a clone) as an arm of the router's UCB bandit. Every offspring is made by
+ * one arm; once it is evaluated, the arm is rewarded 1 if the offspring entered
+ * the Pareto front and 0 otherwise, so productive operators are chosen more often.
+ */
+
+import type { MetaAgent } from '../agents-runtime/agent';
+import { ucbScore, updateBandit, type BanditState } from '../../router/evolution_router';
+import type { MutationOperatorName } from './mutation';
+
+export type VariationOperator = 'crossover' | MutationOperatorName;
+
+export interface OperatorSelectionConfig {
+  /** Arms to choose from (default: crossover plus the configured mutation operators) */
+  operators?: VariationOperator[];
+
+  /** Chance of picking a uniformly random arm instead of the best UCB score (default 0.1) */
+  explorationRate?: number;
+}
+
+/**
+ * Credit of one operator in a generation.
+ */
+export interface OperatorCredit {
+  /** Offspring of this operator evaluated in the generation */
+  offspring: number;
+
+  /** Of those, how many entered the Pareto front */
+  frontEntries: number;
+
+  /** Pulls of the arm so far */
+  pulls: number;
+
+  /** Running mean reward of the arm */
+  meanReward: number;
+}
+
+/**
+ * Metadata key holding the operator that made an offspring until it is evaluated.
+ */
+export const VARIATION_OPERATOR_KEY = 'variationOperator';
+
+/**
+ * Fresh bandit with one arm per operator.
+ */
+export function createOperatorBandit(operators: VariationOperator[], explorationRate = 0.1): BanditState {
+  const arms: BanditState['arms'] = {};
+  for (const operator of operators) {
+    arms[operator] = { agentId: operator, pulls: 0, meanReward: 0 };
+  }
+  return { explorationRate, arms };
+}
+
+/**
+ * Picker for the offspring of one generation: epsilon-greedy over UCB scores.
+ * Picks not yet rewarded count as pending pulls, so untried arms share a
+ * generation instead of all offspring going to the first of them.
+ */
+export function operatorPicker(bandit: BanditState, random: () => number = Math.random): () => VariationOperator {
+  const names = Object.keys(bandit.arms) as VariationOperator[];
+  if (names.length === 0) {
+    throw new Error('Operator selection needs at least one operator');
+  }
+  const pending: Record<string, number> = {};
+
+  return () => {
+    let choice: VariationOperator;
+    if (random() < bandit.explorationRate) {
+      choice = names[Math.floor(random() * names.length)];
+    } else {
+      const pulls = (name: string) => bandit.arms[name].pulls + (pending[name] ?? 0);
+      const total = names.reduce((sum, name) => sum + pulls(name), 0);
+      let best = -Infinity;
+      choice = names[0];
+      for (const name of names) {
+        const score = ucbScore({ ...bandit.arms[name], pulls: pulls(name) }, total);
+        if (score > best) {
+          best = score;
+          choice = name;
+        }
+      }
+    }
+    pending[choice] = (pending[choice] ?? 0) + 1;
+    return choice;
+  };
+}
+
+/**
+ * Remember the operator that made an offspring, to credit it once evaluated.
+ */
+export function markOffspring(child: MetaAgent, operator: VariationOperator): void {
+  child.metadata = { ...child.metadata, [VARIATION_OPERATOR_KEY]: operator };
+}
+
+/**
+ * Reward the operators of the marked agents among freshly evaluated `agents`
+ * (1 if the agent is in `front`, else 0) and clear all marks.
+ * `unscored` agents (e.g. failed evaluations) earn 0.
+ */
+export function creditOperators(
+  bandit: BanditState,
+  agents: MetaAgent[],
+  front: ReadonlySet<MetaAgent>,
+  unscored: ReadonlySet<MetaAgent> = new Set()
+): Record<string, OperatorCredit> {
+  const credit: Record<string, OperatorCredit> = {};
+  for (const name of Object.keys(bandit.arms)) {
+    credit[name] = { offspring: 0, frontEntries: 0, pulls: 0, meanReward: 0 };
+  }
+
+  for (const agent of agents) {
+    const { [VARIATION_OPERATOR_KEY]: operator, ...metadata } = agent.metadata;
+    if (operator === undefined) continue;
+    agent.metadata = metadata;
+    if (typeof operator !== 'string' || !credit[operator]) continue;
+    const reward = front.has(agent) && !unscored.has(agent) ? 1 : 0;
+    updateBandit(bandit, operator, reward);
+    credit[operator].offspring++;
+    credit[operator].frontEntries += reward;
+  }
+
+  for (const [name, arm] of Object.entries(bandit.arms)) {
+    credit[name].pulls = arm.pulls;
+    credit[name].meanReward = arm.meanReward;
+  }
+  return credit;
+}
@@ -0,0 +1,174 @@
+/**
+ * SPEC TEST: parent-gate.spec.ts
+ * Paired with parent-gate.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareToParents, observeParent, type ParentObservation } from './parent-gate';
+import {
+  applyProofGate,
+  validateProofGate,
+  verifyAgent,
+  DEFAULT_PROOF_GATE,
+  type ProofGateConfig,
+} from './proof-gate';
+import { OBJECTIVE_SAMPLES_KEY } from './evaluators';
+import { createAgent, cloneAgent, type MetaAgent } from '../agents-runtime/agent';
+import type { ObjectiveSpec } from '../laws-physics/objectives';
+
+const objectives: ObjectiveSpec[] = [
+  { name: 'gain', sense: 'max' },
+  { name: 'cost', sense: 'min' },
+];
+
+function agent(id: string, values: number[], samples?: number[][]): MetaAgent {
+  const a = createAgent(id, 'tutor', 1, objectives, 0);
+  a.objectives.values = values;
+  a.perception.state = [{ re: 1, im: 0 }];
+  if (samples) a.metadata = { [OBJECTIVE_SAMPLES_KEY]: samples };
+  return a;
+}
+
+const gate: ProofGateConfig = {
+  ...DEFAULT_PROOF_GATE,
+  laws: [],
+  objectives,
+  maxCost: 100,
+  requireStability: false,
+};
+
+describe('parent gate - comparisons', () => {
+  it('should measure sense-adjusted deltas and regressions', () => {
+    const [comparison] = compareToParents(
+      agent('c', [0.6, 7]),
+      [{ id: 'p', values: [0.5, 5] }],
+      objectives,
+      { maxRegression: { cost: 1 } }
+    );
+
+    expect(comparison.parentId).toBe('p');
+    expect(comparison.improved).toBe(true);
+    expect(comparison.objectives[0]).toMatchObject({ objective: 'gain', improved: true, regressed: false });
+    expect(comparison.objectives[0].delta).toBeCloseTo(0.1);
+    expect(comparison.objectives[1]).toEqual({
+      objective: 'cost',
+      delta: 2,
+      regression: 2,
+      improved: false,
+      regressed: true,
+    });
+  });
+
+  it('should count only significant improvements over repeated evaluations', () => {
+    const noisy = [[0.5, 5], [0.9, 5], [0.6, 5], [0.8, 5]];
+    const steady = [[0.9, 5], [0.91, 5], [0.89, 5], [0.9, 5]];
+    const parent: ParentObservation = {
+      id: 'p',
+      values: [0.6, 5],
+      samples: [[0.6, 5], [0.61, 5], [0.59, 5], [0.6, 5]],
+    };
+    const config = { significance: 0.05 };
+
+    const [lucky] = compareToParents(agent('c1', [0.7, 5], noisy), [parent], objectives, config);
+    const [better] = compareToParents(agent('c2', [0.9, 5], steady), [parent], objectives, config);
+
+    expect(lucky.objectives[0].delta).toBeGreaterThan(0);
+    expect(lucky.improved).toBe(false);
+    expect(better.improved).toBe(true);
+    expect(better.objectives[0].pImprovement).toBeLessThan(0.001);
+  });
+
+  it('should forgive regressions that are not significant but not untestable ones', () => {
+    const parent: ParentObservation = { id: 'p', values: [0.6, 5], samples: [[0.6, 4], [0.6, 6], [0.6, 5]] };
+    const config = { maxRegression: { cost: 0.5 }, significance: 0.05 };
+
+    const samples = [[0.6, 4], [0.6, 8], [0.6, 6]];
+    const [noisy] = compareToParents(agent('c', [0.6, 6], samples), [parent], objectives, config);
+    const [single] = compareToParents(agent('c', [0.6, 6]), [parent], objectives, config);
+
+    expect(noisy.objectives[1].regressed).toBe(false);
+    expect(single.objectives[1].regressed).toBe(true);
+    expect(single.objectives[1].pRegression).toBeUndefined();
+  });
+});
+
+describe('parent gate - proof gate checks', () => {
+  it('should block regressions beyond the allowance and report them', () => {
+    const parent = agent('p', [0.5, 5]);
+    const result = verifyAgent(agent('c', [0.5, 9]), { ...gate, parents: { maxRegression: { cost: 1 } } }, [
+      observeParent(parent),
+    ]);
+
+    expect(result.passed).toBe(false);
+    expect(result.checks.find(c => c.name === 'parent-regression:cost')).toMatchObject({
+      passed: false,
+      value: 4,
+      threshold: 1,
+    });
+    expect(result.parents?.[0].objectives[1].regressed).toBe(true);
+  });
+
+  it('should require improving on every parent', () => {
+    const config = { ...gate, parents: { requireImprovement: true } };
+    const parents = [observeParent(agent('p1', [0.5, 5])), observeParent(agent('p2', [0.7, 5]))];
+    const result = verifyAgent(agent('c', [0.6, 5]), config, parents);
+
+    expect(result.checks.find(c => c.name === 'parent-improvement')).toMatchObject({
+      passed: false,
+      value: 1,
+      message: 'No improvement over p2',
+    });
+  });
+
+  it('should skip agents without parents and gates without a parent config', () => {
+    const child = agent('c', [0.1, 50]);
+
+    expect(verifyAgent(child, { ...gate, parents: { requireImprovement: true } }).parents).toBeUndefined();
+    expect(verifyAgent(child, gate, [observeParent(agent('p', [0.5, 5]))]).checks.map(c => c.name))
+      .toEqual(['cost', 'tool-budget']);
+  });
+
+  it('should find parents through lineage in the population', () => {
+    const parent = agent('p', [0.5, 5]);
+    const child = cloneAgent(parent, 'c');
+    child.objectives.values = [0.4, 5];
+    const stranger = agent('s', [0.1, 5]);
+    const orphan = agent('o', [0.1, 5]);
+    orphan.parents = ['p', 'gone'];
+
+    const { passed, failed, results } = applyProofGate(
+      [parent, child, stranger, orphan],
+      { ...gate, parents: { maxRegression: { gain: 0.05 } } }
+    );
+
+    expect(passed.map(a => a.id)).toEqual(['p', 's']);
+    expect(failed.map(a => a.id)).toEqual(['c', 'o']);
+    expect(results.get('c')?.parents?.map(p => p.parentId)).toEqual(['p']);
+    expect(results.get('s')?.parents).toBeUndefined();
+    expect(results.get('o')?.parents?.map(p => p.parentId)).toEqual(['p']);
+  });
+
+  it('should reject regression caps on unknown objectives before gating', () => {
+    const config = { ...gate, parents: { maxRegression: { gain: 0.1, latency: 5 } } };
+
+    expect(() => validateProofGate(config)).toThrow('Unknown objective in parent gate: latency');
+    expect(() => applyProofGate([agent('p', [0.5, 5])], config)).toThrow('Unknown objective in parent gate: latency');
+    expect(() => validateProofGate({ ...config, enabled: { parents: false } })).not.toThrow();
+  });
+
+  it('should warn about parents that cannot be found instead of skipping the gate', () => {
+    const migrant = agent('m', [0.1, 5]);
+    migrant.parents = ['elsewhere'];
+    const config = { ...gate, parents: { requireImprovement: true } };
+
+    const warned = verifyAgent(migrant, config);
+    expect(warned.passed).toBe(true);
+    expect(warned.reason).toBe('Passed with 1 warning');
+    expect(warned.checks.find(c => c.name === 'parents-missing')).toMatchObject({
+      passed: false,
+      severity: 'warn',
+      message: 'Parents not found, not compared with: elsewhere',
+    });
+    expect(verifyAgent(migrant, { ...config, severity: { parents: 'block' } }).passed).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Parent-Relative Gate
+ *
+ * Law 3 ("no mutation without proof") read against ancestors: a child is
+ * compared with its parents (MetaAgent.parents, see parentIds) on
+ * every objective:
+ * - regression: how much worse than a parent it is, capped per objective by
+ *   maxRegression
+ * - improvement: requireImprovement asks for a better value than each parent
+ *   on at least one objective
+ * - significance: with repeated evaluations (repeatedEvaluator), one-sided
+ *   Welch t-tests decide whether a difference is real. The burden of proof is
+ *   on the child: an improvement counts only when it is significant, and a
+ *   regression beyond the allowance counts unless it is not significant.
+ *   Without 2+ samples on both sides nothing can be tested, so improvements
+ *   do not count and regressions do.
+ * A child is compared with the parents that can be found; parents its lineage
+ * names but that are gone (e.g. a migrant's) get a warning, not a free pass.
+ *
+ * Comparisons are exposed as VerificationResult.parents; parentGateCheck
+ * turns them into proof-gate checks.
+ */
+
+import type { MetaAgent } from '../agents-runtime/agent';
+import type { ObjectiveSpec } from '../laws-physics/objectives';
+import { mean, welchTTest } from '../laws-physics/statistics';
+import { objectiveSamples } from './evaluators';
+import type { CheckResult, ProofCheck } from './proof-gate';
+
+export interface ParentGateConfig {
+  /** Largest allowed regression from any parent, per objective name (in objective units) */
+  maxRegression?: Record<string, number>;
+
+  /** Require improving on every parent in at least one objective (default false) */
+  requireImprovement?: boolean;
+
+  /** Significance level for the Welch t-tests; unset compares means only */
+  significance?: number;
+}
+
+/**
+ * A parent's objective values as the gate saw them.
+ */
+export interface ParentObservation {
+  id: string;
+  values: number[];
+
+  /** Repeated evaluation samples, when there were several */
+  samples?: number[][];
+}
+
+/**
+ * Child against one parent on one objective.
+ */
+export interface ObjectiveComparison {
+  objective: string;
+
+  /** Child mean minus parent mean */
+  delta: number;
+
+  /** How much worse the child is (>= 0, sense-adjusted) */
+  regression: number;
+
+  /** One-sided p-value that the child is better; set when both sides have 2+ samples */
+  pImprovement?: number;
+
+  /** One-sided p-value that the child is worse by more than the allowance; set likewise */
+  pRegression?: number;
+
+  /** Better than the parent (significantly, when a significance level is set) */
+  improved: boolean;
+
+  /** Worse than the parent by more than maxRegression allows (significantly, when testable and a level is set) */
+  regressed: boolean;
+}
+
+/**
+ * Child against one parent.
+ */
+export interface ParentComparison {
+  parentId: string;
+  objectives: ObjectiveComparison[];
+
+  /** Improved on at least one objective */
+  improved: boolean;
+}
+
+/**
+ * What the gate records about a parent.
+ */
+export function observeParent(parent: MetaAgent): ParentObservation {
+  const samples = objectiveSamples(parent);
+  return {
+    id: parent.id,
+    values: [...parent.objectives.values],
+    ...(samples.length > 1 ? { samples } : {}),
+  };
+}
+
+/**
+ * Compare a child with each of its parents on every objective.
+ */
+export function compareToParents(
+  child: MetaAgent,
+  parents: ParentObservation[],
+  objectives: ObjectiveSpec[],
+  config: ParentGateConfig
+): ParentComparison[] {
+  const childSamples = objectiveSamples(child);
+
+  return parents.map(parent => {
+    const parentSamples = parent.samples ?? [parent.values];
+    const comparisons = objectives.map((spec, i): ObjectiveComparison => {
+      const childValues = childSamples.map(s => s[i]);
+      const parentValues = parentSamples.map(s => s[i]);
+      const delta = mean(childValues) - mean(parentValues);
+      const better = spec.sense === 'max' ? delta > 0 : delta < 0;
+      const regression = Math.max(0, spec.sense === 'max' ? -delta : delta);
+      const allowance = config.maxRegression?.[spec.name];
+
+      const testable = childValues.length >= 2 && parentValues.length >= 2;
+      // Orient both tests so that "a > b" is the claim being tested
+      const sign = spec.sense === 'max' ? 1 : -1;
+      const oriented = (values: number[], shift = 0) => values.map(v => sign * v + shift);
+      const pImprovement = testable
+        ? welchTTest(oriented(childValues), oriented(parentValues)).pValue
+        : undefined;
+      const pRegression = testable
+        ? welchTTest(oriented(parentValues, -(allowance ?? 0)), oriented(childValues)).pValue
+        : undefined;
+
+      const significance = config.significance;
+      const improved = better && (significance === undefined || (pImprovement ?? 1) < significance);
+      const regressed = allowance !== undefined && regression > allowance &&
+        (significance === undefined || pRegression === undefined || pRegression < significance);
+
+      return {
+        objective: spec.name,
+        delta,
+        regression,
+        ...(testable ? { pImprovement, pRegression } : {}),
+        improved,
+        regressed,
+      };
+    });
+
+    return { parentId: parent.id, objectives: comparisons, improved: comparisons.some(c => c.improved) };
+  });
+}
+
+/**
+ * Proof-gate check over the parent comparisons; skipped without a parent gate
+ * config or for agents without parents. Reports a passing 'parents' record of
+ * the parents compared against (so certificates can replay the check), a
+ * 'parents-missing' warning for parents not found (blocking if the check's
+ * severity is configured), one 'parent-regression:<objective>' result per
+ * capped objective, and 'parent-improvement' when improvement is required.
+ * maxRegression must name objectives of the gate's set.
+ */
+export const parentGateCheck: ProofCheck = {
+  name: 'parents',
+  severity: 'block',
+  validate: (config, registry) => {
+    const unknown = Object.keys(config.parents?.maxRegression ?? {}).find(objective => !registry.has(objective));
+    if (unknown !== undefined) throw new Error(`Unknown objective in parent gate: ${unknown}`);
+  },
+  run: (_agent, { config, parents, missingParents, parentComparisons }) => {
+    const gate = config.parents;
+    if (!gate || (parents.length === 0 && missingParents.length === 0)) return [];
+
+    const results: CheckResult[] = parents.length === 0 ? [] : [{
+      name: 'parents',
+      passed: true,
+      value: parents.length,
+      message: `Compared with ${parents.map(p => p.id).join(', ')}`,
+      parents,
+    }];
+    if (missingParents.length > 0) {
+      results.push({
+        name: 'parents-missing',
+        passed: false,
+        value: missingParents.length,
+        threshold: 0,
+        message: `Parents not found, not compared with: ${missingParents.join(', ')}`,
+        severity: 'warn',
+      });
+    }
+    if (parents.length === 0) return results;
+
+    for (const [objective, allowance] of Object.entries(gate.maxRegression ?? {})) {
+      const relevant = parentComparisons.flatMap(p => p.objectives.filter(c => c.objective === objective));
+      if (relevant.length === 0) {
+        throw new Error(`Unknown objective in parent gate: ${objective}`);
+      }
+      const worst = Math.max(...relevant.map(c => c.regression));
+      const regressed = relevant.some(c => c.regressed);
+      results.push({
+        name: `parent-regression:${objective}`,
+        passed: !regressed,
+        value: worst,
+        threshold: allowance,
+        message: regressed
+          ? `${objective} regressed by ${worst} from a parent (allowed ${allowance})`
+          : `${objective} within ${allowance} of every parent`,
+      });
+    }
+
+    if (gate.requireImprovement) {
+      const stale = parentComparisons.filter(p => !p.improved).map(p => p.parentId);
+      results.push({
+        name: 'parent-improvement',
+        passed: stale.length === 0,
+        value: stale.length,
+        threshold: 0,
+        message: stale.length === 0
+          ? 'Improves on every parent in at least one objective'
+          : `No ${gate.significance === undefined ? '' : 'significant '}improvement over ${stale.join(', ')}`,
+      });
+    }
+
+    return results;
+  },
+};
@@ -9,10 +9,19 @@ import {
   applyProofGate,
   generateProofCertificate,
   isProofValid,
+  constraintViolation,
+  validateProofGate,
   DEFAULT_PROOF_GATE,
+  DEFAULT_PROOF_CHECKS,
+  planToolsCheck,
+  toolPreconditionsCheck,
+  type ProofCheck,
+  type ProofCheckContext,
   type ProofGateConfig,
 } from './proof-gate';
 import { createAgent } from '../agents-runtime/agent';
+import { allOf, rangeLaw } from '../laws-physics/laws';
+import { DEFAULT_OBJECTIVES, createObjectiveRegistry, objectiveLaw } from '../laws-physics/objectives';
 
 describe('proof-gate - verification', () => {
   it('should pass agent with good objectives', () => {
@@ -85,6 +94,61 @@ describe('proof-gate - verification', () => {
     }
   });
 
+  it('should look up gated objectives by name in custom objective sets', () => {
+    const agent = createAgent('a1', 'tutor', 8, [
+      { name: 'cost', sense: 'min' },
+      { name: 'gain', sense: 'max' },
+    ]);
+    agent.objectives.values = [20.0, 0.5]; // cost first: over budget
+    
+    const result = verifyAgent(agent, {
+      ...DEFAULT_PROOF_GATE,
+      requireStability: false,
+      objectives: [
+        { name: 'cost', sense: 'min' },
+        { name: 'gain', sense: 'max' },
+      ],
+      laws: [],
+    });
+    
+    expect(result.passed).toBe(false);
+    expect(result.checks.find(c => c.name === 'cost')?.value).toBe(20.0);
+    // no privacy objective in this set, so no privacy check
+    expect(result.checks.some(c => c.name === 'privacy-loss')).toBe(false);
+  });
+
+  it('should reject configured privacy and cost objectives missing from the set', () => {
+    const objectives = [{ name: 'gain', sense: 'max' as const }, { name: 'spend', sense: 'min' as const }];
+    const config = { ...DEFAULT_PROOF_GATE, laws: [], objectives };
+
+    expect(() => validateProofGate({ ...config, costObjective: 'spnd' })).toThrow('Unknown cost objective: spnd');
+    expect(() => applyProofGate([], { ...config, privacyObjective: 'privacy' })).toThrow('Unknown privacy objective');
+    expect(() => validateProofGate({ ...config, costObjective: 'spend' })).not.toThrow();
+    expect(() => validateProofGate({ ...config, costObjective: 'spnd', enabled: { cost: false } })).not.toThrow();
+  });
+
+  it('should explain which sub-law of a compound law failed', () => {
+    const agent = createAgent('a1', 'tutor');
+    agent.objectives.values = [0.5, 2000, 0.8, 0.9, 0.5, 5.0];
+    
+    const result = verifyAgent(agent, {
+      ...DEFAULT_PROOF_GATE,
+      requireStability: false,
+      laws: [
+        allOf('service-level', [
+          objectiveLaw('min-gain', 'gain', 'max', 0.1),
+          rangeLaw('latency-window', agent => agent.perception.state.length * 100, 0, 1000),
+          objectiveLaw('max-latency', 'latency', 'min', 1000),
+        ]),
+      ],
+    });
+    
+    const check = result.checks.find(c => c.name === 'service-level');
+    expect(check?.passed).toBe(false);
+    expect(check?.message).toContain('max-latency failed: 2000 vs threshold 1000');
+    expect(check?.message).not.toContain('min-gain');
+  });
+
   it('should use custom config', () => {
     const agent = createAgent('a1', 'tutor');
     agent.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 5.0];
@@ -99,6 +163,166 @@ describe('proof-gate - verification', () => {
   });
 });
 
+describe('proof-gate - constraint violation', () => {
+  it('should be zero for passing agents', () => {
+    const agent = createAgent('a1', 'tutor');
+    agent.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 5.0];
+    agent.perception.state = [{ re: 1, im: 0 }];
+    
+    expect(constraintViolation(verifyAgent(agent))).toBe(0);
+  });
+
+  it('should grow with the distance past each threshold', () => {
+    const near = createAgent('near', 'tutor');
+    near.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 11.0]; // cost 10% over
+    const far = createAgent('far', 'tutor');
+    far.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 30.0]; // cost 200% over
+    
+    const config = { ...DEFAULT_PROOF_GATE, requireStability: false };
+    const nearViolation = constraintViolation(verifyAgent(near, config));
+    const farViolation = constraintViolation(verifyAgent(far, config));
+    
+    expect(nearViolation).toBeCloseTo(0.1);
+    expect(farViolation).toBeGreaterThan(nearViolation);
+  });
+
+  it('should count failed checks without thresholds as 1', () => {
+    expect(constraintViolation({
+      passed: false,
+      timestamp: 0,
+      checks: [{ name: 'stability', passed: false, value: 0.3 }],
+    })).toBe(1);
+  });
+
+  it('should ignore failed checks that do not block', () => {
+    expect(constraintViolation({
+      passed: true,
+      timestamp: 0,
+      checks: [{ name: 'tool-preconditions', passed: false, value: 2, threshold: 0, severity: 'warn' }],
+    })).toBe(0);
+  });
+});
+
+describe('proof-gate - check pipeline', () => {
+  function goodAgent() {
+    const agent = createAgent('a1', 'tutor');
+    agent.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 5.0];
+    agent.perception.state = [{ re: 1, im: 0 }];
+    return agent;
+  }
+
+  const noSearch: ProofCheck = {
+    name: 'no-search',
+    severity: 'block',
+    run: agent => ({ name: 'no-search', passed: !agent.coordination.tools.some(t => t.name === 'search') }),
+  };
+
+  it('should run the default checks in order with their severity', () => {
+    const result = verifyAgent(goodAgent());
+
+    expect(result.checks.map(c => c.name))
+      .toEqual(['min-gain', 'max-latency', 'privacy-loss', 'cost', 'stability', 'tool-budget']);
+    expect(result.checks.every(c => c.severity === 'block')).toBe(true);
+  });
+
+  it('should run custom checks after the defaults', () => {
+    const agent = goodAgent();
+    agent.coordination.tools = [{ name: 'search', cost: 1 }];
+    const result = verifyAgent(agent, { ...DEFAULT_PROOF_GATE, checks: [...DEFAULT_PROOF_CHECKS, noSearch] });
+
+    expect(result.passed).toBe(false);
+    expect(result.checks.at(-1)).toEqual({ name: 'no-search', passed: false, severity: 'block' });
+  });
+
+  it('should record failed warn and info checks without failing the agent', () => {
+    const agent = goodAgent();
+    agent.coordination.tools = [{ name: 'search', cost: 1 }];
+    const result = verifyAgent(agent, {
+      ...DEFAULT_PROOF_GATE,
+      checks: [...DEFAULT_PROOF_CHECKS, toolPreconditionsCheck, noSearch],
+      severity: { 'no-search': 'info' },
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.reason).toBe('Passed with 1 warning');
+    expect(result.checks.slice(-2).map(c => [c.name, c.passed, c.severity])).toEqual([
+      ['tool-preconditions', false, 'warn'],
+      ['no-search', false, 'info'],
+    ]);
+  });
+
+  it('should skip disabled checks', () => {
+    const agent = goodAgent();
+    agent.coordination.tools = [{ name: 'search', cost: 100 }];
+    const result = verifyAgent(agent, { ...DEFAULT_PROOF_GATE, enabled: { 'tool-budget': false, laws: false } });
+
+    expect(result.passed).toBe(true);
+    expect(result.checks.map(c => c.name)).toEqual(['privacy-loss', 'cost', 'stability']);
+  });
+
+  it('should derive stability probes from the agent, not the configured random source', () => {
+    const agent = goodAgent();
+    const probes = (random: () => number) =>
+      verifyAgent(agent, { ...DEFAULT_PROOF_GATE, random }).checks.find(c => c.name === 'stability')?.probes;
+
+    const before = probes(() => 0.5);
+    expect(before).toEqual(probes(Math.random));
+    expect(before).toHaveLength(20);
+    agent.perception.state = [{ re: 0.5, im: 0.5 }];
+    expect(probes(() => 0.5)).not.toEqual(before);
+  });
+
+  it('should stop at the first blocking failure when short-circuiting', () => {
+    const agent = goodAgent();
+    agent.objectives.values[5] = 50; // cost over budget
+    const result = verifyAgent(agent, { ...DEFAULT_PROOF_GATE, shortCircuit: true });
+
+    expect(result.passed).toBe(false);
+    expect(result.checks.map(c => c.name)).toEqual(['min-gain', 'max-latency', 'privacy-loss', 'cost']);
+  });
+});
+
+describe('proof-gate - domain checks', () => {
+  const context: ProofCheckContext = {
+    config: DEFAULT_PROOF_GATE,
+    registry: createObjectiveRegistry(DEFAULT_OBJECTIVES),
+    random: Math.random,
+    parents: [],
+    missingParents: [],
+    parentComparisons: [],
+  };
+
+  it('should flag tools without preconditions', () => {
+    const agent = createAgent('a1', 'tutor');
+    agent.coordination.tools = [
+      { name: 'search', cost: 1, preconditions: ['online'] },
+      { name: 'calc', cost: 1 },
+    ];
+
+    expect(toolPreconditionsCheck.run(agent, context)).toMatchObject({
+      passed: false,
+      value: 1,
+      message: 'Tools without preconditions: calc',
+    });
+  });
+
+  it('should flag plan steps that use unknown tools', () => {
+    const agent = createAgent('a1', 'tutor');
+    agent.coordination.tools = [{ name: 'search', cost: 1 }];
+    agent.reasoning.knowledge = [{ type: 'plan', goal: 'answer', steps: ['use search', 'calc: 2+2', 'reflect'] }];
+    agent.reasoning.activePlan = { type: 'plan', goal: 'draw', steps: ['Use plotter'] };
+
+    expect(planToolsCheck.run(agent, context)).toMatchObject({
+      passed: false,
+      value: 2,
+      message: 'Plan steps reference unknown tools: calc, plotter',
+    });
+
+    agent.coordination.tools.push({ name: 'calc', cost: 1 }, { name: 'plotter', cost: 1 });
+    expect(planToolsCheck.run(agent, context)).toMatchObject({ passed: true, value: 0 });
+  });
+});
+
 describe('proof-gate - population filtering', () => {
   it('should separate passed and failed agents', () => {
     const goodAgent = createAgent('good', 'tutor');
@@ -243,27 +467,46 @@ describe('proof-gate - validity checking', () => {
 
   it('should reject expired proof', () => {
     const agent = createAgent('a1', 'tutor');
-    agent.proof = {
-      spec: 'test',
-      proof: 'test',
-      verified: true,
-      timestamp: Date.now() - 4000000, // 4000 seconds ago
-    };
+    agent.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 5.0];
+    agent.perception.state = [{ re: 1, im: 0 }];
+    
+    applyProofGate([agent], { ...DEFAULT_PROOF_GATE, clock: () => Date.now() - 4000000 }); // 4000 seconds ago
     
     expect(isProofValid(agent, 3600000)).toBe(false); // 1 hour max age
   });
 
   it('should use custom max age', () => {
+    const agent = createAgent('a1', 'tutor');
+    agent.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 5.0];
+    agent.perception.state = [{ re: 1, im: 0 }];
+    
+    applyProofGate([agent], { ...DEFAULT_PROOF_GATE, clock: () => Date.now() - 500 }); // 500ms ago
+    
+    expect(isProofValid(agent, 1000)).toBe(true); // 1 second max age
+    expect(isProofValid(agent, 100)).toBe(false); // 100ms max age
+  });
+
+  it('should reject a hand-built unsigned proof', () => {
     const agent = createAgent('a1', 'tutor');
     agent.proof = {
       spec: 'test',
       proof: 'test',
       verified: true,
-      timestamp: Date.now() - 500, // 500ms ago
+      timestamp: Date.now(),
     };
     
-    expect(isProofValid(agent, 1000)).toBe(true); // 1 second max age
-    expect(isProofValid(agent, 100)).toBe(false); // 100ms max age
+    expect(isProofValid(agent)).toBe(false);
+  });
+
+  it('should reject a proof once the agent changes', () => {
+    const agent = createAgent('a1', 'tutor');
+    agent.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 5.0];
+    agent.perception.state = [{ re: 1, im: 0 }];
+    
+    applyProofGate([agent]);
+    agent.objectives.values[0] = 0.9;
+    
+    expect(isProofValid(agent)).toBe(false);
   });
 });
 
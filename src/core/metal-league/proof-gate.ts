@@ -5,11 +5,40 @@
  * Every agent mutation must pass verification gates before entering the next generation.
  * 
  * Proof-carrying evolution: agents carry certificates that they satisfy their specs.
+ * 
+ * The gate is an ordered pipeline of check plugins (DEFAULT_PROOF_CHECKS plus
+ * any domain checks), each blocking, warning or informational.
  */
 
-import { MetaAgent } from '../agents-runtime/agent';
+import { AgentKind, MetaAgent, SymbolicItem, parentIds } from '../agents-runtime/agent';
 import { learningEnergy, isStable } from '../laws-physics/hilbert';
-import { ObjectiveSpec, satisfiesLaw, Law } from '../laws-physics/objectives';
+import {
+  ObjectiveSpec,
+  DEFAULT_OBJECTIVES,
+  createObjectiveRegistry,
+  objectiveLaw,
+  Law,
+  ObjectiveRegistry,
+} from '../laws-physics/objectives';
+import { checkLaw } from '../laws-physics/laws';
+import { createRng } from '../laws-physics/random';
+import {
+  ProofSigner,
+  defaultProofSigner,
+  gateConfigVersion,
+  genomeHash,
+  signProof,
+  verifyProofBundle,
+} from './proof-signing';
+import {
+  compareToParents,
+  observeParent,
+  parentGateCheck,
+  type ParentComparison,
+  type ParentGateConfig,
+  type ParentObservation,
+} from './parent-gate';
+import { knowledgeConsistencyCheck } from './symbolic-verification';
 
 /**
  * Verification result.
@@ -19,6 +48,9 @@ export interface VerificationResult {
   reason?: string;
   timestamp: number;
   checks: CheckResult[];
+
+  /** Comparisons with the agent's parents (parent gate configured and parents given) */
+  parents?: ParentComparison[];
 }
 
 /**
@@ -30,6 +62,60 @@ export interface CheckResult {
   value?: number;
   threshold?: number;
   message?: string;
+
+  /** Probe draws of the stability check, derived from the agent so they can be recomputed */
+  probes?: number[];
+
+  /** Severity the result ran with: the configured one, else the result's own, else the check's */
+  severity?: CheckSeverity;
+
+  /** Parents a parent-relative check compared against, so it can be replayed */
+  parents?: ParentObservation[];
+}
+
+/**
+ * What a failed check does: 'block' fails the agent, 'warn' and 'info' are
+ * only recorded (warnings are counted in the verification reason).
+ */
+export type CheckSeverity = 'block' | 'warn' | 'info';
+
+/**
+ * What a check plugin sees besides the agent.
+ */
+export interface ProofCheckContext {
+  config: ProofGateConfig;
+
+  /** Registry of config.objectives */
+  registry: ObjectiveRegistry;
+
+  /** config.random, defaulting to Math.random */
+  random: () => number;
+
+  /** The agent's parents, as given to verifyAgent */
+  parents: ParentObservation[];
+
+  /** Parents named by the agent's lineage but not given (only with a parent gate config) */
+  missingParents: string[];
+
+  /** Comparisons with the parents; empty without a parent gate config */
+  parentComparisons: ParentComparison[];
+}
+
+/**
+ * A check plugin of the proof gate pipeline. `run` returns one result, or
+ * several (the laws check reports each law); an empty array skips the check.
+ */
+export interface ProofCheck {
+  /** Name used by the enabled and severity flags */
+  name: string;
+
+  /** Severity unless overridden in ProofGateConfig.severity or set on a result */
+  severity: CheckSeverity;
+
+  run(agent: MetaAgent, context: ProofCheckContext): CheckResult | CheckResult[];
+
+  /** Throws if the gate config is unusable for this check (see validateProofGate) */
+  validate?(config: ProofGateConfig, registry: ObjectiveRegistry): void;
 }
 
 /**
@@ -37,7 +123,7 @@ export interface CheckResult {
  */
 export interface ProofGateConfig {
   /** Minimum objectives that must be satisfied */
-  laws: Law[];
+  laws: Law<MetaAgent>[];
   
   /** Maximum privacy loss allowed */
   maxPrivacyLoss: number;
@@ -50,25 +136,65 @@ export interface ProofGateConfig {
   
   /** Stability epsilon */
   stabilityEpsilon: number;
+
+  /** Objective set the agent vectors are laid out in (defaults to DEFAULT_OBJECTIVES) */
+  objectives?: ObjectiveSpec[];
+
+  /**
+   * Objective checked against maxPrivacyLoss (defaults to 'privacyLoss'). The
+   * default is skipped if absent from the set; a configured name must exist.
+   */
+  privacyObjective?: string;
+
+  /** Objective checked against maxCost (defaults to 'cost'); skipped or required like privacyObjective */
+  costObjective?: string;
+
+  /** Uniform [0, 1) source for randomized check plugins (defaults to Math.random); not used for stability */
+  random?: () => number;
+
+  /** Clock for verification timestamps (defaults to Date.now) */
+  clock?: () => number;
+
+  /** Signs proof bundles (defaults to the process keypair, see proof-signing.ts) */
+  signer?: ProofSigner;
+
+  /** Check pipeline, run in order (defaults to DEFAULT_PROOF_CHECKS) */
+  checks?: ProofCheck[];
+
+  /** Per-check enable flags by check name; checks are enabled unless set to false */
+  enabled?: Record<string, boolean>;
+
+  /** Per-check severity overrides by check name */
+  severity?: Record<string, CheckSeverity>;
+
+  /** Stop the pipeline at the first blocking failure (default false) */
+  shortCircuit?: boolean;
+
+  /** Compare agents with their parents (see parent-gate.ts) */
+  parents?: ParentGateConfig;
+
+  /**
+   * Require a contradiction-free knowledge base (see symbolic-verification.ts):
+   * of every agent (true), of none (false) or of these kinds (default ['theoremProver'])
+   */
+  requireConsistency?: boolean | AgentKind[];
 }
 
+/**
+ * The data part of a gate config, with laws and checks reduced to what identifies them.
+ */
+export type ProofGateSettings = Omit<ProofGateConfig, 'laws' | 'random' | 'clock' | 'signer' | 'checks'> & {
+  laws: Pick<Law<MetaAgent>, 'name' | 'sense' | 'threshold'>[];
+  checks?: Pick<ProofCheck, 'name' | 'severity'>[];
+};
+
 /**
  * Default proof gate configuration.
  */
 export const DEFAULT_PROOF_GATE: ProofGateConfig = {
   laws: [
-    {
-      name: 'min-gain',
-      evaluate: (agent: MetaAgent) => agent.objectives.values[0],
-      sense: 'max',
-      threshold: 0.1,
-    },
-    {
-      name: 'max-latency',
-      evaluate: (agent: MetaAgent) => agent.objectives.values[1],
-      sense: 'min',
-      threshold: 1000,
-    },
+    objectiveLaw('min-gain', 'gain', 'max', 0.1),
+    objectiveLaw('max-latency', 'latency', 'min', 1000),
   ],
   maxPrivacyLoss: 1.0,
   maxCost: 10.0,
@@ -77,136 +203,328 @@ export const DEFAULT_PROOF_GATE: ProofGateConfig = {
 };
 
 /**
- * Verify an agent against proof gate requirements.
+ * Run a law against the agent and report it as a check.
  */
-export function verifyAgent(
-  agent: MetaAgent,
-  config: ProofGateConfig = DEFAULT_PROOF_GATE
-): VerificationResult {
-  const checks: CheckResult[] = [];
-  let passed = true;
+function lawCheck(law: Law<MetaAgent>, agent: MetaAgent, registry: ObjectiveRegistry): CheckResult {
+  const outcome = checkLaw(law, agent, registry);
+  return {
+    name: outcome.name,
+    passed: outcome.passed,
+    value: outcome.value,
+    threshold: outcome.threshold,
+    message: outcome.message,
+  };
+}
 
-  // Check 1: Laws (invariants)
-  for (const law of config.laws) {
-    const value = law.evaluate(agent);
-    const lawPassed = satisfiesLaw(law, value);
-    
-    checks.push({
-      name: law.name,
-      passed: lawPassed,
-      value,
-      threshold: law.threshold,
-      message: lawPassed
-        ? `${law.name} satisfied`
-        : `${law.name} failed: ${value} vs threshold ${law.threshold}`,
-    });
-    
-    if (!lawPassed) passed = false;
-  }
+/**
+ * Check 1: Laws (invariants), one result per law.
+ */
+export const lawsCheck: ProofCheck = {
+  name: 'laws',
+  severity: 'block',
+  run: (agent, { config, registry }) => config.laws.map(law => lawCheck(law, agent, registry)),
+};
 
-  // Check 2: Privacy loss
-  const privacyLossIdx = 4; // position in objective vector
-  const privacyLoss = agent.objectives.values[privacyLossIdx];
-  const privacyPassed = privacyLoss <= config.maxPrivacyLoss;
-  
-  checks.push({
-    name: 'privacy-loss',
-    passed: privacyPassed,
-    value: privacyLoss,
-    threshold: config.maxPrivacyLoss,
-    message: privacyPassed
-      ? 'Privacy budget satisfied'
-      : `Privacy loss ${privacyLoss} exceeds limit ${config.maxPrivacyLoss}`,
-  });
-  
-  if (!privacyPassed) passed = false;
+/**
+ * Check 2: Privacy loss; skipped if the objective set has no default privacy objective.
+ */
+export const privacyLossCheck: ProofCheck = {
+  name: 'privacy-loss',
+  severity: 'block',
+  validate: (config, registry) => {
+    if (config.privacyObjective !== undefined && !registry.has(config.privacyObjective)) {
+      throw new Error(`Unknown privacy objective: ${config.privacyObjective}`);
+    }
+  },
+  run: (agent, { config, registry }) => {
+    const privacyObjective = config.privacyObjective ?? 'privacyLoss';
+    if (config.privacyObjective === undefined && !registry.has(privacyObjective)) return [];
+    const privacyLoss = registry.get(agent.objectives, privacyObjective);
+    const privacyPassed = privacyLoss <= config.maxPrivacyLoss;
+    
+    return {
+      name: 'privacy-loss',
+      passed: privacyPassed,
+      value: privacyLoss,
+      threshold: config.maxPrivacyLoss,
+      message: privacyPassed
+        ? 'Privacy budget satisfied'
+        : `Privacy loss ${privacyLoss} exceeds limit ${config.maxPrivacyLoss}`,
+    };
+  },
+};
 
-  // Check 3: Cost
-  const costIdx = 5; // position in objective vector
-  const cost = agent.objectives.values[costIdx];
-  const costPassed = cost <= config.maxCost;
-  
-  checks.push({
-    name: 'cost',
-    passed: costPassed,
-    value: cost,
-    threshold: config.maxCost,
-    message: costPassed
-      ? 'Cost budget satisfied'
-      : `Cost ${cost} exceeds limit ${config.maxCost}`,
-  });
-  
-  if (!costPassed) passed = false;
+/**
+ * Check 3: Cost; skipped if the objective set has no default cost objective.
+ */
+export const costCheck: ProofCheck = {
+  name: 'cost',
+  severity: 'block',
+  validate: (config, registry) => {
+    if (config.costObjective !== undefined && !registry.has(config.costObjective)) {
+      throw new Error(`Unknown cost objective: ${config.costObjective}`);
+    }
+  },
+  run: (agent, { config, registry }) => {
+    const costObjective = config.costObjective ?? 'cost';
+    if (config.costObjective === undefined && !registry.has(costObjective)) return [];
+    const cost = registry.get(agent.objectives, costObjective);
+    const costPassed = cost <= config.maxCost;
+    
+    return {
+      name: 'cost',
+      passed: costPassed,
+      value: cost,
+      threshold: config.maxCost,
+      message: costPassed
+        ? 'Cost budget satisfied'
+        : `Cost ${cost} exceeds limit ${config.maxCost}`,
+    };
+  },
+};
 
-  // Check 4: Stability (if required)
-  if (config.requireStability) {
-    const stable = isStable(agent.perception.state, config.stabilityEpsilon);
+/**
+ * Check 4: Stability (if required). The probes come from an RNG seeded with
+ * the agent's genome hash, so a checker recomputes them rather than trusting
+ * recorded ones; they are still recorded for audit.
+ */
+export const stabilityCheck: ProofCheck = {
+  name: 'stability',
+  severity: 'block',
+  run: (agent, { config }) => {
+    if (!config.requireStability) return [];
+    const random = createRng(parseInt(genomeHash(agent).slice(0, 8), 16)).next;
+    const probes: number[] = [];
+    const stable = isStable(agent.perception.state, config.stabilityEpsilon, () => {
+      const draw = random();
+      probes.push(draw);
+      return draw;
+    });
     const energy = learningEnergy(agent.perception.state);
     
-    checks.push({
+    return {
       name: 'stability',
       passed: stable,
       value: energy,
       message: stable
         ? `Learning state is stable (energy=${energy.toFixed(4)})`
         : `Learning state is unstable (energy=${energy.toFixed(4)})`,
-    });
+      probes,
+    };
+  },
+};
+
+/**
+ * Check 5: Tool cost budget; tools can't exceed 50% of total cost.
+ */
+export const toolBudgetCheck: ProofCheck = {
+  name: 'tool-budget',
+  severity: 'block',
+  run: (agent, { config }) => {
+    const toolCost = agent.coordination.tools.reduce((sum, t) => sum + t.cost, 0);
+    const toolBudgetPassed = toolCost <= config.maxCost * 0.5;
     
-    if (!stable) passed = false;
+    return {
+      name: 'tool-budget',
+      passed: toolBudgetPassed,
+      value: toolCost,
+      threshold: config.maxCost * 0.5,
+      message: toolBudgetPassed
+        ? 'Tool budget satisfied'
+        : `Tool cost ${toolCost} exceeds budget ${config.maxCost * 0.5}`,
+    };
+  },
+};
+
+/**
+ * Domain check: every tool declares its preconditions.
+ */
+export const toolPreconditionsCheck: ProofCheck = {
+  name: 'tool-preconditions',
+  severity: 'warn',
+  run: agent => {
+    const missing = agent.coordination.tools.filter(t => !t.preconditions?.length).map(t => t.name);
+    return {
+      name: 'tool-preconditions',
+      passed: missing.length === 0,
+      value: missing.length,
+      threshold: 0,
+      message: missing.length === 0
+        ? 'Every tool declares preconditions'
+        : `Tools without preconditions: ${missing.join(', ')}`,
+    };
+  },
+};
+
+/**
+ * Domain check: plan steps of the form "use <tool>" (or "<tool>: ...") name
+ * tools the agent has. Steps that name no tool are not checked.
+ */
+export const planToolsCheck: ProofCheck = {
+  name: 'plan-tools',
+  severity: 'warn',
+  run: agent => {
+    const tools = new Set(agent.coordination.tools.map(t => t.name));
+    const plans = [...agent.reasoning.knowledge, agent.reasoning.activePlan]
+      .filter((item): item is Extract<SymbolicItem, { type: 'plan' }> => item?.type === 'plan');
+    const unknown = plans
+      .flatMap(plan => plan.steps)
+      .map(step => /^use\s+(\S+)|^([\w-]+):/i.exec(step.trim()))
+      .map(match => match?.[1] ?? match?.[2])
+      .filter((tool): tool is string => tool !== undefined && !tools.has(tool));
+    return {
+      name: 'plan-tools',
+      passed: unknown.length === 0,
+      value: unknown.length,
+      threshold: 0,
+      message: unknown.length === 0
+        ? 'Plan steps reference known tools'
+        : `Plan steps reference unknown tools: ${[...new Set(unknown)].join(', ')}`,
+    };
+  },
+};
+
+/**
+ * The gate's default pipeline, in order. Add domain checks with
+ * `checks: [...DEFAULT_PROOF_CHECKS, toolPreconditionsCheck]`.
+ */
+export const DEFAULT_PROOF_CHECKS: ProofCheck[] = [
+  lawsCheck,
+  privacyLossCheck,
+  costCheck,
+  stabilityCheck,
+  toolBudgetCheck,
+  knowledgeConsistencyCheck,
+  parentGateCheck,
+];
+
+/**
+ * Validate a gate config against its objective set before any agent is gated:
+ * every enabled check with a `validate` hook gets to reject it, so a misnamed
+ * objective fails fast instead of silently disabling a check.
+ */
+export function validateProofGate(config: ProofGateConfig): void {
+  const registry = createObjectiveRegistry(config.objectives ?? DEFAULT_OBJECTIVES);
+  for (const check of config.checks ?? DEFAULT_PROOF_CHECKS) {
+    if (config.enabled?.[check.name] !== false) check.validate?.(config, registry);
   }
+}
 
-  // Check 5: Tool cost budget
-  const toolCost = agent.coordination.tools.reduce((sum, t) => sum + t.cost, 0);
-  const toolBudgetPassed = toolCost <= config.maxCost * 0.5; // tools can't exceed 50% of total cost
-  
-  checks.push({
-    name: 'tool-budget',
-    passed: toolBudgetPassed,
-    value: toolCost,
-    threshold: config.maxCost * 0.5,
-    message: toolBudgetPassed
-      ? 'Tool budget satisfied'
-      : `Tool cost ${toolCost} exceeds budget ${config.maxCost * 0.5}`,
-  });
-  
-  if (!toolBudgetPassed) passed = false;
+/**
+ * True for a failed check that fails the gate. Results without a severity
+ * (proofs from before severities existed) block.
+ */
+export function isBlockingFailure(check: CheckResult): boolean {
+  return !check.passed && (check.severity ?? 'block') === 'block';
+}
+
+/**
+ * Verify an agent against proof gate requirements: run the enabled checks of
+ * the pipeline in order. Only failed 'block' checks fail the agent; with
+ * shortCircuit the pipeline stops at the first one. `parents` are what the
+ * parent gate compares against.
+ */
+export function verifyAgent(
+  agent: MetaAgent,
+  config: ProofGateConfig = DEFAULT_PROOF_GATE,
+  parents: ParentObservation[] = []
+): VerificationResult {
+  const checks: CheckResult[] = [];
+  const objectives = config.objectives ?? DEFAULT_OBJECTIVES;
+  const parentComparisons = config.parents && parents.length > 0
+    ? compareToParents(agent, parents, objectives, config.parents)
+    : [];
+  const missingParents = config.parents
+    ? parentIds(agent).filter(id => !parents.some(parent => parent.id === id))
+    : [];
+  const context: ProofCheckContext = {
+    config,
+    registry: createObjectiveRegistry(objectives),
+    random: config.random ?? Math.random,
+    parents,
+    missingParents,
+    parentComparisons,
+  };
+
+  for (const check of config.checks ?? DEFAULT_PROOF_CHECKS) {
+    if (config.enabled?.[check.name] === false) continue;
+    const severity = config.severity?.[check.name];
+    const results = [check.run(agent, context)].flat()
+      .map(result => ({ ...result, severity: severity ?? result.severity ?? check.severity }));
+    checks.push(...results);
+    if (config.shortCircuit && results.some(isBlockingFailure)) break;
+  }
+
+  const passed = !checks.some(isBlockingFailure);
+  const warnings = checks.filter(c => !c.passed && c.severity === 'warn').length;
 
   return {
     passed,
-    reason: passed ? 'All checks passed' : 'Some checks failed',
-    timestamp: Date.now(),
+    ...(config.parents && parents.length > 0 ? { parents: parentComparisons } : {}),
+    reason: !passed
+      ? 'Some checks failed'
+      : warnings > 0 ? `Passed with ${warnings} warning${warnings === 1 ? '' : 's'}` : 'All checks passed',
+    timestamp: (config.clock ?? Date.now)(),
     checks,
   };
 }
 
+/**
+ * Aggregate constraint violation of a verification result.
+ * Each failed check contributes its relative distance past the threshold
+ * (|value - threshold| / max(|threshold|, 1)); failed checks without a
+ * numeric threshold contribute 1. Passing results have violation 0.
+ */
+export function constraintViolation(result: VerificationResult): number {
+  return result.checks.reduce((total, check) => {
+    if (!isBlockingFailure(check)) return total;
+    if (check.value === undefined || check.threshold === undefined || !isFinite(check.value)) {
+      return total + 1;
+    }
+    return total + Math.abs(check.value - check.threshold) / Math.max(Math.abs(check.threshold), 1);
+  }, 0);
+}
+
 /**
  * Apply proof gate to a population.
- * Returns only agents that pass verification.
+ * Returns only agents that pass verification. Parents for the parent gate are
+ * looked up by id in `pool` (the population itself by default); agents
+ * are compared with the parents found there and warned about the others.
  */
 export function applyProofGate(
   population: MetaAgent[],
-  config: ProofGateConfig = DEFAULT_PROOF_GATE
+  config: ProofGateConfig = DEFAULT_PROOF_GATE,
+  pool: MetaAgent[] = population
 ): {
   passed: MetaAgent[];
   failed: MetaAgent[];
   results: Map<string, VerificationResult>;
 } {
+  validateProofGate(config);
   const passed: MetaAgent[] = [];
   const failed: MetaAgent[] = [];
   const results = new Map<string, VerificationResult>();
+  const gateVersion = gateConfigVersion(config);
+  const signer = config.signer ?? defaultProofSigner();
+  const byId = new Map(pool.map(agent => [agent.id, agent]));
 
   for (const agent of population) {
-    const result = verifyAgent(agent, config);
+    const parents = (config.parents ? parentIds(agent).map(id => byId.get(id)) : [])
+      .filter((parent): parent is MetaAgent => parent !== undefined && parent !== agent)
+      .map(observeParent);
+    const result = verifyAgent(agent, config, parents);
     results.set(agent.id, result);
     
     if (result.passed) {
-      // Attach proof bundle to agent
-      agent.proof = {
-        spec: `Verified against ${config.laws.length} laws + privacy/cost/stability`,
-        proof: JSON.stringify(result.checks),
-        verified: true,
-        timestamp: result.timestamp,
-      };
+      // Attach signed proof bundle to agent
+      agent.proof = signProof(
+        agent,
+        `Verified against ${config.laws.length} laws + privacy/cost/stability`,
+        result.checks,
+        gateVersion,
+        result.timestamp,
+        signer
+      );
       passed.push(agent);
     } else {
       failed.push(agent);
@@ -218,6 +536,7 @@ export function applyProofGate(
 
 /**
  * Generate a proof certificate string for an agent.
+ * For a machine-readable, re-verifiable certificate see certificate.ts.
  */
 export function generateProofCertificate(agent: MetaAgent): string {
   if (!agent.proof) {
@@ -231,6 +550,9 @@ export function generateProofCertificate(agent: MetaAgent): string {
     `Generation: ${agent.generation}`,
     `Timestamp: ${new Date(agent.proof.timestamp).toISOString()}`,
     `Verified: ${agent.proof.verified}`,
+    `Gate: ${agent.proof.gateVersion ?? 'unversioned'}`,
+    `Hash: ${agent.proof.hash ?? 'none'}`,
+    `Signature: ${agent.proof.signature ?? 'unsigned'}`,
     '',
     'Spec:',
     agent.proof.spec,
@@ -247,11 +569,13 @@ export function generateProofCertificate(agent: MetaAgent): string {
 }
 
 /**
- * Check if an agent's proof is still valid (not expired).
+ * Check if an agent's proof is still valid: signed by a trusted key (by
+ * default the default signer's), matching the agent as it is now (see
+ * verifyProofBundle), and not expired.
  */
-export function isProofValid(agent: MetaAgent, maxAgeMs = 3600000): boolean {
+export function isProofValid(agent: MetaAgent, maxAgeMs = 3600000, trustedKeys?: string[]): boolean {
   if (!agent.proof) return false;
-  if (!agent.proof.verified) return false;
+  if (!verifyProofBundle(agent, { trustedKeys }).valid) return false;
   
   const age = Date.now() - agent.proof.timestamp;
   return age <= maxAgeMs;
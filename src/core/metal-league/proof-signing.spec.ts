@@ -0,0 +1,123 @@
+/**
+ * SPEC TEST: proof-signing.spec.ts
+ * Paired with proof-signing.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createProofSigner,
+  gateConfigVersion,
+  loadProofSigner,
+  signProof,
+  verifyProofBundle,
+} from './proof-signing';
+import { applyProofGate, DEFAULT_PROOF_GATE, type ProofGateConfig } from './proof-gate';
+import { createAgent, type MetaAgent } from '../agents-runtime/agent';
+
+function certified(config: Partial<ProofGateConfig> = {}): MetaAgent {
+  const agent = createAgent('a1', 'tutor');
+  agent.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 5.0];
+  agent.perception.state = [{ re: 1, im: 0 }];
+  applyProofGate([agent], { ...DEFAULT_PROOF_GATE, clock: () => 1000, ...config });
+  return agent;
+}
+
+describe('proof signing - certification', () => {
+  it('should sign bundles with the gate version', () => {
+    const signer = createProofSigner();
+    const agent = certified({ signer });
+
+    expect(agent.proof?.publicKey).toBe(signer.publicKey);
+    expect(agent.proof?.gateVersion).toBe(gateConfigVersion(DEFAULT_PROOF_GATE));
+    expect(agent.proof?.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyProofBundle(agent, { trustedKeys: [signer.publicKey] })).toEqual({ valid: true });
+  });
+
+  it('should version gate configs by their settings', () => {
+    const version = gateConfigVersion(DEFAULT_PROOF_GATE);
+    const clocked: ProofGateConfig = { ...DEFAULT_PROOF_GATE, clock: () => 0 };
+
+    expect(version).toMatch(/^v1-[0-9a-f]{12}$/);
+    expect(gateConfigVersion(clocked)).toBe(version);
+    expect(gateConfigVersion({ ...DEFAULT_PROOF_GATE, maxCost: 20 })).not.toBe(version);
+  });
+
+  it('should ignore bookkeeping but not the genome', () => {
+    const agent = certified();
+    agent.lineage.push('archived');
+    agent.metadata = { note: 'x' };
+    expect(verifyProofBundle(agent).valid).toBe(true);
+
+    agent.reasoning.knowledge.push({ type: 'fact', content: 'injected' });
+    expect(verifyProofBundle(agent)).toEqual({ valid: false, reason: 'Agent or checks changed since certification' });
+  });
+});
+
+describe('proof signing - tampering', () => {
+  it('should detect edited checks', () => {
+    const agent = certified();
+    agent.proof!.proof = agent.proof!.proof.replace('"passed":true', '"passed":false');
+
+    expect(verifyProofBundle(agent).reason).toBe('Agent or checks changed since certification');
+  });
+
+  it('should detect a re-hashed bundle without the key', () => {
+    const agent = certified();
+    const forged = certified({ signer: createProofSigner() });
+    agent.proof!.signature = forged.proof!.signature;
+
+    expect(verifyProofBundle(agent).reason).toBe('Signature does not match');
+  });
+
+  it('should reject forged and unsigned bundles', () => {
+    const agent = certified();
+    agent.proof!.verified = false;
+    expect(verifyProofBundle(agent).valid).toBe(false);
+
+    agent.proof = { spec: 'test', proof: '[]', verified: true, timestamp: 0 };
+    expect(verifyProofBundle(agent).reason).toBe('Proof bundle is not signed');
+  });
+
+  it('should reject a changed agent re-signed with another key', () => {
+    const agent = certified();
+    const { spec, proof, gateVersion, timestamp } = agent.proof!;
+    agent.perception.state = [{ re: 0, im: 1 }];
+    agent.proof = signProof(agent, spec, JSON.parse(proof), gateVersion!, timestamp, createProofSigner());
+
+    expect(verifyProofBundle(agent).reason).toBe('Proof was signed by an untrusted key');
+  });
+
+  it('should only accept trusted keys', () => {
+    const trusted = createProofSigner();
+    const agent = certified({ signer: createProofSigner() });
+
+    expect(verifyProofBundle(agent).reason).toBe('Proof was signed by an untrusted key');
+    expect(verifyProofBundle(agent, { trustedKeys: [trusted.publicKey] }).reason)
+      .toBe('Proof was signed by an untrusted key');
+    expect(verifyProofBundle(certified({ signer: trusted }), { trustedKeys: [trusted.publicKey] }).valid)
+      .toBe(true);
+  });
+});
+
+describe('proof signing - keys', () => {
+  it('should persist a generated key and reload it', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'proof-key-'));
+    try {
+      const path = join(dir, 'keys', 'proof.pem');
+      const first = await loadProofSigner(path);
+      const second = await loadProofSigner(path);
+
+      expect(second.publicKey).toBe(first.publicKey);
+      expect((await stat(path)).mode & 0o777).toBe(0o600);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should refuse non-Ed25519 keys', () => {
+    expect(() => createProofSigner('not a key')).toThrow();
+  });
+});
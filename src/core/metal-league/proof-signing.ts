@@ -0,0 +1,227 @@
+/**
+ * Proof Signing
+ *
+ * Turns proof bundles into tamper-evident certificates. A bundle carries a
+ * SHA-256 content hash over the agent's genome, the gate's checks, the gate
+ * config version and the certification time, plus an Ed25519 signature of
+ * that hash. Changing the agent (or the bundle) after certification breaks
+ * the hash. Anyone can re-sign a changed agent with a key of their own, so
+ * a bundle only verifies under a trusted key (by default the process signer's);
+ * forging a bundle under a trusted key needs its private key.
+ *
+ * Keys come from Node crypto: a process-local keypair by default, or one
+ * persisted on disk with loadProofSigner.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { MetaAgent, ProofBundle } from '../agents-runtime/agent';
+import { canonicalJson } from './evaluators';
+import type { CheckResult, ProofGateSettings } from './proof-gate';
+
+/**
+ * Schema version of proof gate configs; part of every gate config version.
+ */
+export const PROOF_GATE_VERSION = 1;
+
+/**
+ * Signs proof hashes with an Ed25519 private key.
+ */
+export interface ProofSigner {
+  /** Public key (SPKI PEM) embedded in bundles */
+  publicKey: string;
+
+  /** Base64 Ed25519 signature of `data` */
+  sign(data: string): string;
+}
+
+/**
+ * Outcome of verifying a proof bundle.
+ */
+export interface ProofVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+export interface ProofVerificationOptions {
+  /** Public keys (SPKI PEM) accepted as signers; by default only defaultProofSigner's */
+  trustedKeys?: string[];
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Signer for a PKCS#8 PEM Ed25519 private key, or for a fresh keypair.
+ */
+export function createProofSigner(privateKeyPem?: string): ProofSigner {
+  const privateKey = privateKeyPem === undefined
+    ? generateKeyPairSync('ed25519').privateKey
+    : createPrivateKey(privateKeyPem);
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Proof signing key must be Ed25519, got ${privateKey.asymmetricKeyType}`);
+  }
+  const publicKey = createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+
+  return {
+    publicKey,
+    sign: data => sign(null, Buffer.from(data), privateKey).toString('base64'),
+  };
+}
+
+let processSigner: ProofSigner | undefined;
+
+/**
+ * Keypair of this process, created on first use. Its proofs only verify
+ * against its own public key, so persist a key to share proofs across processes.
+ */
+export function defaultProofSigner(): ProofSigner {
+  processSigner ??= createProofSigner();
+  return processSigner;
+}
+
+/**
+ * Signer for the private key stored at `path` (PKCS#8 PEM). A new key is
+ * generated and written (owner-only) if there is none.
+ */
+export async function loadProofSigner(path: string): Promise<ProofSigner> {
+  try {
+    return createProofSigner(await readFile(path, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  const { privateKey } = generateKeyPairSync('ed25519');
+  const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, pem, { mode: 0o600 });
+  return createProofSigner(pem);
+}
+
+/**
+ * Version of a gate config: the schema version and a fingerprint of the
+ * settings (laws by name, sense and threshold; checks by name and severity),
+ * e.g. "v1-3f9a0c2b1d4e".
+ */
+export function gateConfigVersion(config: ProofGateSettings): string {
+  const fingerprint = sha256(canonicalJson({
+    laws: config.laws.map(({ name, sense, threshold }) => ({ name, sense, threshold })),
+    maxPrivacyLoss: config.maxPrivacyLoss,
+    maxCost: config.maxCost,
+    requireStability: config.requireStability,
+    stabilityEpsilon: config.stabilityEpsilon,
+    objectives: config.objectives,
+    privacyObjective: config.privacyObjective,
+    costObjective: config.costObjective,
+    checks: config.checks?.map(({ name, severity }) => ({ name, severity })),
+    enabled: config.enabled,
+    severity: config.severity,
+    shortCircuit: config.shortCircuit,
+    parents: config.parents,
+    requireConsistency: config.requireConsistency,
+  }));
+  return `v${PROOF_GATE_VERSION}-${fingerprint.slice(0, 12)}`;
+}
+
+/**
+ * The certified part of an agent: identity, the three layers and its
+ * objective values. Lineage, metadata and timestamps are bookkeeping and
+ * may change without invalidating the proof.
+ */
+function genomeOf(agent: MetaAgent) {
+  return {
+    id: agent.id,
+    kind: agent.kind,
+    generation: agent.generation,
+    state: agent.perception.state,
+    uncertainty: agent.perception.uncertainty,
+    reasoning: agent.reasoning,
+    tools: agent.coordination.tools,
+    memory: agent.coordination.memory.map(({ key, value, ttl }) => ({ key, value, ttl })),
+    decisions: agent.coordination.decisions,
+    partners: agent.coordination.partners,
+    objectives: agent.objectives.values,
+  };
+}
+
+/**
+ * Content hash of an agent's genome alone; seeds the stability check's probes.
+ */
+export function genomeHash(agent: MetaAgent): string {
+  return sha256(canonicalJson(genomeOf(agent)));
+}
+
+/**
+ * Content hash of an agent's genome and the certificate's claims.
+ */
+export function proofHash(
+  agent: MetaAgent,
+  bundle: Pick<ProofBundle, 'spec' | 'timestamp'> & { checks: CheckResult[]; gateVersion: string }
+): string {
+  const { spec, timestamp, checks, gateVersion } = bundle;
+  return sha256(canonicalJson({ genome: genomeOf(agent), spec, checks, gateVersion, timestamp }));
+}
+
+/**
+ * Signed proof bundle certifying that `agent` passed `checks` under gate `gateVersion`.
+ */
+export function signProof(
+  agent: MetaAgent,
+  spec: string,
+  checks: CheckResult[],
+  gateVersion: string,
+  timestamp: number,
+  signer: ProofSigner = defaultProofSigner()
+): ProofBundle {
+  const hash = proofHash(agent, { spec, checks, gateVersion, timestamp });
+  return {
+    spec,
+    proof: JSON.stringify(checks),
+    verified: true,
+    timestamp,
+    hash,
+    signature: signer.sign(hash),
+    publicKey: signer.publicKey,
+    gateVersion,
+  };
+}
+
+/**
+ * Check an agent's proof bundle: it must be signed, its hash must match the
+ * agent as it is now, and the signature must verify against a trusted key
+ * (`trustedKeys`, or the default signer's public key).
+ */
+export function verifyProofBundle(agent: MetaAgent, options: ProofVerificationOptions = {}): ProofVerification {
+  const bundle = agent.proof;
+  if (!bundle) return { valid: false, reason: 'No proof bundle' };
+  if (!bundle.verified) return { valid: false, reason: 'Proof is not marked verified' };
+
+  const { hash, signature, publicKey, gateVersion } = bundle;
+  if (!hash || !signature || !publicKey || !gateVersion) {
+    return { valid: false, reason: 'Proof bundle is not signed' };
+  }
+
+  let checks: CheckResult[];
+  try {
+    checks = JSON.parse(bundle.proof) as CheckResult[];
+  } catch {
+    return { valid: false, reason: 'Proof checks are not valid JSON' };
+  }
+  if (proofHash(agent, { spec: bundle.spec, checks, gateVersion, timestamp: bundle.timestamp }) !== hash) {
+    return { valid: false, reason: 'Agent or checks changed since certification' };
+  }
+
+  const trustedKeys = options.trustedKeys ?? [defaultProofSigner().publicKey];
+  if (!trustedKeys.includes(publicKey)) {
+    return { valid: false, reason: 'Proof was signed by an untrusted key' };
+  }
+  try {
+    if (!verify(null, Buffer.from(hash), createPublicKey(publicKey), Buffer.from(signature, 'base64'))) {
+      return { valid: false, reason: 'Signature does not match' };
+    }
+  } catch {
+    return { valid: false, reason: 'Signature or public key is malformed' };
+  }
+  return { valid: true };
+}
@@ -0,0 +1,107 @@
+/**
+ * SPEC TEST: quality-diversity.spec.ts
+ * Paired with quality-diversity.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  archiveCoverage,
+  archiveElites,
+  behaviorDescriptor,
+  cellKey,
+  createArchive,
+  insertElite,
+  noveltyScores,
+  updateNoveltyArchive,
+} from './quality-diversity';
+import { createAgent, type MetaAgent } from '../agents-runtime/agent';
+import type { HilbertState } from '../laws-physics/hilbert';
+import type { ObjectiveSpec } from '../laws-physics/objectives';
+
+const specs: ObjectiveSpec[] = [
+  { name: 'gain', sense: 'max' },
+  { name: 'cost', sense: 'min' },
+];
+
+function agent(id: string, state: HilbertState, values: number[] = [0, 0]): MetaAgent {
+  const a = createAgent(id, 'tutor', state.length, specs, 0);
+  a.perception.state = state;
+  a.objectives.values = values;
+  return a;
+}
+
+describe('quality diversity - behavior descriptors', () => {
+  it('should describe the dominant component and the symbolic layers', () => {
+    const a = agent('a', [{ re: 0.6, im: 0 }, { re: 0, im: 0.8 }]);
+    a.reasoning.knowledge = [{ type: 'fact', content: 'x' }, { type: 'fact', content: 'y' }];
+    a.coordination.tools = [{ name: 'search', cost: 1 }, { name: 'search', cost: 2 }];
+
+    const [phase, magnitude, knowledge, tools] = behaviorDescriptor(
+      a,
+      ['phase', 'magnitude', 'knowledge', 'tools'],
+      { knowledgeCap: 4, toolCap: 2 }
+    );
+
+    expect(phase).toBeCloseTo(0.75);
+    expect(magnitude).toBeCloseTo(0.64);
+    expect(knowledge).toBe(0.5);
+    expect(tools).toBe(0.5);
+  });
+
+  it('should bucket descriptors into grid cells', () => {
+    expect(cellKey([0, 0.5, 0.99, 1], 4)).toBe('0,2,3,3');
+  });
+});
+
+describe('quality diversity - MAP-Elites archive', () => {
+  const up: HilbertState = [{ re: 1, im: 0 }, { re: 0, im: 0 }];
+  const down: HilbertState = [{ re: -1, im: 0 }, { re: 0, im: 0 }];
+
+  it('should keep one elite per cell, replaced only by a dominating agent', () => {
+    const archive = createArchive({ mode: 'map-elites' });
+
+    expect(insertElite(archive, agent('a', up, [1, 1]), specs)).toBe(true);
+    expect(insertElite(archive, agent('b', up, [2, 0]), specs)).toBe(true);
+    expect(insertElite(archive, agent('c', up, [3, 5]), specs)).toBe(false);
+    expect(insertElite(archive, agent('d', down, [0, 9]), specs)).toBe(true);
+
+    expect(archiveElites(archive).map(a => a.id).sort()).toEqual(['b', 'd']);
+    expect(archiveCoverage(archive)).toBeCloseTo(2 / 25);
+  });
+
+  it('should store snapshots of elites', () => {
+    const archive = createArchive({ mode: 'map-elites', features: ['magnitude'], bins: 2 });
+    const a = agent('a', up, [1, 1]);
+    insertElite(archive, a, specs);
+    a.objectives.values = [0, 9];
+
+    expect(archiveElites(archive)[0].objectives.values).toEqual([1, 1]);
+  });
+});
+
+describe('quality diversity - novelty', () => {
+  const states: HilbertState[] = [
+    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+    [{ re: 0, im: 0 }, { re: 1, im: 0 }],
+  ];
+
+  it('should score mean distance to the nearest neighbours', () => {
+    const [a, b, c] = noveltyScores(states, [], 1);
+
+    expect(a).toBe(0);
+    expect(b).toBe(0);
+    expect(c).toBeCloseTo(Math.SQRT2);
+  });
+
+  it('should count archived states as neighbours', () => {
+    const archive: HilbertState[] = [[{ re: 0, im: 0 }, { re: 1, im: 0 }]];
+    expect(noveltyScores(states, archive, 1)[2]).toBe(0);
+  });
+
+  it('should archive novel states and drop the oldest beyond the limit', () => {
+    const archive = updateNoveltyArchive([states[0]], states, [0, 0, 1.4], 0.3, 2);
+    expect(archive).toEqual([states[0], states[2]]);
+    expect(updateNoveltyArchive(archive, states, [1, 1, 1], 0.3, 2)).toEqual([states[1], states[2]]);
+  });
+});
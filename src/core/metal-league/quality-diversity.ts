@@ -0,0 +1,186 @@
+/**
+ * Quality Diversity
+ *
+ * Instead of converging on one Pareto front, keep a repertoire of good agents
+ * that behave differently:
+ * - MAP-Elites: behavior descriptors (Hilbert-state phase and magnitude,
+ *   knowledge size, tool mix) bucket agents into a grid; each cell keeps its
+ *   best feasible agent, and parents are drawn uniformly from the filled cells.
+ * - Novelty search: an agent's novelty is its mean stateDistance to its nearest
+ *   neighbours in Hilbert space (population plus an archive of past novel
+ *   states); selection treats novelty as one more objective to maximize.
+ *
+ * Both modes keep the MAP-Elites archive, returned as EvolutionResult.repertoire.
+ */
+
+import type { MetaAgent } from '../agents-runtime/agent';
+import { stateDistance, type HilbertState } from '../laws-physics/hilbert';
+import type { ObjectiveSpec } from '../laws-physics/objectives';
+import { dominates } from './nsga2';
+
+export type BehaviorFeature = 'phase' | 'magnitude' | 'knowledge' | 'tools';
+
+export interface QualityDiversityConfig {
+  /** 'map-elites' draws parents from the archive; 'novelty' selects on novelty as an extra objective */
+  mode: 'map-elites' | 'novelty';
+
+  /** Behavior descriptor dimensions (default: phase, magnitude) */
+  features?: BehaviorFeature[];
+
+  /** Buckets per dimension (default 5) */
+  bins?: number;
+
+  /** Knowledge items that fill the top 'knowledge' bucket (default 10) */
+  knowledgeCap?: number;
+
+  /** Distinct tools that fill the top 'tools' bucket (default 5) */
+  toolCap?: number;
+
+  /** Nearest neighbours averaged for novelty (default 5) */
+  neighbours?: number;
+
+  /** Novelty an agent needs to enter the novelty archive (default 0.3) */
+  noveltyThreshold?: number;
+
+  /** Novelty archive size; the oldest states are dropped first (default 100) */
+  noveltyArchiveLimit?: number;
+
+  /** Select on novelty alone, ignoring the objectives (default false) */
+  noveltyOnly?: boolean;
+}
+
+/**
+ * MAP-Elites archive: the elite of each filled cell, keyed by bucket indices.
+ */
+export interface MapElitesArchive {
+  features: BehaviorFeature[];
+  bins: number;
+  cells: Record<string, MetaAgent>;
+}
+
+/**
+ * Quality-diversity progress of a generation.
+ */
+export interface QualityDiversityStats {
+  /** Filled archive cells */
+  archiveSize: number;
+
+  /** Share of the grid that is filled */
+  coverage: number;
+
+  /** Mean novelty of the population (novelty mode) */
+  meanNovelty?: number;
+
+  /** States in the novelty archive (novelty mode) */
+  noveltyArchiveSize?: number;
+}
+
+const DEFAULT_FEATURES: BehaviorFeature[] = ['phase', 'magnitude'];
+
+/**
+ * Behavior descriptor of `agent`, one value in [0, 1] per feature:
+ * - phase: phase of the dominant state component, mapped from [-π, π]
+ * - magnitude: probability mass of the dominant component
+ * - knowledge: knowledge size relative to knowledgeCap
+ * - tools: distinct tools relative to toolCap
+ */
+export function behaviorDescriptor(
+  agent: MetaAgent,
+  features: BehaviorFeature[] = DEFAULT_FEATURES,
+  config: Pick<QualityDiversityConfig, 'knowledgeCap' | 'toolCap'> = {}
+): number[] {
+  const state = agent.perception.state;
+  let dominant = 0;
+  for (let i = 1; i < state.length; i++) {
+    if (Math.hypot(state[i].re, state[i].im) > Math.hypot(state[dominant].re, state[dominant].im)) dominant = i;
+  }
+  const z = state[dominant] ?? { re: 0, im: 0 };
+
+  return features.map(feature => {
+    switch (feature) {
+      case 'phase':
+        return (Math.atan2(z.im, z.re) + Math.PI) / (2 * Math.PI);
+      case 'magnitude':
+        return Math.min(1, z.re * z.re + z.im * z.im);
+      case 'knowledge':
+        return Math.min(1, agent.reasoning.knowledge.length / (config.knowledgeCap ?? 10));
+      case 'tools':
+        return Math.min(1, new Set(agent.coordination.tools.map(t => t.name)).size / (config.toolCap ?? 5));
+    }
+  });
+}
+
+/**
+ * Grid cell of a descriptor, e.g. "2,4".
+ */
+export function cellKey(descriptor: number[], bins: number): string {
+  return descriptor.map(v => Math.min(bins - 1, Math.max(0, Math.floor(v * bins)))).join(',');
+}
+
+/**
+ * Empty archive over the configured features and bins.
+ */
+export function createArchive(config: QualityDiversityConfig): MapElitesArchive {
+  return { features: config.features ?? DEFAULT_FEATURES, bins: config.bins ?? 5, cells: {} };
+}
+
+/**
+ * Offer a feasible, evaluated agent to the archive. It takes an empty cell,
+ * or replaces an elite it Pareto-dominates. A snapshot is stored, so later
+ * changes to the agent do not alter the archive. Returns whether it was stored.
+ */
+export function insertElite(
+  archive: MapElitesArchive,
+  agent: MetaAgent,
+  specs: ObjectiveSpec[],
+  config: Pick<QualityDiversityConfig, 'knowledgeCap' | 'toolCap'> = {}
+): boolean {
+  const key = cellKey(behaviorDescriptor(agent, archive.features, config), archive.bins);
+  const incumbent = archive.cells[key];
+  const genome = (a: MetaAgent) => ({ id: a.id, objectives: a.objectives });
+  if (incumbent && !dominates(genome(agent), genome(incumbent), specs)) return false;
+  archive.cells[key] = structuredClone(agent);
+  return true;
+}
+
+/**
+ * Elites of the archive in cell order.
+ */
+export function archiveElites(archive: MapElitesArchive): MetaAgent[] {
+  return Object.keys(archive.cells).sort().map(key => archive.cells[key]);
+}
+
+/**
+ * Share of the grid's cells that hold an elite.
+ */
+export function archiveCoverage(archive: MapElitesArchive): number {
+  return Object.keys(archive.cells).length / archive.bins ** archive.features.length;
+}
+
+/**
+ * Novelty of each state: mean stateDistance to its `k` nearest neighbours
+ * among the other states and the archived ones.
+ */
+export function noveltyScores(states: HilbertState[], archive: HilbertState[] = [], k = 5): number[] {
+  return states.map((state, i) => {
+    const distances = [...states.filter((_, j) => j !== i), ...archive]
+      .map(other => stateDistance(state, other))
+      .sort((a, b) => a - b)
+      .slice(0, k);
+    return distances.length === 0 ? 0 : distances.reduce((s, d) => s + d, 0) / distances.length;
+  });
+}
+
+/**
+ * Novelty archive after adding the states at least `threshold` novel, oldest dropped beyond `limit`.
+ */
+export function updateNoveltyArchive(
+  archive: HilbertState[],
+  states: HilbertState[],
+  novelty: number[],
+  threshold = 0.3,
+  limit = 100
+): HilbertState[] {
+  const added = states.filter((_, i) => novelty[i] >= threshold).map(state => state.map(z => ({ ...z })));
+  return [...archive, ...added].slice(-limit);
+}
@@ -0,0 +1,95 @@
+/**
+ * PROPERTY TEST: symbolic-verification.prop.ts
+ * Property-based tests for symbolic verification
+ */
+
+import { describe, it } from 'vitest';
+import { isConsistent, verifyReasoning } from './symbolic-verification';
+import type { Reasoning, SymbolicItem } from '../agents-runtime/agent';
+
+function forAll<T>(generator: () => T, property: (value: T) => boolean, iterations = 50): void {
+  for (let i = 0; i < iterations; i++) {
+    const value = generator();
+    if (!property(value)) {
+      throw new Error(`Property violated with value: ${JSON.stringify(value)}`);
+    }
+  }
+}
+
+function randomAtoms(): string[] {
+  const count = 1 + Math.floor(Math.random() * 8);
+  return Array.from({ length: count }, (_, i) => `atom-${i}-${Math.floor(Math.random() * 1000)}`);
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+const facts = (atoms: string[]): SymbolicItem[] => atoms.map(content => ({ type: 'fact', content }));
+const reasoning = (knowledge: SymbolicItem[], goals: string[] = []): Reasoning => ({ knowledge, goals });
+
+describe('symbolic verification - properties', () => {
+  it('should find positive facts consistent', () => {
+    forAll(randomAtoms, atoms => isConsistent(reasoning(facts(atoms))));
+  });
+
+  it('should always catch a negated fact', () => {
+    forAll(
+      () => {
+        const atoms = randomAtoms();
+        return { atoms, negated: atoms[Math.floor(Math.random() * atoms.length)] };
+      },
+      ({ atoms, negated }) => {
+        const knowledge = shuffle([...facts(atoms), { type: 'fact' as const, content: `not ${negated}` }]);
+        const issues = verifyReasoning(reasoning(knowledge));
+        return issues.some(i => i.kind === 'contradiction' && i.subject === negated);
+      }
+    );
+  });
+
+  it('should fire every rule of a chain from its first fact, in any order', () => {
+    forAll(randomAtoms, atoms => {
+      const rules: SymbolicItem[] = atoms.slice(1).map((atom, i) => ({
+        type: 'rule',
+        condition: atoms[i],
+        action: atom,
+      }));
+      return verifyReasoning(reasoning(shuffle([...rules, { type: 'fact', content: atoms[0] }]))).length === 0;
+    });
+  });
+
+  it('should catch a negation derived at the end of a chain, in any order', () => {
+    forAll(randomAtoms, atoms => {
+      const rules: SymbolicItem[] = atoms.map((atom, i) => ({
+        type: 'rule',
+        condition: atom,
+        action: i + 1 < atoms.length ? atoms[i + 1] : `not ${atoms[0]}`,
+      }));
+      const issues = verifyReasoning(reasoning(shuffle([...rules, { type: 'fact', content: atoms[0] }])));
+      return issues.some(i => i.kind === 'contradiction' && i.subject === atoms[0]);
+    });
+  });
+
+  it('should accept a plan hierarchy until a step loops back to the top goal', () => {
+    forAll(randomAtoms, goals => {
+      const plans: SymbolicItem[] = goals.map((goal, i) => ({
+        type: 'plan',
+        goal,
+        steps: i + 1 < goals.length ? ['prepare', goals[i + 1], 'check'] : ['prepare'],
+      }));
+      const looped = plans.map((plan, i) =>
+        plan.type === 'plan' && i === plans.length - 1 ? { ...plan, steps: [...plan.steps, goals[0]] } : plan
+      );
+
+      const acyclic = verifyReasoning(reasoning(shuffle(plans), goals));
+      const cyclic = verifyReasoning(reasoning(shuffle(looped), goals));
+      return acyclic.length === 0 &&
+        goals.every(goal => cyclic.some(i => i.kind === 'plan-cycle' && i.subject === goal));
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * SPEC TEST: symbolic-verification.spec.ts
+ * Paired with symbolic-verification.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isConsistent, reasoningStructureCheck, verifyReasoning } from './symbolic-verification';
+import {
+  applyProofGate,
+  verifyAgent,
+  DEFAULT_PROOF_CHECKS,
+  DEFAULT_PROOF_GATE,
+  type ProofGateConfig,
+} from './proof-gate';
+import { checkProofCertificate } from './certificate-checker';
+import { createProofCertificate } from './certificate';
+import { addFact, createAgent, type AgentKind, type MetaAgent, type Reasoning } from '../agents-runtime/agent';
+
+const reasoning = (parts: Partial<Reasoning>): Reasoning => ({ knowledge: [], goals: [], ...parts });
+
+function agent(kind: AgentKind, facts: string[]): MetaAgent {
+  const a = createAgent('a1', kind);
+  a.objectives.values = [0.5, 50, 0.8, 0.9, 0.5, 5.0];
+  a.perception.state = [{ re: 1, im: 0 }];
+  for (const fact of facts) addFact(a, fact);
+  return a;
+}
+
+const gate: ProofGateConfig = { ...DEFAULT_PROOF_GATE, clock: () => 0, requireStability: false };
+
+describe('symbolic verification - facts and rules', () => {
+  it('should detect a fact stated with its negation', () => {
+    const facts = ['sky is blue', 'not  sky is blue', '¬wet', 'wet', '!!dry', 'dry'];
+    const issues = verifyReasoning(reasoning({ knowledge: facts.map(content => ({ type: 'fact', content })) }));
+
+    expect(issues.map(i => [i.kind, i.subject])).toEqual([
+      ['contradiction', 'sky is blue'],
+      ['contradiction', 'wet'],
+    ]);
+    expect(issues[0].message).toBe('Facts contradict: sky is blue and not sky is blue');
+  });
+
+  it('should detect a contradiction that only a chain of rules derives', () => {
+    const issues = verifyReasoning(reasoning({
+      knowledge: [
+        { type: 'fact', content: 'converges' },
+        { type: 'fact', content: 'bounded' },
+        { type: 'rule', condition: 'bounded', action: 'oscillates' },
+        { type: 'rule', condition: 'oscillates', action: 'not converges' },
+      ],
+    }));
+
+    expect(issues).toEqual([{
+      kind: 'contradiction',
+      subject: 'converges',
+      message: 'Facts contradict: converges and not converges (derived by "oscillates -> not converges")',
+    }]);
+  });
+
+  it('should flag rules no fact or fired rule satisfies', () => {
+    const issues = verifyReasoning(reasoning({
+      knowledge: [
+        { type: 'fact', content: 'confused' },
+        { type: 'fact', content: 'not online' },
+        { type: 'rule', condition: 'simplified and not online', action: 'summarize' },
+        { type: 'rule', condition: 'confused', action: 'simplified' },
+        { type: 'rule', condition: 'confused && online', action: 'search' },
+      ],
+    }));
+
+    expect(issues).toEqual([{
+      kind: 'dead-rule',
+      subject: 'confused && online',
+      message: 'Rule "confused && online -> search" never fires: online is never a fact',
+    }]);
+  });
+});
+
+describe('symbolic verification - plans and goals', () => {
+  it('should report cyclic plans and the steps after them', () => {
+    const issues = verifyReasoning(reasoning({
+      knowledge: [
+        { type: 'plan', goal: 'prove', steps: ['lemma', 'conclude'] },
+        { type: 'plan', goal: 'lemma', steps: ['assume', 'prove'] },
+        { type: 'plan', goal: 'teach', steps: ['explain', 'lemma', 'quiz'] },
+      ],
+    }));
+
+    expect(issues.map(i => [i.kind, i.subject])).toEqual([
+      ['plan-cycle', 'prove'],
+      ['plan-cycle', 'lemma'],
+      ['unreachable-step', 'conclude'],
+      ['unreachable-step', 'quiz'],
+    ]);
+    expect(issues[0].message).toBe('Plan for prove is cyclic: prove -> lemma -> prove');
+  });
+
+  it('should accept a subgoal with one plan that completes', () => {
+    const issues = verifyReasoning(reasoning({
+      knowledge: [
+        { type: 'plan', goal: 'lemma', steps: ['lemma'] },
+        { type: 'plan', goal: 'lemma', steps: ['induction'] },
+        { type: 'plan', goal: 'prove', steps: ['lemma', 'conclude'] },
+      ],
+    }));
+
+    expect(issues.map(i => i.kind)).toEqual(['plan-cycle']);
+  });
+
+  it('should flag goals without a plan, counting the active plan', () => {
+    const issues = verifyReasoning(reasoning({
+      goals: ['teach', 'assess', 'teach'],
+      activePlan: { type: 'plan', goal: 'teach', steps: ['explain'] },
+    }));
+
+    expect(issues).toEqual([{ kind: 'unplanned-goal', subject: 'assess', message: 'No plan achieves goal assess' }]);
+  });
+});
+
+describe('symbolic verification - proof gate', () => {
+  it('should require a consistent knowledge base of theorem provers', () => {
+    const prover = agent('theoremProver', ['converges', 'not converges']);
+    const tutor = agent('tutor', ['converges', 'not converges']);
+
+    const result = verifyAgent(prover, gate);
+    expect(isConsistent(prover.reasoning)).toBe(false);
+    expect(result.passed).toBe(false);
+    expect(result.checks.find(c => c.name === 'knowledge-consistency')).toMatchObject({
+      passed: false,
+      value: 1,
+      message: 'Contradictory facts: converges',
+    });
+    expect(verifyAgent(tutor, gate).passed).toBe(true);
+  });
+
+  it('should block theorem provers whose rules contradict their facts', () => {
+    const prover = agent('theoremProver', ['converges']);
+    prover.reasoning.knowledge.push({ type: 'rule', condition: 'converges', action: '¬converges' });
+
+    expect(isConsistent(prover.reasoning)).toBe(false);
+    expect(verifyAgent(prover, gate).checks.find(c => c.name === 'knowledge-consistency')).toMatchObject({
+      passed: false,
+      message: 'Contradictory facts: converges',
+    });
+  });
+
+  it('should follow the configured kinds', () => {
+    const tutor = agent('tutor', ['converges', 'not converges']);
+    const prover = agent('theoremProver', ['converges', 'not converges']);
+
+    expect(verifyAgent(tutor, { ...gate, requireConsistency: true }).passed).toBe(false);
+    expect(verifyAgent(tutor, { ...gate, requireConsistency: ['tutor'] }).passed).toBe(false);
+    expect(verifyAgent(prover, { ...gate, requireConsistency: false }).passed).toBe(true);
+    expect(verifyAgent(agent('theoremProver', ['converges']), gate).checks.map(c => c.name))
+      .toContain('knowledge-consistency');
+  });
+
+  it('should warn about the reasoning structure and replay it in certificates', () => {
+    const config: ProofGateConfig = { ...gate, checks: [...DEFAULT_PROOF_CHECKS, reasoningStructureCheck] };
+    const prover = agent('theoremProver', ['converges']);
+    prover.reasoning.goals = ['bound regret'];
+
+    const { passed, results } = applyProofGate([prover], config);
+    expect(passed).toEqual([prover]);
+    expect(results.get('a1')?.reason).toBe('Passed with 1 warning');
+    expect(checkProofCertificate(createProofCertificate(prover, config)).valid).toBe(true);
+  });
+});
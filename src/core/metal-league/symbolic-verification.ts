@@ -0,0 +1,284 @@
+/**
+ * Symbolic Verification
+ *
+ * Static checks of an agent's reasoning layer (knowledge, goals and active plan):
+ * - contradiction: a fact and its negation both hold, stated or derived by rules
+ * - dead-rule: a rule whose condition no fact, stated or derived, satisfies
+ * - plan-cycle: a plan whose subgoals lead back to its own goal
+ * - unreachable-step: a plan step after a step that never completes
+ * - unplanned-goal: an active goal that no plan achieves
+ *
+ * Reading of the symbols: a fact "not X" (also "¬X" or "!X") negates X;
+ * whitespace is collapsed before comparing. A rule condition is a conjunction
+ * of literals ("a and not b", "a && b", "a, b") that holds when every literal
+ * is a fact; a rule that fires establishes its action as a fact, so chained
+ * rules are live. A plan step that names the goal of a plan is a subgoal,
+ * achieved by running that plan; any other step is primitive and completes.
+ *
+ * knowledgeConsistencyCheck makes a contradiction-free knowledge base a
+ * blocking gate check (for theorem provers unless configured otherwise);
+ * reasoningStructureCheck reports the other issues.
+ */
+
+import type { AgentKind, Reasoning, SymbolicItem } from '../agents-runtime/agent';
+import type { ProofCheck } from './proof-gate';
+
+export type SymbolicIssueKind = 'contradiction' | 'dead-rule' | 'plan-cycle' | 'unreachable-step' | 'unplanned-goal';
+
+/**
+ * One problem found in a reasoning layer.
+ */
+export interface SymbolicIssue {
+  kind: SymbolicIssueKind;
+
+  /** The fact atom, rule condition, plan goal or step concerned */
+  subject: string;
+
+  message: string;
+}
+
+/**
+ * Agent kinds whose knowledge base the gate requires to be consistent by default.
+ */
+export const DEFAULT_CONSISTENT_KINDS: AgentKind[] = ['theoremProver'];
+
+type Plan = Extract<SymbolicItem, { type: 'plan' }>;
+type Rule = Extract<SymbolicItem, { type: 'rule' }>;
+
+interface Literal {
+  atom: string;
+  negated: boolean;
+}
+
+const NEGATION = /^(?:not\s+|¬\s*|!\s*)(.+)$/i;
+
+const ISSUE_ORDER: SymbolicIssueKind[] = [
+  'contradiction',
+  'dead-rule',
+  'plan-cycle',
+  'unreachable-step',
+  'unplanned-goal',
+];
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+/**
+ * Parse a fact or condition literal, peeling (possibly repeated) negations.
+ */
+function literal(text: string): Literal {
+  let atom = normalize(text);
+  let negated = false;
+  for (let match = NEGATION.exec(atom); match; match = NEGATION.exec(atom)) {
+    atom = match[1];
+    negated = !negated;
+  }
+  return { atom, negated };
+}
+
+const literalKey = ({ atom, negated }: Literal) => `${negated ? '¬' : ''}${atom}`;
+const show = ({ atom, negated }: Literal) => `${negated ? 'not ' : ''}${atom}`;
+
+const showRule = (rule: Rule) => `"${normalize(rule.condition)} -> ${normalize(rule.action)}"`;
+
+/**
+ * Forward-chain the rules from the stated facts: every literal that holds,
+ * with the rule that first derived it (none for stated facts), and the rules that fired.
+ */
+function closure(knowledge: SymbolicItem[]) {
+  const established = new Map<string, Rule | undefined>();
+  for (const item of knowledge) {
+    if (item.type === 'fact') established.set(literalKey(literal(item.content)), undefined);
+  }
+  const rules = knowledge
+    .filter((item): item is Rule => item.type === 'rule')
+    .map(rule => ({ rule, conditions: rule.condition.split(/\s+and\s+|\s*&&\s*|\s*,\s*/i).map(literal) }));
+
+  const fired = new Set<number>();
+  let changed: boolean;
+  do {
+    changed = false;
+    rules.forEach(({ rule, conditions }, i) => {
+      if (fired.has(i) || !conditions.every(c => established.has(literalKey(c)))) return;
+      fired.add(i);
+      const action = literalKey(literal(rule.action));
+      if (!established.has(action)) established.set(action, rule);
+      changed = true;
+    });
+  } while (changed);
+
+  return { established, rules, fired };
+}
+
+/**
+ * Atoms that hold together with their negation once the rules have fired.
+ */
+function contradictions(knowledge: SymbolicItem[]): SymbolicIssue[] {
+  const { established } = closure(knowledge);
+  return [...established.keys()]
+    .filter(key => !key.startsWith('¬') && established.has(`¬${key}`))
+    .map(atom => {
+      const derived = [established.get(atom), established.get(`¬${atom}`)].filter(rule => rule !== undefined);
+      return {
+        kind: 'contradiction' as const,
+        subject: atom,
+        message: `Facts contradict: ${atom} and not ${atom}` +
+          (derived.length > 0 ? ` (derived by ${derived.map(showRule).join(' and ')})` : ''),
+      };
+    });
+}
+
+/**
+ * Rules that never fire from the stated facts, even with chaining, are dead.
+ */
+function deadRules(knowledge: SymbolicItem[]): SymbolicIssue[] {
+  const { established, rules, fired } = closure(knowledge);
+  return rules.flatMap(({ rule, conditions }, i) => {
+    if (fired.has(i)) return [];
+    const condition = normalize(rule.condition);
+    const missing = conditions.find(c => !established.has(literalKey(c)))!;
+    return [{
+      kind: 'dead-rule' as const,
+      subject: condition,
+      message: `Rule ${showRule(rule)} never fires: ${show(missing)} is never a fact`,
+    }];
+  });
+}
+
+/**
+ * Cycles, unreachable steps and unplanned goals over the plans in knowledge
+ * and the active plan.
+ */
+function planIssues(reasoning: Reasoning): SymbolicIssue[] {
+  const plans = [...reasoning.knowledge, reasoning.activePlan]
+    .filter((item): item is Plan => item?.type === 'plan')
+    .filter((plan, i, all) => all.indexOf(plan) === i);
+  const byGoal = new Map<string, Plan[]>();
+  for (const plan of plans) {
+    const goal = normalize(plan.goal);
+    byGoal.set(goal, [...(byGoal.get(goal) ?? []), plan]);
+  }
+  const subgoals = (plan: Plan) => plan.steps.map(normalize).filter(step => byGoal.has(step));
+
+  // Goals some plan completes: least fixed point over the subgoal graph
+  const completing = new Set<string>();
+  let changed: boolean;
+  do {
+    changed = false;
+    for (const [goal, candidates] of byGoal) {
+      if (completing.has(goal) || !candidates.some(plan => subgoals(plan).every(s => completing.has(s)))) continue;
+      completing.add(goal);
+      changed = true;
+    }
+  } while (changed);
+
+  // Shortest subgoal path from `from` back to `to`, if any
+  const pathTo = (from: string, to: string): string[] | undefined => {
+    const previous = new Map<string, string | undefined>([[from, undefined]]);
+    const queue = [from];
+    while (queue.length > 0) {
+      const goal = queue.shift()!;
+      if (goal === to) {
+        const path: string[] = [];
+        for (let g: string | undefined = goal; g !== undefined; g = previous.get(g)) path.unshift(g);
+        return path;
+      }
+      for (const next of (byGoal.get(goal) ?? []).flatMap(subgoals)) {
+        if (!previous.has(next)) {
+          previous.set(next, goal);
+          queue.push(next);
+        }
+      }
+    }
+    return undefined;
+  };
+
+  const issues: SymbolicIssue[] = [];
+  for (const plan of plans) {
+    const goal = normalize(plan.goal);
+    const cycle = subgoals(plan).map(s => pathTo(s, goal)).find(path => path !== undefined);
+    if (cycle) {
+      issues.push({
+        kind: 'plan-cycle',
+        subject: goal,
+        message: `Plan for ${goal} is cyclic: ${[goal, ...cycle].join(' -> ')}`,
+      });
+    }
+
+    const stuck = plan.steps.findIndex(step => byGoal.has(normalize(step)) && !completing.has(normalize(step)));
+    for (const step of stuck < 0 ? [] : plan.steps.slice(stuck + 1)) {
+      issues.push({
+        kind: 'unreachable-step',
+        subject: normalize(step),
+        message: `Step "${normalize(step)}" of the plan for ${goal} is unreachable: ` +
+          `subgoal ${normalize(plan.steps[stuck])} never completes`,
+      });
+    }
+  }
+
+  for (const goal of new Set(reasoning.goals.map(normalize))) {
+    if (!byGoal.has(goal)) {
+      issues.push({ kind: 'unplanned-goal', subject: goal, message: `No plan achieves goal ${goal}` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Every issue in a reasoning layer, grouped by kind in the order of the module comment.
+ */
+export function verifyReasoning(reasoning: Reasoning): SymbolicIssue[] {
+  return [...contradictions(reasoning.knowledge), ...deadRules(reasoning.knowledge), ...planIssues(reasoning)]
+    .sort((a, b) => ISSUE_ORDER.indexOf(a.kind) - ISSUE_ORDER.indexOf(b.kind));
+}
+
+/**
+ * True when no facts, stated or derived, contradict each other.
+ */
+export function isConsistent(reasoning: Reasoning): boolean {
+  return contradictions(reasoning.knowledge).length === 0;
+}
+
+/**
+ * Proof-gate check: the knowledge base has no contradictions. Applies to the
+ * kinds in ProofGateConfig.requireConsistency (true: every agent, false: none;
+ * default DEFAULT_CONSISTENT_KINDS) and is skipped for the others.
+ */
+export const knowledgeConsistencyCheck: ProofCheck = {
+  name: 'knowledge-consistency',
+  severity: 'block',
+  run: (agent, { config }) => {
+    const required = config.requireConsistency ?? DEFAULT_CONSISTENT_KINDS;
+    if (required === false || (Array.isArray(required) && !required.includes(agent.kind))) return [];
+
+    const found = contradictions(agent.reasoning.knowledge);
+    return {
+      name: 'knowledge-consistency',
+      passed: found.length === 0,
+      value: found.length,
+      threshold: 0,
+      message: found.length === 0
+        ? 'Knowledge base is consistent'
+        : `Contradictory facts: ${found.map(issue => issue.subject).join(', ')}`,
+    };
+  },
+};
+
+/**
+ * Domain check: no dead rules, cyclic plans, unreachable steps or unplanned goals.
+ */
+export const reasoningStructureCheck: ProofCheck = {
+  name: 'reasoning-structure',
+  severity: 'warn',
+  run: agent => {
+    const issues = verifyReasoning(agent.reasoning).filter(issue => issue.kind !== 'contradiction');
+    return {
+      name: 'reasoning-structure',
+      passed: issues.length === 0,
+      value: issues.length,
+      threshold: 0,
+      message: issues.length === 0
+        ? 'Rules, plans and goals are well-formed'
+        : issues.map(issue => issue.message).join('; '),
+    };
+  },
+};
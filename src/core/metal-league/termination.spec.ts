@@ -0,0 +1,162 @@
+/**
+ * SPEC TEST: termination.spec.ts
+ * Paired with termination.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkTermination,
+  evaluationCount,
+  fixedHypervolume,
+  hypervolumeBounds,
+  validateStoppingCriterion,
+  type TerminationContext,
+} from './termination';
+import type { GenerationStats } from './evolution';
+import { createAgent } from '../agents-runtime/agent';
+import type { ObjectiveSpec, ObjectiveVector } from '../laws-physics/objectives';
+
+const objectives: ObjectiveSpec[] = [
+  { name: 'gain', sense: 'max' },
+  { name: 'cost', sense: 'min' },
+];
+
+/** Stats carrying only what the criteria read */
+function stats(hypervolume: number, evaluated = 4, retries = 0, noise = 0): GenerationStats {
+  return {
+    indicators: { hypervolume, spacing: 0, spread: 0 },
+    fixedHypervolume: { value: hypervolume, noise },
+    evaluation: { evaluated, failures: [], retries, timeouts: 0, requeued: 0 },
+  } as Partial<GenerationStats> as GenerationStats;
+}
+
+function context(overrides: Partial<TerminationContext> = {}): TerminationContext {
+  return {
+    generation: 0,
+    stats: [],
+    feasible: [],
+    objectives,
+    elapsedMs: 0,
+    stableFronts: 0,
+    ...overrides,
+  };
+}
+
+describe('termination - criteria', () => {
+  it('should detect hypervolume stagnation over K generations', () => {
+    const criterion = { type: 'hypervolume-stagnation' as const, generations: 2, tolerance: 0.01 };
+
+    expect(checkTermination(criterion, context({ stats: [stats(1), stats(1.005)] }))).toBeUndefined();
+    expect(checkTermination(criterion, context({ stats: [stats(1), stats(1.5), stats(1.5)] }))).toBeUndefined();
+    expect(checkTermination(criterion, context({ stats: [stats(1), stats(1.005), stats(0.9)] })))
+      .toMatchObject({ criterion: 'hypervolume-stagnation' });
+  });
+
+  it('should not count Monte Carlo noise as progress', () => {
+    const criterion = { type: 'hypervolume-stagnation' as const, generations: 1, tolerance: 0.001 };
+
+    expect(checkTermination(criterion, context({ stats: [stats(0.5, 4, 0, 0.005), stats(0.509, 4, 0, 0.005)] })))
+      .toMatchObject({ criterion: 'hypervolume-stagnation' });
+    expect(checkTermination(criterion, context({ stats: [stats(0.5, 4, 0, 0.005), stats(0.511, 4, 0, 0.005)] })))
+      .toBeUndefined();
+  });
+
+  it('should only compare generations measured against fixed bounds', () => {
+    const criterion = { type: 'hypervolume-stagnation' as const, generations: 1 };
+    const unmeasured = { ...stats(2), fixedHypervolume: undefined };
+
+    expect(checkTermination(criterion, context({ stats: [unmeasured, stats(1)] }))).toBeUndefined();
+  });
+
+  it('should detect a stable front', () => {
+    const criterion = { type: 'front-stability' as const, generations: 3 };
+
+    expect(checkTermination(criterion, context({ stableFronts: 2 }))).toBeUndefined();
+    expect(checkTermination(criterion, context({ stableFronts: 3 }))?.message)
+      .toBe('Pareto front unchanged for 3 generations');
+  });
+
+  it('should enforce time and evaluation budgets', () => {
+    expect(checkTermination({ type: 'time-budget', ms: 100 }, context({ elapsedMs: 99 }))).toBeUndefined();
+    expect(checkTermination({ type: 'time-budget', ms: 100 }, context({ elapsedMs: 100 })))
+      .toEqual({ criterion: 'time-budget', message: 'Time budget of 100ms reached' });
+
+    const history = [stats(0, 4, 1), stats(0, 4)];
+    expect(evaluationCount(history)).toBe(9);
+    expect(checkTermination({ type: 'evaluation-budget', evaluations: 10 }, context({ stats: history })))
+      .toBeUndefined();
+    expect(checkTermination({ type: 'evaluation-budget', evaluations: 9 }, context({ stats: history })))
+      .toMatchObject({ criterion: 'evaluation-budget' });
+  });
+
+  it('should stop when a feasible agent reaches the target, by sense', () => {
+    const agent = createAgent('a', 'tutor', 4, objectives, 0);
+    agent.objectives.values = [0.8, 3];
+
+    expect(checkTermination({ type: 'target', objective: 'gain', value: 0.8 }, context({ feasible: [agent] })))
+      .toEqual({ criterion: 'target', message: 'a reached gain = 0.8 (target 0.8)' });
+    expect(checkTermination({ type: 'target', objective: 'cost', value: 2 }, context({ feasible: [agent] })))
+      .toBeUndefined();
+    expect(() => checkTermination({ type: 'target', objective: 'latency', value: 1 }, context()))
+      .toThrow('Unknown objective in stopping criterion: latency');
+  });
+});
+
+describe('termination - fixed hypervolume', () => {
+  const vector = (...values: number[]): ObjectiveVector => ({ values, timestamp: 0 });
+
+  it('should measure fronts against bounds frozen from a population', () => {
+    const bounds = hypervolumeBounds([vector(1, 0), vector(0, 10), vector(0.5, 5)], objectives);
+
+    expect(bounds).toEqual({ ideal: [-1, 0], reference: [0.1, 11] });
+    expect(fixedHypervolume([vector(1, 0)], objectives, bounds)).toEqual({ value: 1, noise: 0 });
+    expect(fixedHypervolume([vector(-1, 20)], objectives, bounds).value).toBe(0);
+    // A front beyond the first generation's ideal is measured, not rescaled
+    expect(fixedHypervolume([vector(2, -5)], objectives, bounds).value).toBe(1);
+  });
+
+  it('should estimate many objectives on the same samples every call', () => {
+    const six: ObjectiveSpec[] = Array.from({ length: 6 }, (_, i) => ({ name: `o${i}`, sense: 'min' as const }));
+    const population = [vector(0, 0, 0, 0, 0, 0), vector(1, 1, 1, 1, 1, 1)];
+    const front = [vector(0.3, 0.2, 0.5, 0.1, 0.4, 0.2), vector(0.1, 0.6, 0.2, 0.3, 0.1, 0.5)];
+    const bounds = hypervolumeBounds(population, six);
+
+    const first = fixedHypervolume(front, six, bounds);
+    expect(fixedHypervolume(front, six, bounds)).toEqual(first);
+    expect(first.noise).toBeGreaterThan(0);
+    expect(first.value).toBeGreaterThan(0);
+  });
+});
+
+describe('termination - validation', () => {
+  it('should reject unknown target objectives, also inside compositions', () => {
+    const target = { type: 'target' as const, objective: 'latency', value: 1 };
+    const composed = { type: 'any' as const, criteria: [{ type: 'time-budget' as const, ms: 1 }, target] };
+
+    expect(() => validateStoppingCriterion(composed, objectives))
+      .toThrow('Unknown objective in stopping criterion: latency');
+    expect(() => validateStoppingCriterion({ ...target, objective: 'cost' }, objectives)).not.toThrow();
+  });
+});
+
+describe('termination - composition', () => {
+  const slow = { type: 'time-budget' as const, ms: 10 };
+  const stable = { type: 'front-stability' as const, generations: 1 };
+
+  it('should fire any with the first criterion met', () => {
+    const reason = checkTermination({ type: 'any', criteria: [slow, stable] }, context({ stableFronts: 1 }));
+    expect(reason?.criterion).toBe('front-stability');
+  });
+
+  it('should fire all only when every criterion is met', () => {
+    const all = { type: 'all' as const, criteria: [slow, stable] };
+
+    expect(checkTermination(all, context({ stableFronts: 1 }))).toBeUndefined();
+    expect(checkTermination(all, context({ stableFronts: 1, elapsedMs: 10 })))
+      .toEqual({
+        criterion: 'all',
+        message: 'Time budget of 10ms reached; Pareto front unchanged for 1 generations',
+      });
+    expect(checkTermination({ type: 'all', criteria: [] }, context())).toBeUndefined();
+  });
+});
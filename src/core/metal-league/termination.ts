@@ -0,0 +1,245 @@
+/**
+ * Termination Criteria
+ *
+ * A run lasts config.generations unless a stopping criterion fires first.
+ * Criteria are plain data, so they survive checkpoints:
+ * - hypervolume-stagnation: the best hypervolume of the last K generations
+ *   is no more than `tolerance` above the best before them. Measured with a
+ *   fixed yardstick (see HypervolumeBounds), not the running indicator
+ *   normalization, so values from different generations compare
+ * - front-stability: front 0 held the same agent ids for K generations
+ * - time-budget: run time (resumed sessions included) reached `ms`
+ * - evaluation-budget: evaluation attempts (retries included) reached `evaluations`
+ * - target: a feasible agent reached `value` on the named objective
+ * - any / all: compositions
+ *
+ * Criteria are checked after each generation's statistics; a run that stops
+ * early skips reproduction and goes straight to the final evaluation.
+ * validateStoppingCriterion rejects unknown objective names up front.
+ */
+
+import type { MetaAgent } from '../agents-runtime/agent';
+import type { ObjectiveSpec, ObjectiveVector } from '../laws-physics/objectives';
+import { createRng } from '../laws-physics/random';
+import type { GenerationStats } from './evolution';
+import { EXACT_HYPERVOLUME_MAX_DIMS, hypervolumeExact } from './indicators';
+
+export type StoppingCriterion =
+  | { type: 'hypervolume-stagnation'; generations: number; tolerance?: number }
+  | { type: 'front-stability'; generations: number }
+  | { type: 'time-budget'; ms: number }
+  | { type: 'evaluation-budget'; evaluations: number }
+  | { type: 'target'; objective: string; value: number }
+  | { type: 'any'; criteria: StoppingCriterion[] }
+  | { type: 'all'; criteria: StoppingCriterion[] };
+
+/**
+ * Why a run stopped. `criterion` is 'generations' when it ran to the end,
+ * otherwise the criterion that fired (the composite for 'all').
+ */
+export interface StopReason {
+  criterion: StoppingCriterion['type'] | 'generations';
+  message: string;
+
+  /** Last generation run */
+  generation: number;
+}
+
+/**
+ * What criteria look at after a generation.
+ */
+export interface TerminationContext {
+  /** Generation just completed */
+  generation: number;
+
+  /** Statistics of every completed generation */
+  stats: GenerationStats[];
+
+  /** Feasible agents of the generation */
+  feasible: MetaAgent[];
+
+  objectives: ObjectiveSpec[];
+
+  /** Run time so far */
+  elapsedMs: number;
+
+  /** Generations in a row (including this one) whose front 0 had the same ids as the one before */
+  stableFronts: number;
+}
+
+/**
+ * Fixed yardstick of the hypervolume-stagnation criterion, in minimization
+ * space: the box from `ideal` to `reference` is rescaled to the unit box.
+ * Frozen from the first generation's population and checkpointed.
+ */
+export interface HypervolumeBounds {
+  ideal: number[];
+  reference: number[];
+}
+
+/**
+ * Front hypervolume in the unit box of the bounds.
+ */
+export interface FixedHypervolume {
+  value: number;
+
+  /** Standard error of a Monte Carlo estimate; 0 when exact */
+  noise: number;
+}
+
+/** Samples of the Monte Carlo estimate above EXACT_HYPERVOLUME_MAX_DIMS objectives */
+export const STAGNATION_HYPERVOLUME_SAMPLES = 10000;
+
+/** Seed of the fixed sample set, reused every generation */
+const STAGNATION_SAMPLE_SEED = 0x5eed;
+
+function minimization(vector: ObjectiveVector, objectives: ObjectiveSpec[]): number[] {
+  return objectives.map((spec, i) => (spec.sense === 'max' ? -vector.values[i] : vector.values[i]));
+}
+
+/**
+ * Bounds spanning `population`: its best values as the ideal, 10% of the range
+ * (or 1 for a flat objective) beyond its worst as the reference.
+ */
+export function hypervolumeBounds(population: ObjectiveVector[], objectives: ObjectiveSpec[]): HypervolumeBounds {
+  const points = population.map(v => minimization(v, objectives));
+  const ideal = objectives.map((_, i) => Math.min(...points.map(p => p[i])));
+  const reference = objectives.map((_, i) => {
+    const worst = Math.max(...points.map(p => p[i]));
+    const range = worst - ideal[i];
+    return worst + (range > 0 ? 0.1 * range : 1);
+  });
+  return { ideal, reference };
+}
+
+/**
+ * Hypervolume of `front` against fixed bounds: exact up to
+ * EXACT_HYPERVOLUME_MAX_DIMS objectives, otherwise estimated on the same
+ * sample set every call, so an unchanged front always measures the same.
+ * Volume beyond the ideal is not counted.
+ */
+export function fixedHypervolume(
+  front: ObjectiveVector[],
+  objectives: ObjectiveSpec[],
+  bounds: HypervolumeBounds
+): FixedHypervolume {
+  const scale = (x: number, i: number) => (x - bounds.ideal[i]) / (bounds.reference[i] - bounds.ideal[i]);
+  const points = front
+    .map(v => minimization(v, objectives).map(scale))
+    .filter(p => p.every(x => x < 1));
+  const unit = objectives.map(() => 1);
+
+  if (objectives.length <= EXACT_HYPERVOLUME_MAX_DIMS) {
+    return { value: hypervolumeExact(points.map(p => p.map(x => Math.max(0, x))), unit), noise: 0 };
+  }
+
+  const random = createRng(STAGNATION_SAMPLE_SEED).next;
+  const sample = new Array<number>(objectives.length);
+  let hits = 0;
+  for (let s = 0; s < STAGNATION_HYPERVOLUME_SAMPLES; s++) {
+    for (let i = 0; i < sample.length; i++) sample[i] = random();
+    if (points.some(p => p.every((x, i) => x <= sample[i]))) hits++;
+  }
+  // Worst-case standard error of a hit ratio
+  return { value: hits / STAGNATION_HYPERVOLUME_SAMPLES, noise: 0.5 / Math.sqrt(STAGNATION_HYPERVOLUME_SAMPLES) };
+}
+
+/**
+ * True if `criterion` is, or is composed of, a criterion of `type`.
+ */
+export function usesCriterion(criterion: StoppingCriterion, type: StoppingCriterion['type']): boolean {
+  if (criterion.type === type) return true;
+  const composite = criterion.type === 'any' || criterion.type === 'all';
+  return composite && criterion.criteria.some(c => usesCriterion(c, type));
+}
+
+/**
+ * Throw if a criterion names an objective missing from `objectives`.
+ */
+export function validateStoppingCriterion(criterion: StoppingCriterion, objectives: ObjectiveSpec[]): void {
+  if (criterion.type === 'target' && !objectives.some(o => o.name === criterion.objective)) {
+    throw new Error(`Unknown objective in stopping criterion: ${criterion.objective}`);
+  }
+  if (criterion.type === 'any' || criterion.type === 'all') {
+    for (const inner of criterion.criteria) validateStoppingCriterion(inner, objectives);
+  }
+}
+
+/**
+ * Evaluation attempts recorded in `stats`, retries included.
+ */
+export function evaluationCount(stats: GenerationStats[]): number {
+  return stats.reduce((sum, s) => sum + s.evaluation.evaluated + s.evaluation.failures.length + s.evaluation.retries, 0);
+}
+
+/**
+ * Check `criterion` after a generation; returns the reason to stop, or
+ * undefined to continue.
+ */
+export function checkTermination(
+  criterion: StoppingCriterion,
+  context: TerminationContext
+): Omit<StopReason, 'generation'> | undefined {
+  switch (criterion.type) {
+    case 'hypervolume-stagnation': {
+      // Tolerance is at least twice the Monte Carlo noise, so sampling error is not progress
+      const k = criterion.generations;
+      const measured = context.stats.flatMap(s => (s.fixedHypervolume ? [s.fixedHypervolume] : []));
+      if (measured.length <= k) return undefined;
+      const hypervolumes = measured.map(h => h.value);
+      const noise = Math.max(...measured.map(h => h.noise));
+      const before = Math.max(...hypervolumes.slice(0, -k));
+      const recent = Math.max(...hypervolumes.slice(-k));
+      if (recent > before + Math.max(criterion.tolerance ?? 0, 2 * noise)) return undefined;
+      return {
+        criterion: criterion.type,
+        message: `Hypervolume stagnated for ${k} generations (best ${recent.toPrecision(4)})`,
+      };
+    }
+    case 'front-stability':
+      if (context.stableFronts < criterion.generations) return undefined;
+      return {
+        criterion: criterion.type,
+        message: `Pareto front unchanged for ${context.stableFronts} generations`,
+      };
+    case 'time-budget':
+      if (context.elapsedMs < criterion.ms) return undefined;
+      return { criterion: criterion.type, message: `Time budget of ${criterion.ms}ms reached` };
+    case 'evaluation-budget': {
+      const evaluations = evaluationCount(context.stats);
+      if (evaluations < criterion.evaluations) return undefined;
+      return {
+        criterion: criterion.type,
+        message: `Evaluation budget of ${criterion.evaluations} reached (${evaluations} evaluations)`,
+      };
+    }
+    case 'target': {
+      const index = context.objectives.findIndex(o => o.name === criterion.objective);
+      if (index < 0) {
+        throw new Error(`Unknown objective in stopping criterion: ${criterion.objective}`);
+      }
+      const max = context.objectives[index].sense === 'max';
+      const reached = context.feasible.find(agent => {
+        const value = agent.objectives.values[index];
+        return max ? value >= criterion.value : value <= criterion.value;
+      });
+      if (!reached) return undefined;
+      return {
+        criterion: criterion.type,
+        message: `${reached.id} reached ${criterion.objective} = ${reached.objectives.values[index]} ` +
+          `(target ${criterion.value})`,
+      };
+    }
+    case 'any':
+      for (const inner of criterion.criteria) {
+        const reason = checkTermination(inner, context);
+        if (reason) return reason;
+      }
+      return undefined;
+    case 'all': {
+      const reasons = criterion.criteria.map(inner => checkTermination(inner, context));
+      if (reasons.length === 0 || reasons.some(r => r === undefined)) return undefined;
+      return { criterion: criterion.type, message: reasons.map(r => r!.message).join('; ') };
+    }
+  }
+}
@@ -7,7 +7,8 @@
  * Run with: npm run demo
  */
 
-import { evolve, DEFAULT_EVOLUTION_CONFIG, type EvolutionConfig } from './core/metal-league/evolution';
+import { evolve, DEFAULT_EVOLUTION_CONFIG } from './core/metal-league/evolution';
+import { createObjectiveRegistry } from './core/laws-physics/objectives';
 import { generateProofCertificate } from './core/metal-league/proof-gate';
 
 /**
@@ -31,6 +32,10 @@ function printHeader() {
  * Print evolution stats.
  */
 function printStats(result: Awaited<ReturnType<typeof evolve>>) {
+  const registry = createObjectiveRegistry(DEFAULT_EVOLUTION_CONFIG.objectives);
+  const avg = (values: number[], name: string) =>
+    registry.get({ values, timestamp: 0 }, name);
+
   console.log('\n' + '='.repeat(60));
   console.log('📊 EVOLUTION SUMMARY');
   console.log('='.repeat(60));
@@ -40,12 +45,12 @@ function printStats(result: Awaited<ReturnType<typeof evolve>>) {
   console.log(`🏆 Pareto frontier: ${result.paretoFront.length} agents`);
   
   console.log('\n📈 Generation-by-Generation Stats:');
-  console.log('Gen | Pop | Pareto | Passed | Failed | Avg Gain | Avg Privacy');
-  console.log('-'.repeat(70));
+  console.log('Gen | Pop | Pareto | Passed | Failed | Avg Gain | Avg Privacy | Hypervolume');
+  console.log('-'.repeat(84));
   
   for (const stat of result.stats) {
-    const avgGain = stat.avgObjectives[0].toFixed(3);
-    const avgPrivacy = stat.avgObjectives[4].toFixed(3);
+    const avgGain = avg(stat.avgObjectives, 'gain').toFixed(3);
+    const avgPrivacy = avg(stat.avgObjectives, 'privacyLoss').toFixed(3);
     console.log(
       `${stat.generation.toString().padStart(3)} | ` +
       `${stat.populationSize.toString().padStart(3)} | ` +
@@ -53,14 +58,16 @@ function printStats(result: Awaited<ReturnType<typeof evolve>>) {
       `${stat.passedProofGate.toString().padStart(6)} | ` +
       `${stat.failedProofGate.toString().padStart(6)} | ` +
       `${avgGain.padStart(8)} | ` +
-      `${avgPrivacy.padStart(11)}`
+      `${avgPrivacy.padStart(11)} | ` +
+      `${(stat.indicators?.hypervolume.toFixed(4) ?? '-').padStart(11)}`
     );
   }
   
   console.log('\n🌟 Pareto Champions:');
   for (let i = 0; i < Math.min(3, result.paretoFront.length); i++) {
     const agent = result.paretoFront[i];
-    const [gain, latency, engagement, fairness, privacy, cost] = agent.objectives.values;
+    const { gain, latency, engagement, fairness, privacyLoss: privacy, cost } =
+      registry.toRecord(agent.objectives);
     
     console.log(`\n  Agent #${i + 1}: ${agent.id}`);
     console.log(`    Generation: ${agent.generation}`);
@@ -134,7 +134,8 @@ export function initBanditState(explorationRate?: number): BanditState {
   return { explorationRate: rate, arms };
 }
 
-function ucbScore(arm: BanditArmState, totalPulls: number) {
+/** UCB1 score of an arm; arms never pulled score Infinity */
+export function ucbScore(arm: BanditArmState, totalPulls: number) {
   if (arm.pulls === 0) return Infinity;
   const c = 1.2;
   return arm.meanReward + c * Math.sqrt(Math.log(totalPulls + 1) / arm.pulls);